@@ -0,0 +1,29 @@
+/**
+ * BiUD Frontend - Name Token Metadata Route
+ * Serves the SIP-016 metadata that `get-token-uri` points wallets to
+ */
+
+import { NextResponse } from 'next/server';
+import { registry, buildTokenMetadata, describeError } from '../../../../services/biud';
+
+export async function GET(request: Request, { params }: { params: { id: string } }) {
+  const client = registry.clientFor('sip-009');
+  if (!client || !/^\d+$/.test(params.id)) {
+    return NextResponse.json({ error: 'Token not found' }, { status: 404 });
+  }
+
+  try {
+    const label = await client.getLabelById(BigInt(params.id));
+    const record = label ? await client.getNameInfo(label) : null;
+    // Released names keep their label mapping, so check the token is still current
+    if (!record || record.nameId.toString() !== params.id) {
+      return NextResponse.json({ error: 'Token not found' }, { status: 404 });
+    }
+    const image = new URL('/favicon.svg', request.url).toString();
+    return NextResponse.json(buildTokenMetadata(record, image), {
+      headers: { 'Cache-Control': 'public, max-age=300' },
+    });
+  } catch (error) {
+    return NextResponse.json({ error: describeError(error, 'Failed to load token metadata') }, { status: 502 });
+  }
+}
@@ -5,29 +5,66 @@
 
 'use client';
 
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import { openContractCall } from '@stacks/connect';
 import WalletConnect from '../components/WalletConnect';
 import NameSearch from '../components/NameSearch';
 import NameDetails from '../components/NameDetails';
 import ThemeToggle from '../components/ThemeToggle';
-import { getRegisterNameOptions, getRegistrationFee, formatSTX } from '../services/biud';
+import TransactionStatus from '../components/TransactionStatus';
+import MyNames from '../components/MyNames';
+import Operators from '../components/Operators';
+import PendingRegistrations from '../components/PendingRegistrations';
+import Marketplace from '../components/Marketplace';
+import { registry, formatSTX, describeError, MAX_REGISTRATION_YEARS } from '../services/biud';
+import { txTracker } from '../services/transactions';
+import { chainTip } from '../services/chain';
+import { commitmentStore, commitmentHash } from '../services/commitments';
 
 export default function Home() {
   const [connectedAddress, setConnectedAddress] = useState<string | null>(null);
   const [selectedName, setSelectedName] = useState<string | null>(null);
   const [isAvailable, setIsAvailable] = useState<boolean | null>(null);
-  const [registrationFee, setRegistrationFee] = useState<number>(0);
+  const [registrationFee, setRegistrationFee] = useState<bigint>(BigInt(0));
+  const [years, setYears] = useState(1);
   const [isRegistering, setIsRegistering] = useState(false);
   const [txStatus, setTxStatus] = useState<string | null>(null);
+  const [currentBlock, setCurrentBlock] = useState(0);
+  const [activeTab, setActiveTab] = useState<'names' | 'marketplace'>('names');
 
-  const handleNameSelected = (label: string, available: boolean, fee: number) => {
+  // Registrar that supports owner-wide operators, if any is deployed
+  const operatorClient = registry.clientFor('operators');
+
+  // Follow the chain tip so expiry countdowns stay current
+  useEffect(() => {
+    const unsubscribe = chainTip.subscribe((tip) => setCurrentBlock(tip.contractHeight));
+    chainTip.start();
+    return () => {
+      unsubscribe();
+      chainTip.stop();
+    };
+  }, []);
+
+  const handleNameSelected = (label: string, available: boolean, fee: bigint) => {
     setSelectedName(label);
     setIsAvailable(available);
     setRegistrationFee(fee);
+    setYears(1);
     setTxStatus(null);
   };
 
+  // Re-quote the fee for the chosen registration length (search quotes one year)
+  const handleYearsChange = async (value: number) => {
+    if (!selectedName) return;
+    setYears(value);
+    try {
+      setRegistrationFee(await registry.latest.getRegistrationFee(selectedName, value));
+    } catch (error) {
+      console.error('Fee quote error:', error);
+      setTxStatus(`Error: ${describeError(error, 'Failed to quote fee')}`);
+    }
+  };
+
   const handleRegister = async () => {
     if (!selectedName || !connectedAddress) return;
     
@@ -35,13 +72,18 @@ export default function Home() {
     setTxStatus(null);
     
     try {
-      const options = getRegisterNameOptions(selectedName);
+      const client = registry.latest;
+      if (client.supportsCommitReveal) {
+        await handleCommit();
+        return;
+      }
+      const options = await client.getRegisterNameOptions(selectedName, connectedAddress, years);
       
       await openContractCall({
         ...options,
         onFinish: (data) => {
           console.log('Transaction submitted:', data);
-          setTxStatus(`Transaction submitted! TX ID: ${data.txId}`);
+          txTracker.track(data.txId, { action: 'Register', label: selectedName });
           setIsRegistering(false);
         },
         onCancel: () => {
@@ -52,11 +94,40 @@ export default function Home() {
       });
     } catch (error) {
       console.error('Registration error:', error);
-      setTxStatus(`Error: ${error instanceof Error ? error.message : 'Failed to register'}`);
+      setTxStatus(`Error: ${describeError(error, 'Failed to register')}`);
       setIsRegistering(false);
     }
   };
 
+  // Commit-reveal: commit a hash of the name now, PendingRegistrations reveals it
+  // once the commitment is old enough. The name stays out of the mempool until the
+  // reveal, though a register-name with a higher fee can still beat the reveal
+  const handleCommit = async () => {
+    if (!selectedName || !connectedAddress) return;
+    const label = selectedName;
+    const commitment = await commitmentStore.create(registry.latest, label, connectedAddress, years);
+    try {
+      await openContractCall({
+        ...registry.latest.getCommitNameOptions(commitmentHash(commitment)),
+        onFinish: (data) => {
+          // Tracked without the label, the name stays private until the reveal
+          const tx = txTracker.track(data.txId, { action: 'Commit to name' });
+          commitmentStore.update(commitment.commitmentHex, { commitTxId: tx.txId });
+          setTxStatus(`Committed to ${label}.sBTC, registration continues automatically once the commitment confirms`);
+          setIsRegistering(false);
+        },
+        onCancel: () => {
+          commitmentStore.remove(commitment.commitmentHex);
+          setTxStatus('Transaction cancelled');
+          setIsRegistering(false);
+        },
+      });
+    } catch (error) {
+      commitmentStore.remove(commitment.commitmentHex);
+      throw error;
+    }
+  };
+
   return (
     <div className="min-h-screen">
       {/* Header */}
@@ -94,6 +165,23 @@ export default function Home() {
           {/* Action Buttons */}
           {selectedName && isAvailable && connectedAddress && (
             <div className="mt-8">
+              {registry.latest.supportsMultiYear && (
+                <label className="block mb-4 text-sm text-gray-600 dark:text-gray-300">
+                  Duration{' '}
+                  <select
+                    value={years}
+                    onChange={(e) => handleYearsChange(Number(e.target.value))}
+                    disabled={isRegistering}
+                    className="ml-2 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white outline-none focus:ring-2 focus:ring-stacks"
+                  >
+                    {Array.from({ length: MAX_REGISTRATION_YEARS }, (_, i) => i + 1).map((n) => (
+                      <option key={n} value={n}>
+                        {n} {n === 1 ? 'year' : 'years'}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              )}
               <button 
                 onClick={handleRegister}
                 disabled={isRegistering}
@@ -103,7 +191,7 @@ export default function Home() {
               </button>
               {registrationFee > 0 && (
                 <p className="mt-2 text-sm text-gray-500 dark:text-gray-400">
-                  Fee: {formatSTX(registrationFee)} STX
+                  Fee: {formatSTX(registrationFee)} STX{years > 1 && ` for ${years} years`}
                 </p>
               )}
               {txStatus && (
@@ -119,6 +207,12 @@ export default function Home() {
               Connect your wallet to register this name
             </p>
           )}
+
+          {/* Commit-reveal registrations in progress */}
+          {connectedAddress && <PendingRegistrations address={connectedAddress} currentBlock={currentBlock} />}
+
+          {/* Submitted Transactions */}
+          <TransactionStatus />
         </div>
       </section>
 
@@ -127,7 +221,38 @@ export default function Home() {
         <section className="py-12 px-4 bg-gray-50 dark:bg-gray-800 transition-colors">
           <div className="max-w-4xl mx-auto">
             <h2 className="text-2xl font-semibold text-gray-800 dark:text-white mb-6 transition-colors">Name Details</h2>
-            <NameDetails label={selectedName} currentBlock={0} />
+            <NameDetails label={selectedName} currentBlock={currentBlock} connectedAddress={connectedAddress} />
+          </div>
+        </section>
+      )}
+
+      {/* Owned Names / Marketplace Section */}
+      {connectedAddress && (
+        <section className="py-12 px-4 bg-gray-50 dark:bg-gray-800 transition-colors">
+          <div className="max-w-4xl mx-auto">
+            <div className="flex gap-6 mb-6 border-b border-gray-200 dark:border-gray-700">
+              {([['names', 'My Names'], ['marketplace', 'Marketplace']] as const).map(([tab, title]) => (
+                <button
+                  key={tab}
+                  onClick={() => setActiveTab(tab)}
+                  className={`pb-2 -mb-px text-2xl font-semibold border-b-2 transition-colors ${
+                    activeTab === tab
+                      ? 'border-stacks text-gray-800 dark:text-white'
+                      : 'border-transparent text-gray-400 hover:text-gray-600 dark:text-gray-500 dark:hover:text-gray-300'
+                  }`}
+                >
+                  {title}
+                </button>
+              ))}
+            </div>
+            {activeTab === 'names' ? (
+              <>
+                <MyNames address={connectedAddress} currentBlock={currentBlock} />
+                {operatorClient && <Operators client={operatorClient} address={connectedAddress} />}
+              </>
+            ) : (
+              <Marketplace address={connectedAddress} />
+            )}
           </div>
         </section>
       )}
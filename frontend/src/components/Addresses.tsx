@@ -0,0 +1,176 @@
+/**
+ * BiUD Frontend - Addresses Component
+ * Show a name's chain addresses, and edit them for the owner or an operator
+ */
+
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { openContractCall } from '@stacks/connect';
+import { describeError, BiudClient, BiudResolver, CoinAddress } from '../services/biud';
+import { COIN_FORMATS, COIN_TYPES, encodeAddress, decodeAddress, getCoinFormat } from '../services/addresses';
+import { txTracker } from '../services/transactions';
+
+interface AddressesProps {
+  /** Resolver with the `multi-coin` capability */
+  resolver: BiudResolver;
+  /** Registrar holding the name */
+  client: BiudClient;
+  label: string;
+  /** Connected wallet, enables editing for the owner or an operator */
+  address: string | null;
+}
+
+type CallOptions = ReturnType<BiudResolver['getSetAddressOptions']>;
+
+// Human-readable address, or the raw bytes for coin types the codec does not know
+function formatAddress({ coinType, bytes }: CoinAddress): string {
+  try {
+    return decodeAddress(coinType, bytes);
+  } catch {
+    return '0x' + Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+  }
+}
+
+export default function Addresses({ resolver, client, label, address }: AddressesProps) {
+  const [records, setRecords] = useState<CoinAddress[]>([]);
+  const [canManage, setCanManage] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [coinType, setCoinType] = useState<number>(COIN_TYPES.BTC);
+  const [input, setInput] = useState('');
+
+  const fetchAddresses = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const [list, manage] = await Promise.all([
+        resolver.getAddresses(label),
+        address ? client.canManageName(label, address) : Promise.resolve(false),
+      ]);
+      setRecords(list);
+      setCanManage(manage);
+      setError(null);
+    } catch (err) {
+      setError(describeError(err, 'Failed to fetch addresses'));
+      setRecords([]);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [resolver, client, label, address]);
+
+  useEffect(() => {
+    fetchAddresses();
+  }, [fetchAddresses]);
+
+  // Refetch once an address change for this name confirms
+  useEffect(() => {
+    const seen = new Set(txTracker.list().filter((tx) => tx.state === 'confirmed').map((tx) => tx.txId));
+    return txTracker.subscribe((transactions) => {
+      const confirmed = transactions.filter(
+        (tx) => tx.state === 'confirmed' && !seen.has(tx.txId) && tx.label === label && tx.action.endsWith('address')
+      );
+      confirmed.forEach((tx) => seen.add(tx.txId));
+      if (confirmed.length > 0) {
+        fetchAddresses();
+      }
+    });
+  }, [label, fetchAddresses]);
+
+  // Open the wallet for a contract call and follow the resulting transaction
+  const submit = async (action: string, buildOptions: () => CallOptions) => {
+    try {
+      await openContractCall({
+        ...buildOptions(),
+        onFinish: (data) => {
+          txTracker.track(data.txId, { action, label });
+          setInput('');
+        },
+      });
+    } catch (err) {
+      setError(describeError(err, `Failed to ${action.toLowerCase()}`));
+    }
+  };
+
+  const handleSet = () => {
+    if (!input) return;
+    submit('Set address', () => resolver.getSetAddressOptions(label, coinType, encodeAddress(coinType, input)));
+  };
+
+  if (isLoading) {
+    return (
+      <div className="mt-6 p-4 bg-gray-50 dark:bg-gray-700 rounded-lg animate-pulse transition-colors">
+        <div className="h-4 bg-gray-200 dark:bg-gray-600 rounded w-1/3 mb-2"></div>
+        <div className="h-4 bg-gray-200 dark:bg-gray-600 rounded w-2/3"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="mt-6">
+      <h3 className="text-lg font-semibold text-gray-800 dark:text-white mb-3">Addresses</h3>
+
+      {error && (
+        <p className="mb-3 text-sm text-red-500">{error}</p>
+      )}
+
+      {records.length === 0 ? (
+        <p className="text-sm text-gray-600 dark:text-gray-400">No addresses set</p>
+      ) : (
+        <ul className="space-y-2">
+          {records.map((record) => (
+            <li
+              key={record.coinType}
+              className="p-3 bg-gray-50 dark:bg-gray-700 rounded-lg flex flex-wrap items-center justify-between gap-2 transition-colors"
+            >
+              <div className="min-w-0">
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                  {getCoinFormat(record.coinType)?.name ?? `Coin type ${record.coinType}`}
+                </p>
+                <p className="text-sm font-mono break-all text-gray-900 dark:text-white">{formatAddress(record)}</p>
+              </div>
+              {canManage && (
+                <button
+                  onClick={() => submit('Clear address', () => resolver.getClearAddressOptions(label, record.coinType))}
+                  className="px-3 py-1 text-sm bg-red-500 hover:bg-red-600 text-white rounded transition-colors"
+                >
+                  Clear
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {/* Set (owner or operator) */}
+      {canManage && (
+        <div className="mt-3 flex flex-wrap items-center gap-2">
+          <select
+            value={coinType}
+            onChange={(e) => setCoinType(Number(e.target.value))}
+            className="px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-900 text-gray-900 dark:text-white"
+          >
+            {Array.from(COIN_FORMATS.values()).map((format) => (
+              <option key={format.coinType} value={format.coinType}>
+                {format.name}
+              </option>
+            ))}
+          </select>
+          <input
+            type="text"
+            value={input}
+            onChange={(e) => setInput(e.target.value.trim())}
+            placeholder="Address"
+            className="flex-1 min-w-0 px-3 py-1 text-sm font-mono border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-900 text-gray-900 dark:text-white outline-none focus:ring-2 focus:ring-stacks"
+          />
+          <button
+            onClick={handleSet}
+            disabled={!input}
+            className="px-3 py-1 text-sm bg-stacks hover:bg-stacks/90 text-white rounded transition-colors disabled:opacity-50"
+          >
+            Set
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
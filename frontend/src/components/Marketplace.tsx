@@ -0,0 +1,315 @@
+/**
+ * BiUD Frontend - Marketplace Component
+ * Look up a name's listing and offers, buy, bid, or sell your own names
+ */
+
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { openContractCall } from '@stacks/connect';
+import {
+  describeError,
+  formatSTX,
+  parseSTX,
+  validateLabel,
+  getFullName,
+  NameRecord,
+} from '../services/biud';
+import { marketplace, BiudMarketplace, MarketplaceListing, MarketplaceOffer } from '../services/marketplace';
+import { txTracker } from '../services/transactions';
+
+interface MarketplaceProps {
+  address: string;
+}
+
+type CallOptions = Awaited<ReturnType<BiudMarketplace['getBuyNameOptions']>>;
+
+interface MarketState {
+  record: NameRecord | null;
+  listing: MarketplaceListing | null;
+  offers: MarketplaceOffer[];
+}
+
+export default function Marketplace({ address }: MarketplaceProps) {
+  const [search, setSearch] = useState('');
+  const [label, setLabel] = useState<string | null>(null);
+  const [market, setMarket] = useState<MarketState | null>(null);
+  const [ownedLabels, setOwnedLabels] = useState<string[]>([]);
+  const [royaltyPercent, setRoyaltyPercent] = useState<bigint | null>(null);
+  const [amount, setAmount] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchMarket = useCallback(async (target: string) => {
+    if (!marketplace) return;
+    setIsLoading(true);
+    try {
+      const [record, listing, offers] = await Promise.all([
+        marketplace.registrar.getNameInfo(target),
+        marketplace.getListing(target),
+        marketplace.getOffers(target),
+      ]);
+      setMarket({ record, listing, offers });
+      setError(null);
+    } catch (err) {
+      setError(describeError(err, 'Failed to load marketplace data'));
+      setMarket(null);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  // Names the wallet can list: only those held on the marketplace's registrar
+  useEffect(() => {
+    if (!marketplace) return;
+    const registrar = marketplace.registrar;
+    registrar.getOwnedNames(address)
+      .then((records) => setOwnedLabels(records.map((record) => record.label)))
+      .catch(() => setOwnedLabels([]));
+    marketplace.getRoyaltyPercent().then(setRoyaltyPercent).catch(() => setRoyaltyPercent(null));
+  }, [address]);
+
+  useEffect(() => {
+    if (label) fetchMarket(label);
+  }, [label, fetchMarket]);
+
+  // Refetch once a transaction for the selected name confirms
+  useEffect(() => {
+    if (!label) return;
+    const seen = new Set(txTracker.list().filter((tx) => tx.state === 'confirmed').map((tx) => tx.txId));
+    return txTracker.subscribe((transactions) => {
+      const confirmed = transactions.filter(
+        (tx) => tx.state === 'confirmed' && !seen.has(tx.txId) && tx.label === label
+      );
+      confirmed.forEach((tx) => seen.add(tx.txId));
+      if (confirmed.length > 0) {
+        fetchMarket(label);
+      }
+    });
+  }, [label, fetchMarket]);
+
+  if (!marketplace) {
+    return (
+      <div className="p-6 bg-gray-50 dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 transition-colors">
+        <p className="text-gray-600 dark:text-gray-400">The marketplace is not deployed on this network</p>
+      </div>
+    );
+  }
+
+  // Non-null from here on, also inside the handlers below
+  const contract = marketplace;
+
+  const handleSearch = () => {
+    const normalized = search.toLowerCase();
+    const validation = validateLabel(normalized);
+    if (!validation.valid) {
+      setError(validation.error ?? 'Invalid name');
+      return;
+    }
+    setAmount('');
+    setLabel(normalized);
+  };
+
+  // Open the wallet for a contract call and follow the resulting transaction
+  const submit = async (action: string, buildOptions: () => Promise<CallOptions>) => {
+    if (!label) return;
+    try {
+      const options = await buildOptions();
+      await openContractCall({
+        ...options,
+        onFinish: (data) => {
+          txTracker.track(data.txId, { action, label });
+          setAmount('');
+        },
+      });
+    } catch (err) {
+      setError(describeError(err, `Failed to ${action.toLowerCase()} ${label}`));
+    }
+  };
+
+  const listing = market?.listing ?? null;
+  const activeListing = listing?.active ? listing : null;
+  // Whoever can sell the name: the seller while listed, otherwise the registered owner
+  const holder = activeListing?.seller ?? market?.record?.owner ?? null;
+  const isHolder = holder === address;
+  const myOffer = market?.offers.find((offer) => offer.bidder === address) ?? null;
+  const parsedAmount = parseSTX(amount);
+
+  return (
+    <div className="space-y-4">
+      {/* Search */}
+      <div className="flex gap-2">
+        <div className="flex-1 relative">
+          <input
+            type="text"
+            value={search}
+            onChange={(e) => setSearch(e.target.value.toLowerCase())}
+            onKeyDown={(e) => e.key === 'Enter' && handleSearch()}
+            placeholder="Look up a name..."
+            className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-stacks focus:border-transparent outline-none bg-white dark:bg-gray-900 text-gray-900 dark:text-white placeholder-gray-400 dark:placeholder-gray-500 transition-colors"
+            maxLength={32}
+          />
+          <span className="absolute right-4 top-1/2 -translate-y-1/2 text-gray-400 dark:text-gray-500 font-medium">
+            .sBTC
+          </span>
+        </div>
+        <button
+          onClick={handleSearch}
+          disabled={!search || isLoading}
+          className="px-4 py-2 bg-bitcoin hover:bg-bitcoin/90 text-white rounded-lg font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isLoading ? 'Loading...' : 'View'}
+        </button>
+      </div>
+
+      {/* Quick pick of the wallet's own names */}
+      {ownedLabels.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <span className="text-gray-600 dark:text-gray-400">Sell one of your names:</span>
+          {ownedLabels.map((owned) => (
+            <button
+              key={owned}
+              onClick={() => {
+                setSearch(owned);
+                setAmount('');
+                setLabel(owned);
+              }}
+              className="px-2 py-0.5 bg-gray-200 hover:bg-gray-300 dark:bg-gray-700 dark:hover:bg-gray-600 text-gray-900 dark:text-white rounded transition-colors"
+            >
+              {getFullName(owned)}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {error && (
+        <div className="p-4 bg-red-50 dark:bg-red-900/30 rounded-lg border border-red-200 dark:border-red-800 transition-colors">
+          <p className="text-red-700 dark:text-red-400">{error}</p>
+        </div>
+      )}
+
+      {label && market && (
+        <div className="p-4 bg-white dark:bg-gray-800 rounded-lg shadow-md transition-colors">
+          {/* Header */}
+          <div className="flex flex-wrap items-center gap-2">
+            <h3 className="text-lg font-bold text-gray-800 dark:text-white">{getFullName(label)}</h3>
+            {activeListing && (
+              <span className="px-2 py-0.5 bg-green-500 text-white text-xs rounded-full">
+                For sale · {formatSTX(activeListing.price)} STX
+              </span>
+            )}
+          </div>
+
+          {!market.record ? (
+            <p className="mt-2 text-sm text-gray-600 dark:text-gray-400">This name is not registered</p>
+          ) : (
+            <>
+              <p className="mt-2 text-sm font-mono break-all text-gray-600 dark:text-gray-300">
+                {activeListing ? 'Seller' : 'Owner'}: {holder}
+              </p>
+              {royaltyPercent !== null && (
+                <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                  {royaltyPercent.toString()}% of every sale goes to the protocol treasury
+                </p>
+              )}
+
+              {/* Listing actions */}
+              <div className="mt-3 flex flex-wrap gap-2">
+                {activeListing && !isHolder && (
+                  <button
+                    onClick={() => submit('Buy', () => contract.getBuyNameOptions(label, address))}
+                    className="px-3 py-1 text-sm bg-stacks hover:bg-stacks/90 text-white rounded transition-colors"
+                  >
+                    Buy for {formatSTX(activeListing.price)} STX
+                  </button>
+                )}
+                {listing && listing.seller === address && (
+                  <button
+                    onClick={() => submit('Cancel listing', () => contract.getCancelListingOptions(label))}
+                    className="px-3 py-1 text-sm bg-gray-200 hover:bg-gray-300 dark:bg-gray-700 dark:hover:bg-gray-600 text-gray-900 dark:text-white rounded transition-colors"
+                  >
+                    {listing.active ? 'Cancel listing' : 'Remove lapsed listing'}
+                  </button>
+                )}
+                {activeListing && activeListing.seller === address && (
+                  <button
+                    onClick={() => submit('Renew', () => contract.getRenewListedNameOptions(label, address))}
+                    className="px-3 py-1 text-sm bg-gray-200 hover:bg-gray-300 dark:bg-gray-700 dark:hover:bg-gray-600 text-gray-900 dark:text-white rounded transition-colors"
+                  >
+                    Renew for 1 year
+                  </button>
+                )}
+                {myOffer && (
+                  <button
+                    onClick={() => submit('Cancel offer', () => contract.getCancelOfferOptions(label, address))}
+                    className="px-3 py-1 text-sm bg-gray-200 hover:bg-gray-300 dark:bg-gray-700 dark:hover:bg-gray-600 text-gray-900 dark:text-white rounded transition-colors"
+                  >
+                    Withdraw my offer ({formatSTX(myOffer.amount)} STX)
+                  </button>
+                )}
+              </div>
+
+              {/* List (owner) or offer (everyone else) */}
+              {!(isHolder && activeListing) && (
+                <div className="mt-3 flex gap-2">
+                  <input
+                    type="text"
+                    inputMode="decimal"
+                    value={amount}
+                    onChange={(e) => setAmount(e.target.value.trim())}
+                    placeholder={isHolder ? 'Asking price in STX' : 'Offer in STX'}
+                    className="flex-1 px-3 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-900 text-gray-900 dark:text-white outline-none focus:ring-2 focus:ring-stacks"
+                  />
+                  <button
+                    onClick={() =>
+                      parsedAmount &&
+                      submit(isHolder ? 'List' : 'Offer', () =>
+                        isHolder
+                          ? contract.getListNameOptions(label, address, parsedAmount)
+                          : contract.getMakeOfferOptions(label, address, parsedAmount)
+                      )
+                    }
+                    disabled={!parsedAmount}
+                    className="px-3 py-1 text-sm bg-stacks hover:bg-stacks/90 text-white rounded transition-colors disabled:opacity-50"
+                  >
+                    {isHolder ? 'List for sale' : myOffer ? 'Replace offer' : 'Make offer'}
+                  </button>
+                </div>
+              )}
+
+              {/* Open offers */}
+              <h4 className="mt-4 font-semibold text-gray-800 dark:text-white">Offers</h4>
+              {market.offers.length === 0 ? (
+                <p className="mt-1 text-sm text-gray-600 dark:text-gray-400">No open offers</p>
+              ) : (
+                <ul className="mt-2 space-y-2">
+                  {market.offers.map((offer) => (
+                    <li
+                      key={offer.bidder}
+                      className="p-3 bg-gray-50 dark:bg-gray-700 rounded-lg flex flex-wrap items-center justify-between gap-2 transition-colors"
+                    >
+                      <span className="text-sm text-gray-900 dark:text-white">
+                        <strong>{formatSTX(offer.amount)} STX</strong>{' '}
+                        <span className="font-mono text-gray-500 dark:text-gray-400 break-all">from {offer.bidder}</span>
+                      </span>
+                      {isHolder && offer.bidder !== address && (
+                        <button
+                          onClick={() =>
+                            submit('Accept offer', () => contract.getAcceptOfferOptions(label, offer.bidder, address))
+                          }
+                          className="px-3 py-1 text-sm bg-green-500 hover:bg-green-600 text-white rounded transition-colors"
+                        >
+                          Accept
+                        </button>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
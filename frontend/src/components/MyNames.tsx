@@ -0,0 +1,291 @@
+/**
+ * BiUD Frontend - My Names Dashboard
+ * Lists every name owned by the connected wallet with management actions
+ */
+
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { openContractCall } from '@stacks/connect';
+import {
+  registry,
+  describeError,
+  estimateTimeUntilExpiry,
+  formatSTX,
+  MAX_BATCH_SIZE,
+  BiudClient,
+  LocatedName,
+} from '../services/biud';
+import { getOwnedNames } from '../services/indexer';
+import { txTracker } from '../services/transactions';
+
+interface MyNamesProps {
+  address: string;
+  currentBlock?: number;
+}
+
+type InputAction = 'transfer' | 'resolver';
+
+type CallOptions = Awaited<ReturnType<BiudClient['getTransferNameOptions']>>;
+
+// Names expiring within ~30 days (10 minute blocks), or already in their grace period
+const EXPIRING_SOON_BLOCKS = 4320;
+
+export default function MyNames({ address, currentBlock = 0 }: MyNamesProps) {
+  const [names, setNames] = useState<LocatedName[]>([]);
+  const [primaryLabel, setPrimaryLabel] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [activeInput, setActiveInput] = useState<{ name: LocatedName; action: InputAction } | null>(null);
+  const [inputValue, setInputValue] = useState('');
+  const [selected, setSelected] = useState<string[]>([]);
+  const [renewalTotal, setRenewalTotal] = useState<bigint | null>(null);
+
+  // Primary names live on the registrar that advertises them; names held on
+  // older registrars cannot be set as primary until they are migrated
+  const primaryClient = registry.clientFor('primary-names');
+  // Only names on a registrar with batch calls can be renewed together
+  const batchClient = registry.clientFor('batch');
+
+  const fetchNames = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const [owned, primary] = await Promise.all([
+        getOwnedNames(address),
+        registry.getPrimaryName(address),
+      ]);
+      setNames(owned);
+      setPrimaryLabel(primary?.label ?? null);
+      setError(null);
+    } catch (err) {
+      setError(describeError(err, 'Failed to fetch your names'));
+      setNames([]);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [address]);
+
+  useEffect(() => {
+    fetchNames();
+  }, [fetchNames]);
+
+  // Quote the selected renewals up front
+  useEffect(() => {
+    if (!batchClient || selected.length === 0) {
+      setRenewalTotal(null);
+      return;
+    }
+    let cancelled = false;
+    batchClient.getBatchRenewalFee(selected)
+      .then((total) => !cancelled && setRenewalTotal(total))
+      .catch(() => !cancelled && setRenewalTotal(null));
+    return () => {
+      cancelled = true;
+    };
+  }, [batchClient, selected]);
+
+  const batchLabels = names.filter(({ client }) => client === batchClient).map(({ record }) => record.label);
+  const expiringSoon = currentBlock > 0
+    ? names
+        .filter(({ client, record }) => client === batchClient && Number(record.expiryHeight) - currentBlock <= EXPIRING_SOON_BLOCKS)
+        .map(({ record }) => record.label)
+    : [];
+
+  const toggleSelected = (label: string) => {
+    setSelected((current) =>
+      current.includes(label) ? current.filter((item) => item !== label) : [...current, label].slice(0, MAX_BATCH_SIZE)
+    );
+  };
+
+  // Open the wallet for a contract call and follow the resulting transaction
+  const submit = async (
+    action: string,
+    label: string | undefined,
+    buildOptions: () => Promise<CallOptions> | CallOptions
+  ) => {
+    try {
+      const options = await buildOptions();
+      await openContractCall({
+        ...options,
+        onFinish: (data) => {
+          txTracker.track(data.txId, { action, label });
+          setActiveInput(null);
+          setInputValue('');
+          setSelected([]);
+        },
+      });
+    } catch (err) {
+      setError(describeError(err, `Failed to ${action.toLowerCase()}${label ? ` ${label}` : ''}`));
+    }
+  };
+
+  const handleInputSubmit = () => {
+    if (!activeInput || !inputValue) return;
+    const { name: { record, client }, action } = activeInput;
+    if (action === 'transfer') {
+      submit('Transfer', record.label, () => client.getTransferNameOptions(record.label, inputValue));
+    } else {
+      submit('Set resolver', record.label, () => client.getSetResolverOptions(record.label, inputValue));
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="p-6 bg-white dark:bg-gray-800 rounded-lg shadow-md animate-pulse transition-colors">
+        <div className="h-6 bg-gray-200 dark:bg-gray-700 rounded w-1/3 mb-4"></div>
+        <div className="h-4 bg-gray-200 dark:bg-gray-700 rounded w-3/4 mb-2"></div>
+        <div className="h-4 bg-gray-200 dark:bg-gray-700 rounded w-2/3"></div>
+      </div>
+    );
+  }
+
+  if (names.length === 0 && !error) {
+    return (
+      <div className="p-6 bg-gray-50 dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 transition-colors">
+        <p className="text-gray-600 dark:text-gray-400">You don&apos;t own any .sBTC names yet</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <div className="p-4 bg-red-50 dark:bg-red-900/30 rounded-lg border border-red-200 dark:border-red-800 transition-colors">
+          <p className="text-red-700 dark:text-red-400">{error}</p>
+        </div>
+      )}
+
+      {/* Batch renewal */}
+      {batchClient && batchLabels.length > 1 && (
+        <div className="p-4 bg-white dark:bg-gray-800 rounded-lg shadow-md flex flex-wrap items-center gap-2 transition-colors">
+          <button
+            onClick={() => setSelected(expiringSoon.slice(0, MAX_BATCH_SIZE))}
+            disabled={expiringSoon.length === 0}
+            className="px-3 py-1 text-sm bg-gray-200 hover:bg-gray-300 dark:bg-gray-700 dark:hover:bg-gray-600 text-gray-900 dark:text-white rounded transition-colors disabled:opacity-50"
+          >
+            Select expiring soon ({expiringSoon.length})
+          </button>
+          {selected.length > 0 && (
+            <button
+              onClick={() => setSelected([])}
+              className="px-3 py-1 text-sm text-gray-500 dark:text-gray-400"
+            >
+              Clear
+            </button>
+          )}
+          <button
+            onClick={() =>
+              submit(`Renew ${selected.length} name${selected.length === 1 ? '' : 's'}`, undefined, () => batchClient.getRenewNamesOptions(selected, address))
+            }
+            disabled={selected.length === 0}
+            className="ml-auto px-3 py-1 text-sm bg-stacks hover:bg-stacks/90 text-white rounded transition-colors disabled:opacity-50"
+          >
+            Renew selected ({selected.length})
+            {renewalTotal !== null && ` · ${formatSTX(renewalTotal)} STX`}
+          </button>
+        </div>
+      )}
+
+      {names.map(({ record: name, client }) => (
+        <div key={`${client.contractId}:${name.label}`} className="p-4 bg-white dark:bg-gray-800 rounded-lg shadow-md transition-colors">
+          {/* Header */}
+          <div className="flex flex-wrap items-center gap-2">
+            {client === batchClient && batchLabels.length > 1 && (
+              <input
+                type="checkbox"
+                checked={selected.includes(name.label)}
+                onChange={() => toggleSelected(name.label)}
+                aria-label={`Select ${name.fullName}`}
+              />
+            )}
+            <h3 className="text-lg font-bold text-gray-800 dark:text-white">{name.fullName}</h3>
+            {name.label === primaryLabel && (
+              <span className="px-2 py-0.5 bg-stacks text-white text-xs rounded-full">Primary</span>
+            )}
+            {name.isPremium && (
+              <span className="px-2 py-0.5 bg-bitcoin text-white text-xs rounded-full">Premium</span>
+            )}
+          </div>
+
+          {/* Details */}
+          <div className="mt-2 grid grid-cols-1 md:grid-cols-2 gap-2 text-sm text-gray-600 dark:text-gray-300">
+            <p>
+              Expires at block {name.expiryHeight.toLocaleString()}
+              {currentBlock > 0 && ` (${estimateTimeUntilExpiry(currentBlock, name.expiryHeight)})`}
+            </p>
+            <p className="font-mono break-all">
+              Resolver: {name.resolver ?? 'none'}
+            </p>
+          </div>
+
+          {/* Actions */}
+          <div className="mt-3 flex flex-wrap gap-2">
+            <button
+              onClick={() => submit('Renew', name.label, () => client.getRenewNameOptions(name.label, address))}
+              className="px-3 py-1 text-sm bg-stacks hover:bg-stacks/90 text-white rounded transition-colors"
+            >
+              Renew
+            </button>
+            <button
+              onClick={() => setActiveInput({ name: { record: name, client }, action: 'transfer' })}
+              className="px-3 py-1 text-sm bg-gray-200 hover:bg-gray-300 dark:bg-gray-700 dark:hover:bg-gray-600 text-gray-900 dark:text-white rounded transition-colors"
+            >
+              Transfer
+            </button>
+            <button
+              onClick={() => setActiveInput({ name: { record: name, client }, action: 'resolver' })}
+              className="px-3 py-1 text-sm bg-gray-200 hover:bg-gray-300 dark:bg-gray-700 dark:hover:bg-gray-600 text-gray-900 dark:text-white rounded transition-colors"
+            >
+              Set resolver
+            </button>
+            {primaryClient === client && name.label !== primaryLabel && (
+              <button
+                onClick={() => submit('Set primary', name.label, () => client.getSetPrimaryNameOptions(name.label))}
+                className="px-3 py-1 text-sm bg-gray-200 hover:bg-gray-300 dark:bg-gray-700 dark:hover:bg-gray-600 text-gray-900 dark:text-white rounded transition-colors"
+              >
+                Set as primary
+              </button>
+            )}
+            {primaryClient === client && name.label === primaryLabel && (
+              <button
+                onClick={() => submit('Clear primary', name.label, () => client.getClearPrimaryNameOptions())}
+                className="px-3 py-1 text-sm bg-gray-200 hover:bg-gray-300 dark:bg-gray-700 dark:hover:bg-gray-600 text-gray-900 dark:text-white rounded transition-colors"
+              >
+                Clear primary
+              </button>
+            )}
+          </div>
+
+          {/* Principal input for transfer / set-resolver */}
+          {activeInput?.name.client === client && activeInput.name.record.label === name.label && (
+            <div className="mt-3 flex gap-2">
+              <input
+                type="text"
+                value={inputValue}
+                onChange={(e) => setInputValue(e.target.value.trim())}
+                placeholder={activeInput.action === 'transfer' ? 'New owner address' : 'Resolver contract (SP...contract-name)'}
+                className="flex-1 px-3 py-1 text-sm font-mono border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-900 text-gray-900 dark:text-white outline-none focus:ring-2 focus:ring-stacks"
+              />
+              <button
+                onClick={handleInputSubmit}
+                disabled={!inputValue}
+                className="px-3 py-1 text-sm bg-stacks hover:bg-stacks/90 text-white rounded transition-colors disabled:opacity-50"
+              >
+                Confirm
+              </button>
+              <button
+                onClick={() => {
+                  setActiveInput(null);
+                  setInputValue('');
+                }}
+                className="px-3 py-1 text-sm text-gray-500 dark:text-gray-400"
+              >
+                Cancel
+              </button>
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -6,27 +6,27 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { getNameInfo, formatSTX, estimateTimeUntilExpiry } from '../services/biud';
+import { registry, estimateTimeUntilExpiry, describeError, BiudClient, NameRecord } from '../services/biud';
+import Subnames from './Subnames';
+import Operators from './Operators';
+import Profile from './Profile';
+import Addresses from './Addresses';
 
 interface NameDetailsProps {
   label: string;
   currentBlock?: number;
+  /** Connected wallet, enables subname and operator management */
+  connectedAddress?: string | null;
 }
 
-interface NameInfo {
-  label: string;
-  'full-name': string;
-  owner: string;
-  'expiry-height': number;
-  resolver: string | null;
-  'is-premium': boolean;
-  'name-id': number;
-  'created-at': number;
-  'last-renewed': number;
-}
-
-export default function NameDetails({ label, currentBlock = 0 }: NameDetailsProps) {
-  const [nameInfo, setNameInfo] = useState<NameInfo | null>(null);
+export default function NameDetails({ label, currentBlock = 0, connectedAddress = null }: NameDetailsProps) {
+  const [nameInfo, setNameInfo] = useState<NameRecord | null>(null);
+  const [client, setClient] = useState<BiudClient | null>(null);
+  const [expiryStatus, setExpiryStatus] = useState<{
+    inGracePeriod: boolean;
+    fullyExpired: boolean;
+    gracePeriod: bigint;
+  } | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
@@ -34,12 +34,30 @@ export default function NameDetails({ label, currentBlock = 0 }: NameDetailsProp
     async function fetchNameInfo() {
       setIsLoading(true);
       try {
-        const info = await getNameInfo(label);
-        setNameInfo(info);
+        // Read from whichever registrar version holds the name
+        const located = await registry.locateName(label);
+        if (!located) {
+          setNameInfo(null);
+          setClient(null);
+          setExpiryStatus(null);
+          setError(null);
+          return;
+        }
+        const { record, client } = located;
+        const [inGracePeriod, fullyExpired, gracePeriod] = await Promise.all([
+          client.isNameInGracePeriod(label),
+          client.isNameFullyExpired(label),
+          client.getGracePeriod(),
+        ]);
+        setNameInfo(record);
+        setClient(client);
+        setExpiryStatus({ inGracePeriod, fullyExpired, gracePeriod });
         setError(null);
       } catch (err) {
-        setError('Failed to fetch name information');
+        setError(describeError(err, 'Failed to fetch name information'));
         setNameInfo(null);
+        setClient(null);
+        setExpiryStatus(null);
       } finally {
         setIsLoading(false);
       }
@@ -50,6 +68,39 @@ export default function NameDetails({ label, currentBlock = 0 }: NameDetailsProp
     }
   }, [label]);
 
+  // Expiry state as of the current block, read from the contract until the tip is known
+  const getExpiryState = (info: NameRecord): { inGracePeriod: boolean; fullyExpired: boolean } | null => {
+    if (!expiryStatus) return null;
+    if (currentBlock <= 0) return expiryStatus;
+    const height = BigInt(currentBlock);
+    const graceEnd = info.expiryHeight + expiryStatus.gracePeriod;
+    return {
+      inGracePeriod: height > info.expiryHeight && height <= graceEnd,
+      fullyExpired: height > graceEnd,
+    };
+  };
+
+  const describeExpiry = (info: NameRecord): string | null => {
+    const state = getExpiryState(info);
+    if (!state || !expiryStatus) return null;
+    if (state.fullyExpired) {
+      return 'Expired, available to anyone';
+    }
+    if (state.inGracePeriod) {
+      if (currentBlock <= 0) return 'In grace period';
+      const blocksLeft = Number(info.expiryHeight + expiryStatus.gracePeriod) - currentBlock;
+      return `In grace period (${Math.max(blocksLeft, 0).toLocaleString()} blocks left)`;
+    }
+    if (currentBlock <= 0) return null;
+    return `Expires in ${estimateTimeUntilExpiry(currentBlock, info.expiryHeight)}`;
+  };
+
+  const expiryState = nameInfo ? getExpiryState(nameInfo) : null;
+
+  // Records live on resolvers that read ownership from the name's registrar
+  const textResolver = client ? registry.resolverFor('text-records', client) : null;
+  const addressResolver = client ? registry.resolverFor('multi-coin', client) : null;
+
   if (isLoading) {
     return (
       <div className="p-6 bg-white dark:bg-gray-800 rounded-lg shadow-md animate-pulse transition-colors">
@@ -81,9 +132,9 @@ export default function NameDetails({ label, currentBlock = 0 }: NameDetailsProp
       {/* Header */}
       <div className="flex items-center justify-between mb-6">
         <h2 className="text-2xl font-bold text-gray-800 dark:text-white">
-          {nameInfo['full-name']}
+          {nameInfo.fullName}
         </h2>
-        {nameInfo['is-premium'] && (
+        {nameInfo.isPremium && (
           <span className="px-3 py-1 bg-bitcoin text-white text-sm rounded-full">
             Premium
           </span>
@@ -102,11 +153,11 @@ export default function NameDetails({ label, currentBlock = 0 }: NameDetailsProp
         <div className="p-4 bg-gray-50 dark:bg-gray-700 rounded-lg transition-colors">
           <p className="text-sm text-gray-500 dark:text-gray-400 mb-1">Expires</p>
           <p className="font-medium text-gray-900 dark:text-white">
-            Block {nameInfo['expiry-height'].toLocaleString()}
+            Block {nameInfo.expiryHeight.toLocaleString()}
           </p>
-          {currentBlock > 0 && (
-            <p className="text-sm text-gray-600 dark:text-gray-300">
-              {estimateTimeUntilExpiry(currentBlock, nameInfo['expiry-height'])}
+          {describeExpiry(nameInfo) && (
+            <p className={`text-sm ${expiryState?.inGracePeriod || expiryState?.fullyExpired ? 'text-red-500' : 'text-gray-600 dark:text-gray-300'}`}>
+              {describeExpiry(nameInfo)}
             </p>
           )}
         </div>
@@ -114,13 +165,13 @@ export default function NameDetails({ label, currentBlock = 0 }: NameDetailsProp
         {/* Name ID */}
         <div className="p-4 bg-gray-50 dark:bg-gray-700 rounded-lg transition-colors">
           <p className="text-sm text-gray-500 dark:text-gray-400 mb-1">Name ID</p>
-          <p className="font-medium text-gray-900 dark:text-white">#{nameInfo['name-id']}</p>
+          <p className="font-medium text-gray-900 dark:text-white">#{nameInfo.nameId.toString()}</p>
         </div>
 
         {/* Created */}
         <div className="p-4 bg-gray-50 dark:bg-gray-700 rounded-lg transition-colors">
           <p className="text-sm text-gray-500 dark:text-gray-400 mb-1">Created at Block</p>
-          <p className="font-medium text-gray-900 dark:text-white">{nameInfo['created-at'].toLocaleString()}</p>
+          <p className="font-medium text-gray-900 dark:text-white">{nameInfo.createdAt.toLocaleString()}</p>
         </div>
 
         {/* Resolver */}
@@ -131,6 +182,32 @@ export default function NameDetails({ label, currentBlock = 0 }: NameDetailsProp
           </div>
         )}
       </div>
+
+      {/* Profile */}
+      {client && textResolver && (
+        <Profile
+          resolver={textResolver}
+          client={client}
+          label={nameInfo.label}
+          currentResolver={nameInfo.resolver}
+          address={connectedAddress}
+        />
+      )}
+
+      {/* Addresses */}
+      {client && addressResolver && (
+        <Addresses resolver={addressResolver} client={client} label={nameInfo.label} address={connectedAddress} />
+      )}
+
+      {/* Subnames */}
+      {client?.supportsSubnames && (
+        <Subnames parent={nameInfo} client={client} address={connectedAddress} currentBlock={currentBlock} />
+      )}
+
+      {/* Operators */}
+      {client?.supportsOperators && connectedAddress && (
+        <Operators client={client} address={connectedAddress} label={nameInfo.label} owner={nameInfo.owner} />
+      )}
     </div>
   );
 }
@@ -6,10 +6,10 @@
 'use client';
 
 import { useState } from 'react';
-import { isNameAvailable, getRegistrationFee, validateLabel, formatSTX, getFullName } from '../services/biud';
+import { registry, validateLabel, formatSTX, getFullName, describeError, ReleaseAuction } from '../services/biud';
 
 interface NameSearchProps {
-  onNameSelected?: (label: string, available: boolean, fee: number) => void;
+  onNameSelected?: (label: string, available: boolean, fee: bigint) => void;
 }
 
 export default function NameSearch({ onNameSelected }: NameSearchProps) {
@@ -17,7 +17,9 @@ export default function NameSearch({ onNameSelected }: NameSearchProps) {
   const [isChecking, setIsChecking] = useState(false);
   const [result, setResult] = useState<{
     available: boolean;
-    fee: number;
+    fee: bigint;
+    /** Set while a released name still carries a decaying premium */
+    auction?: ReleaseAuction | null;
     error?: string;
   } | null>(null);
 
@@ -25,22 +27,24 @@ export default function NameSearch({ onNameSelected }: NameSearchProps) {
     // Validate label
     const validation = validateLabel(label.toLowerCase());
     if (!validation.valid) {
-      setResult({ available: false, fee: 0, error: validation.error });
+      setResult({ available: false, fee: BigInt(0), error: validation.error });
       return;
     }
 
     setIsChecking(true);
     try {
       const normalizedLabel = label.toLowerCase();
-      const [available, fee] = await Promise.all([
-        isNameAvailable(normalizedLabel),
-        getRegistrationFee(normalizedLabel),
+      const client = registry.latest;
+      const [available, fee, auction] = await Promise.all([
+        registry.isNameAvailable(normalizedLabel),
+        client.getRegistrationFee(normalizedLabel),
+        client.supportsReleaseAuction ? client.getReleaseAuction(normalizedLabel) : null,
       ]);
 
-      setResult({ available, fee });
+      setResult({ available, fee, auction });
       onNameSelected?.(normalizedLabel, available, fee);
     } catch (error) {
-      setResult({ available: false, fee: 0, error: 'Failed to check availability' });
+      setResult({ available: false, fee: BigInt(0), error: describeError(error, 'Failed to check availability') });
     } finally {
       setIsChecking(false);
     }
@@ -103,6 +107,13 @@ export default function NameSearch({ onNameSelected }: NameSearchProps) {
                   <p className="mt-2 text-gray-600 dark:text-gray-300">
                     Registration fee: <strong>{formatSTX(result.fee)} STX</strong>
                   </p>
+                  {result.auction && (
+                    <p className="mt-1 text-sm text-bitcoin">
+                      Premium release: {formatSTX(result.fee)} STX now, falling to{' '}
+                      {formatSTX(result.fee - result.auction.premium)} STX by block{' '}
+                      {result.auction.endHeight.toLocaleString()}
+                    </p>
+                  )}
                 </div>
               ) : (
                 <div className="mt-2">
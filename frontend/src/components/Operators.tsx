@@ -0,0 +1,207 @@
+/**
+ * BiUD Frontend - Operators Component
+ * Grant and revoke operators for one name, or for every name of the connected wallet
+ */
+
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { openContractCall } from '@stacks/connect';
+import { describeError, BiudClient, OperatorApproval } from '../services/biud';
+import { txTracker } from '../services/transactions';
+
+interface OperatorsProps {
+  /** Registrar with the `operators` capability */
+  client: BiudClient;
+  /** Connected wallet */
+  address: string;
+  /** Name to manage operators for; omit for the wallet's owner-wide operators */
+  label?: string;
+  /** Current owner of `label` */
+  owner?: string;
+}
+
+type CallOptions = ReturnType<BiudClient['getSetOwnerOperatorOptions']>;
+
+export default function Operators({ client, address, label, owner }: OperatorsProps) {
+  const [approvals, setApprovals] = useState<OperatorApproval[]>([]);
+  const [canManage, setCanManage] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [newOperator, setNewOperator] = useState('');
+  const [canTransfer, setCanTransfer] = useState(false);
+  const [resolverInput, setResolverInput] = useState('');
+
+  // Owner-wide operators are always managed by the connected wallet itself
+  const isOwner = label ? address === owner : true;
+
+  const fetchOperators = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const [list, manage] = await Promise.all([
+        label ? client.getNameOperators(label) : client.getOwnerOperators(address),
+        label ? client.canManageName(label, address) : Promise.resolve(false),
+      ]);
+      setApprovals(list);
+      setCanManage(manage);
+      setError(null);
+    } catch (err) {
+      setError(describeError(err, 'Failed to fetch operators'));
+      setApprovals([]);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [client, address, label]);
+
+  useEffect(() => {
+    fetchOperators();
+  }, [fetchOperators]);
+
+  // Refetch once an operator change for this name (or an owner-wide one) confirms
+  useEffect(() => {
+    const seen = new Set(txTracker.list().filter((tx) => tx.state === 'confirmed').map((tx) => tx.txId));
+    return txTracker.subscribe((transactions) => {
+      const confirmed = transactions.filter(
+        (tx) => tx.state === 'confirmed' && !seen.has(tx.txId) && tx.label === label && tx.action.endsWith('operator')
+      );
+      confirmed.forEach((tx) => seen.add(tx.txId));
+      if (confirmed.length > 0) {
+        fetchOperators();
+      }
+    });
+  }, [label, fetchOperators]);
+
+  // Open the wallet for a contract call and follow the resulting transaction
+  const submit = async (action: string, buildOptions: () => CallOptions) => {
+    try {
+      await openContractCall({
+        ...buildOptions(),
+        onFinish: (data) => {
+          txTracker.track(data.txId, { action, label });
+          setNewOperator('');
+          setCanTransfer(false);
+          setResolverInput('');
+        },
+      });
+    } catch (err) {
+      setError(describeError(err, `Failed to ${action.toLowerCase()}`));
+    }
+  };
+
+  const handleGrant = () => {
+    if (!newOperator) return;
+    submit('Approve operator', () =>
+      label
+        ? client.getSetNameOperatorOptions(label, newOperator, canTransfer)
+        : client.getSetOwnerOperatorOptions(newOperator, canTransfer)
+    );
+  };
+
+  const handleRevoke = (operator: string) => {
+    submit('Revoke operator', () =>
+      label
+        ? client.getRevokeNameOperatorOptions(label, operator)
+        : client.getRevokeOwnerOperatorOptions(operator)
+    );
+  };
+
+  if (isLoading) {
+    return (
+      <div className="mt-6 p-4 bg-gray-50 dark:bg-gray-700 rounded-lg animate-pulse transition-colors">
+        <div className="h-4 bg-gray-200 dark:bg-gray-600 rounded w-1/3 mb-2"></div>
+        <div className="h-4 bg-gray-200 dark:bg-gray-600 rounded w-2/3"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="mt-6">
+      <h3 className="text-lg font-semibold text-gray-800 dark:text-white mb-1">
+        {label ? 'Operators' : 'Operators for all your names'}
+      </h3>
+      <p className="mb-3 text-sm text-gray-600 dark:text-gray-400">
+        Operators can set resolvers and records, and transfer only when allowed.
+        {label && ' They lose access when the name changes hands.'}
+      </p>
+
+      {error && (
+        <p className="mb-3 text-sm text-red-500">{error}</p>
+      )}
+
+      {approvals.length === 0 ? (
+        <p className="text-sm text-gray-600 dark:text-gray-400">No operators approved</p>
+      ) : (
+        <ul className="space-y-2">
+          {approvals.map((approval) => (
+            <li
+              key={approval.operator}
+              className="p-3 bg-gray-50 dark:bg-gray-700 rounded-lg flex flex-wrap items-center justify-between gap-2 transition-colors"
+            >
+              <span className="text-sm font-mono break-all text-gray-900 dark:text-white">
+                {approval.operator}
+                {approval.canTransfer && (
+                  <span className="ml-2 px-2 py-0.5 bg-bitcoin text-white text-xs font-sans rounded-full">Can transfer</span>
+                )}
+              </span>
+              {isOwner && (
+                <button
+                  onClick={() => handleRevoke(approval.operator)}
+                  className="px-3 py-1 text-sm bg-red-500 hover:bg-red-600 text-white rounded transition-colors"
+                >
+                  Revoke
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {/* Grant (owner) */}
+      {isOwner && (
+        <div className="mt-3 flex flex-wrap items-center gap-2">
+          <input
+            type="text"
+            value={newOperator}
+            onChange={(e) => setNewOperator(e.target.value.trim())}
+            placeholder="Operator address"
+            className="flex-1 min-w-0 px-3 py-1 text-sm font-mono border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-900 text-gray-900 dark:text-white outline-none focus:ring-2 focus:ring-stacks"
+          />
+          <label className="flex items-center gap-1 text-sm text-gray-600 dark:text-gray-300">
+            <input type="checkbox" checked={canTransfer} onChange={(e) => setCanTransfer(e.target.checked)} />
+            Can transfer
+          </label>
+          <button
+            onClick={handleGrant}
+            disabled={!newOperator}
+            className="px-3 py-1 text-sm bg-stacks hover:bg-stacks/90 text-white rounded transition-colors disabled:opacity-50"
+          >
+            Approve
+          </button>
+        </div>
+      )}
+
+      {/* Manage as an operator */}
+      {label && !isOwner && canManage && (
+        <div className="mt-3">
+          <p className="text-sm text-gray-600 dark:text-gray-400 mb-2">You are an operator for this name</p>
+          <div className="flex gap-2">
+            <input
+              type="text"
+              value={resolverInput}
+              onChange={(e) => setResolverInput(e.target.value.trim())}
+              placeholder="Resolver contract (SP...contract-name)"
+              className="flex-1 px-3 py-1 text-sm font-mono border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-900 text-gray-900 dark:text-white outline-none focus:ring-2 focus:ring-stacks"
+            />
+            <button
+              onClick={() => submit('Set resolver', () => client.getSetResolverOptions(label, resolverInput))}
+              disabled={!resolverInput}
+              className="px-3 py-1 text-sm bg-stacks hover:bg-stacks/90 text-white rounded transition-colors disabled:opacity-50"
+            >
+              Set resolver
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,210 @@
+/**
+ * BiUD Frontend - Pending Registrations Component
+ * Follows commit-reveal registrations and opens the reveal once the commitment is old enough
+ */
+
+'use client';
+
+import { useState, useEffect, useRef } from 'react';
+import { openContractCall } from '@stacks/connect';
+import { registry, describeError, getFullName, CommitmentAges } from '../services/biud';
+import { txTracker, getTxError, TrackedTransaction } from '../services/transactions';
+import { commitmentStore, commitmentHash, commitmentSalt, PendingCommitment } from '../services/commitments';
+
+interface PendingRegistrationsProps {
+  address: string;
+  currentBlock?: number;
+}
+
+// Where a commitment is in its lifecycle, derived from its transactions and the chain tip
+type Step =
+  | { kind: 'committing' }
+  | { kind: 'commit-failed'; error: string }
+  | { kind: 'checking' }
+  | { kind: 'waiting'; blocksLeft: number }
+  | { kind: 'ready' }
+  | { kind: 'expired' }
+  | { kind: 'revealing' }
+  | { kind: 'reveal-failed'; error: string };
+
+// On-chain view of a confirmed commitment
+interface CommitmentWindow {
+  createdAt: bigint;
+  ages: CommitmentAges;
+}
+
+const clientFor = (commitment: PendingCommitment) =>
+  registry.clients.find((client) => client.contractName === commitment.contractName) ?? null;
+
+const txFailure = (tx: TrackedTransaction, fallback: string) => getTxError(tx)?.message ?? fallback;
+
+export default function PendingRegistrations({ address, currentBlock = 0 }: PendingRegistrationsProps) {
+  const [commitments, setCommitments] = useState<PendingCommitment[]>([]);
+  const [transactions, setTransactions] = useState<TrackedTransaction[]>([]);
+  const [windows, setWindows] = useState<Record<string, CommitmentWindow | null>>({});
+  const [error, setError] = useState<string | null>(null);
+  // Commitments whose reveal was already offered in this session
+  const prompted = useRef(new Set<string>());
+
+  useEffect(() => {
+    setCommitments(commitmentStore.list(address));
+    return commitmentStore.subscribe(() => setCommitments(commitmentStore.list(address)));
+  }, [address]);
+
+  useEffect(() => {
+    setTransactions(txTracker.list());
+    return txTracker.subscribe(setTransactions);
+  }, []);
+
+  const txFor = (txId: string | null) => (txId ? transactions.find((tx) => tx.txId === txId) ?? null : null);
+
+  const stepOf = (commitment: PendingCommitment): Step => {
+    const revealTx = txFor(commitment.revealTxId);
+    if (revealTx?.state === 'pending') return { kind: 'revealing' };
+    if (revealTx && revealTx.state !== 'confirmed') {
+      return { kind: 'reveal-failed', error: txFailure(revealTx, 'Reveal failed') };
+    }
+
+    const commitTx = txFor(commitment.commitTxId);
+    if (!commitTx || commitTx.state === 'pending') return { kind: 'committing' };
+    if (commitTx.state !== 'confirmed') {
+      return { kind: 'commit-failed', error: txFailure(commitTx, 'Commit failed') };
+    }
+
+    const revealWindow = windows[commitment.commitmentHex];
+    if (revealWindow === undefined || currentBlock <= 0) return { kind: 'checking' };
+    if (revealWindow === null) return { kind: 'commit-failed', error: 'Commitment not found on chain' };
+    const revealFrom = Number(revealWindow.createdAt + revealWindow.ages.minAge);
+    if (currentBlock > Number(revealWindow.createdAt + revealWindow.ages.maxAge)) return { kind: 'expired' };
+    if (currentBlock < revealFrom) return { kind: 'waiting', blocksLeft: revealFrom - currentBlock };
+    return { kind: 'ready' };
+  };
+
+  // Read the creation height of every confirmed commitment not yet looked up
+  useEffect(() => {
+    commitments.forEach(async (commitment) => {
+      const client = clientFor(commitment);
+      const commitTx = txFor(commitment.commitTxId);
+      if (!client || commitTx?.state !== 'confirmed' || windows[commitment.commitmentHex] !== undefined) return;
+      try {
+        const [createdAt, ages] = await Promise.all([
+          client.getCommitment(commitment.owner, commitmentHash(commitment)),
+          client.getCommitmentAges(),
+        ]);
+        setWindows((current) => ({
+          ...current,
+          [commitment.commitmentHex]: createdAt === null ? null : { createdAt, ages },
+        }));
+      } catch (err) {
+        setError(describeError(err, 'Failed to read commitment'));
+      }
+    });
+  }, [commitments, transactions]);
+
+  // Forget commitments once their registration confirms
+  useEffect(() => {
+    commitments
+      .filter((commitment) => txFor(commitment.revealTxId)?.state === 'confirmed')
+      .forEach((commitment) => commitmentStore.remove(commitment.commitmentHex));
+  }, [commitments, transactions]);
+
+  const reveal = async (commitment: PendingCommitment) => {
+    const client = clientFor(commitment);
+    if (!client) return;
+    prompted.current.add(commitment.commitmentHex);
+    try {
+      const options = await client.getRevealNameOptions(
+        commitment.label,
+        commitment.owner,
+        commitmentSalt(commitment),
+        commitment.years
+      );
+      await openContractCall({
+        ...options,
+        onFinish: (data) => {
+          const tx = txTracker.track(data.txId, { action: 'Register', label: commitment.label });
+          commitmentStore.update(commitment.commitmentHex, { revealTxId: tx.txId });
+        },
+      });
+    } catch (err) {
+      setError(describeError(err, `Failed to register ${getFullName(commitment.label)}`));
+    }
+  };
+
+  // Second step runs by itself as soon as a commitment is old enough
+  useEffect(() => {
+    commitments
+      .filter((commitment) => !commitment.revealTxId && !prompted.current.has(commitment.commitmentHex))
+      .filter((commitment) => stepOf(commitment).kind === 'ready')
+      .forEach(reveal);
+  }, [commitments, transactions, windows, currentBlock]);
+
+  const describeStep = (step: Step): string => {
+    switch (step.kind) {
+      case 'committing':
+        return 'Committing... the name stays hidden until it is revealed';
+      case 'checking':
+        return 'Commitment confirmed, checking reveal window...';
+      case 'waiting':
+        return `Registration opens in ${step.blocksLeft} block${step.blocksLeft === 1 ? '' : 's'}`;
+      case 'ready':
+        return 'Ready to register';
+      case 'expired':
+        return 'Commitment expired, search the name again to start over';
+      case 'revealing':
+        return 'Registering...';
+      default:
+        return step.error;
+    }
+  };
+
+  if (commitments.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="w-full max-w-xl mx-auto mt-8 p-4 bg-white dark:bg-gray-800 rounded-lg shadow-md text-left transition-colors">
+      <h3 className="mb-3 font-semibold text-gray-900 dark:text-white">Pending Registrations</h3>
+      {error && (
+        <p className="mb-3 text-sm text-red-500">{error}</p>
+      )}
+      <ul className="space-y-3">
+        {commitments.map((commitment) => {
+          const step = stepOf(commitment);
+          const failed = step.kind === 'commit-failed' || step.kind === 'reveal-failed' || step.kind === 'expired';
+          return (
+            <li key={commitment.commitmentHex} className="p-3 bg-gray-50 dark:bg-gray-700 rounded-lg transition-colors">
+              <div className="flex items-center justify-between gap-2">
+                <span className="font-medium text-gray-900 dark:text-white">
+                  {getFullName(commitment.label)}
+                  {commitment.years > 1 && ` (${commitment.years} years)`}
+                </span>
+                <div className="flex gap-2">
+                  {(step.kind === 'ready' || step.kind === 'reveal-failed') && (
+                    <button
+                      onClick={() => reveal(commitment)}
+                      className="px-3 py-1 text-sm bg-stacks hover:bg-stacks/90 text-white rounded transition-colors"
+                    >
+                      Register
+                    </button>
+                  )}
+                  {(step.kind === 'commit-failed' || step.kind === 'expired') && (
+                    <button
+                      onClick={() => commitmentStore.remove(commitment.commitmentHex)}
+                      className="px-3 py-1 text-sm text-gray-500 dark:text-gray-400"
+                    >
+                      Dismiss
+                    </button>
+                  )}
+                </div>
+              </div>
+              <p className={`mt-1 text-sm ${failed ? 'text-red-500' : 'text-gray-600 dark:text-gray-300'}`}>
+                {describeStep(step)}
+              </p>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
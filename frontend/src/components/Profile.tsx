@@ -0,0 +1,233 @@
+/**
+ * BiUD Frontend - Profile Component
+ * Show a name's text records, and edit them for the owner or an operator
+ */
+
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { openContractCall } from '@stacks/connect';
+import { describeError, BiudClient, BiudResolver, TextRecords, MAX_TEXT_RECORDS } from '../services/biud';
+import { txTracker } from '../services/transactions';
+
+interface ProfileProps {
+  /** Resolver with the `text-records` capability */
+  resolver: BiudResolver;
+  /** Registrar holding the name */
+  client: BiudClient;
+  label: string;
+  /** Resolver currently set for the name */
+  currentResolver: string | null;
+  /** Connected wallet, enables editing for the owner or an operator */
+  address: string | null;
+}
+
+/** Common keys, always offered in the editor */
+const PRESET_KEYS: { key: string; name: string; placeholder: string }[] = [
+  { key: 'avatar', name: 'Avatar', placeholder: 'https://... or ipfs://...' },
+  { key: 'url', name: 'Website', placeholder: 'https://...' },
+  { key: 'description', name: 'Description', placeholder: 'A short bio' },
+  { key: 'email', name: 'Email', placeholder: 'you@example.com' },
+  { key: 'com.twitter', name: 'X / Twitter', placeholder: 'handle' },
+  { key: 'com.github', name: 'GitHub', placeholder: 'username' },
+  { key: 'org.telegram', name: 'Telegram', placeholder: 'username' },
+];
+
+type CallOptions = ReturnType<BiudResolver['getSetTextsOptions']>;
+
+export default function Profile({ resolver, client, label, currentResolver, address }: ProfileProps) {
+  const [records, setRecords] = useState<TextRecords>({});
+  const [draft, setDraft] = useState<TextRecords>({});
+  const [canManage, setCanManage] = useState(false);
+  const [isEditing, setIsEditing] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [newKey, setNewKey] = useState('');
+
+  const fetchRecords = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const [texts, manage] = await Promise.all([
+        resolver.getTextRecords(label),
+        address ? client.canManageName(label, address) : Promise.resolve(false),
+      ]);
+      setRecords(texts);
+      setDraft(texts);
+      setCanManage(manage);
+      setError(null);
+    } catch (err) {
+      setError(describeError(err, 'Failed to fetch profile'));
+      setRecords({});
+    } finally {
+      setIsLoading(false);
+    }
+  }, [resolver, client, label, address]);
+
+  useEffect(() => {
+    fetchRecords();
+  }, [fetchRecords]);
+
+  // Refetch once a record change or resolver switch for this name confirms
+  useEffect(() => {
+    const seen = new Set(txTracker.list().filter((tx) => tx.state === 'confirmed').map((tx) => tx.txId));
+    return txTracker.subscribe((transactions) => {
+      const confirmed = transactions.filter((tx) => tx.state === 'confirmed' && !seen.has(tx.txId) && tx.label === label);
+      confirmed.forEach((tx) => seen.add(tx.txId));
+      if (confirmed.length > 0) {
+        fetchRecords();
+      }
+    });
+  }, [label, fetchRecords]);
+
+  // Open the wallet for a contract call and follow the resulting transaction
+  const submit = async (action: string, buildOptions: () => CallOptions) => {
+    try {
+      await openContractCall({
+        ...buildOptions(),
+        onFinish: (data) => {
+          txTracker.track(data.txId, { action, label });
+          setIsEditing(false);
+        },
+      });
+    } catch (err) {
+      setError(describeError(err, `Failed to ${action.toLowerCase()}`));
+    }
+  };
+
+  // Only keys whose value differs from the chain are sent; an empty value clears the key
+  const changes = Object.fromEntries(
+    Object.entries(draft).filter(([key, value]) => value.trim() !== (records[key] ?? ''))
+      .map(([key, value]) => [key, value.trim()])
+  );
+  const changeCount = Object.keys(changes).length;
+
+  const handleSave = () => {
+    if (changeCount === 0) return;
+    submit('Update profile', () => resolver.getSetTextsOptions(label, changes));
+  };
+
+  const handleAddKey = () => {
+    if (!newKey || newKey in draft) return;
+    setDraft({ ...draft, [newKey]: '' });
+    setNewKey('');
+  };
+
+  const customKeys = Object.keys(draft).filter((key) => !PRESET_KEYS.some((preset) => preset.key === key));
+  const keyCount = Object.values(draft).filter((value) => value.trim()).length;
+  const usesResolver = currentResolver === resolver.contractId;
+
+  if (isLoading) {
+    return (
+      <div className="mt-6 p-4 bg-gray-50 dark:bg-gray-700 rounded-lg animate-pulse transition-colors">
+        <div className="h-4 bg-gray-200 dark:bg-gray-600 rounded w-1/3 mb-2"></div>
+        <div className="h-4 bg-gray-200 dark:bg-gray-600 rounded w-2/3"></div>
+      </div>
+    );
+  }
+
+  const inputClass =
+    'flex-1 min-w-0 px-3 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-900 text-gray-900 dark:text-white outline-none focus:ring-2 focus:ring-stacks';
+
+  return (
+    <div className="mt-6">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-lg font-semibold text-gray-800 dark:text-white">Profile</h3>
+        {canManage && !isEditing && (
+          <button
+            onClick={() => setIsEditing(true)}
+            className="px-3 py-1 text-sm bg-stacks hover:bg-stacks/90 text-white rounded transition-colors"
+          >
+            Edit
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <p className="mb-3 text-sm text-red-500">{error}</p>
+      )}
+
+      {/* Point the name at the text resolver so apps look records up there */}
+      {canManage && !usesResolver && (
+        <div className="mb-3 p-3 bg-gray-50 dark:bg-gray-700 rounded-lg flex flex-wrap items-center justify-between gap-2 transition-colors">
+          <p className="text-sm text-gray-600 dark:text-gray-300">
+            This name does not use {resolver.contractName} as its resolver yet.
+          </p>
+          <button
+            onClick={() => submit('Set resolver', () => client.getSetResolverOptions(label, resolver.contractId))}
+            className="px-3 py-1 text-sm bg-stacks hover:bg-stacks/90 text-white rounded transition-colors"
+          >
+            Use for this name
+          </button>
+        </div>
+      )}
+
+      {isEditing ? (
+        <div className="space-y-2">
+          {[...PRESET_KEYS, ...customKeys.map((key) => ({ key, name: key, placeholder: '' }))].map(({ key, name, placeholder }) => (
+            <label key={key} className="flex items-center gap-2">
+              <span className="w-28 shrink-0 text-sm text-gray-600 dark:text-gray-300">{name}</span>
+              <input
+                type="text"
+                value={draft[key] ?? ''}
+                onChange={(e) => setDraft({ ...draft, [key]: e.target.value })}
+                placeholder={placeholder}
+                className={inputClass}
+              />
+            </label>
+          ))}
+
+          <div className="flex items-center gap-2">
+            <input
+              type="text"
+              value={newKey}
+              onChange={(e) => setNewKey(e.target.value.trim())}
+              placeholder="Custom key (e.g. com.discord)"
+              className={`${inputClass} font-mono`}
+            />
+            <button
+              onClick={handleAddKey}
+              disabled={!newKey || newKey in draft}
+              className="px-3 py-1 text-sm bg-gray-200 dark:bg-gray-600 hover:bg-gray-300 dark:hover:bg-gray-500 text-gray-800 dark:text-white rounded transition-colors disabled:opacity-50"
+            >
+              Add key
+            </button>
+          </div>
+
+          {keyCount > MAX_TEXT_RECORDS && (
+            <p className="text-sm text-red-500">A name can hold at most {MAX_TEXT_RECORDS} records</p>
+          )}
+
+          <div className="flex gap-2 pt-2">
+            <button
+              onClick={handleSave}
+              disabled={changeCount === 0 || changeCount > MAX_TEXT_RECORDS || keyCount > MAX_TEXT_RECORDS}
+              className="px-4 py-2 text-sm bg-stacks hover:bg-stacks/90 text-white rounded transition-colors disabled:opacity-50"
+            >
+              Save {changeCount > 0 ? `(${changeCount})` : ''}
+            </button>
+            <button
+              onClick={() => {
+                setDraft(records);
+                setIsEditing(false);
+              }}
+              className="px-4 py-2 text-sm bg-gray-200 dark:bg-gray-600 hover:bg-gray-300 dark:hover:bg-gray-500 text-gray-800 dark:text-white rounded transition-colors"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      ) : Object.keys(records).length === 0 ? (
+        <p className="text-sm text-gray-600 dark:text-gray-400">No profile records set</p>
+      ) : (
+        <dl className="grid grid-cols-1 md:grid-cols-2 gap-2">
+          {Object.entries(records).map(([key, value]) => (
+            <div key={key} className="p-3 bg-gray-50 dark:bg-gray-700 rounded-lg transition-colors">
+              <dt className="text-xs text-gray-500 dark:text-gray-400 font-mono">{key}</dt>
+              <dd className="text-sm break-all text-gray-900 dark:text-white">{value}</dd>
+            </div>
+          ))}
+        </dl>
+      )}
+    </div>
+  );
+}
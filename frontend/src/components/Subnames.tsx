@@ -0,0 +1,220 @@
+/**
+ * BiUD Frontend - Subnames Component
+ * Lists subnames under a name and lets the parent owner issue and revoke them
+ */
+
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { openContractCall } from '@stacks/connect';
+import {
+  describeError,
+  estimateTimeUntilExpiry,
+  validateLabel,
+  BiudClient,
+  NameRecord,
+  SubnameRecord,
+} from '../services/biud';
+import { txTracker } from '../services/transactions';
+
+interface SubnamesProps {
+  parent: NameRecord;
+  /** Registrar holding the parent name */
+  client: BiudClient;
+  address?: string | null;
+  currentBlock?: number;
+}
+
+type CallOptions = ReturnType<BiudClient['getRevokeSubnameOptions']>;
+
+export default function Subnames({ parent, client, address, currentBlock = 0 }: SubnamesProps) {
+  const [subnames, setSubnames] = useState<SubnameRecord[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [newLabel, setNewLabel] = useState('');
+  const [newOwner, setNewOwner] = useState('');
+  const [resolverInput, setResolverInput] = useState<{ label: string; value: string } | null>(null);
+
+  const isParentOwner = !!address && address === parent.owner;
+  const labelValidation = newLabel ? validateLabel(newLabel) : null;
+
+  const fetchSubnames = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setSubnames(await client.getSubnames(parent.label));
+      setError(null);
+    } catch (err) {
+      setError(describeError(err, 'Failed to fetch subnames'));
+      setSubnames([]);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [client, parent.label]);
+
+  useEffect(() => {
+    fetchSubnames();
+  }, [fetchSubnames]);
+
+  // Refetch once a transaction for one of these subnames confirms
+  useEffect(() => {
+    const suffix = `.${parent.label}`;
+    const seen = new Set(txTracker.list().filter((tx) => tx.state === 'confirmed').map((tx) => tx.txId));
+    return txTracker.subscribe((transactions) => {
+      const confirmed = transactions.filter(
+        (tx) => tx.state === 'confirmed' && !seen.has(tx.txId) && tx.label?.endsWith(suffix)
+      );
+      confirmed.forEach((tx) => seen.add(tx.txId));
+      if (confirmed.length > 0) {
+        fetchSubnames();
+      }
+    });
+  }, [parent.label, fetchSubnames]);
+
+  // Open the wallet for a contract call and follow the resulting transaction
+  const submit = async (action: string, label: string, buildOptions: () => CallOptions) => {
+    try {
+      await openContractCall({
+        ...buildOptions(),
+        onFinish: (data) => {
+          // Tracked as "pay.alice" so the status panel shows pay.alice.sBTC
+          txTracker.track(data.txId, { action, label: `${label}.${parent.label}` });
+          setNewLabel('');
+          setNewOwner('');
+          setResolverInput(null);
+        },
+      });
+    } catch (err) {
+      setError(describeError(err, `Failed to ${action.toLowerCase()} ${label}.${parent.fullName}`));
+    }
+  };
+
+  const handleCreate = () => {
+    if (!address || !labelValidation?.valid) return;
+    // Subnames default to the connected wallet and to the parent's expiry
+    const owner = newOwner || address;
+    submit('Create subname', newLabel, () =>
+      client.getCreateSubnameOptions(parent.label, newLabel, owner, parent.expiryHeight)
+    );
+  };
+
+  if (isLoading) {
+    return (
+      <div className="mt-6 p-4 bg-gray-50 dark:bg-gray-700 rounded-lg animate-pulse transition-colors">
+        <div className="h-4 bg-gray-200 dark:bg-gray-600 rounded w-1/3 mb-2"></div>
+        <div className="h-4 bg-gray-200 dark:bg-gray-600 rounded w-2/3"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="mt-6">
+      <h3 className="text-lg font-semibold text-gray-800 dark:text-white mb-3">Subnames</h3>
+
+      {error && (
+        <p className="mb-3 text-sm text-red-500">{error}</p>
+      )}
+
+      {subnames.length === 0 ? (
+        <p className="text-sm text-gray-600 dark:text-gray-400">No subnames issued under {parent.fullName}</p>
+      ) : (
+        <ul className="space-y-2">
+          {subnames.map((subname) => (
+            <li key={subname.label} className="p-3 bg-gray-50 dark:bg-gray-700 rounded-lg transition-colors">
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <span className="font-medium text-gray-900 dark:text-white">{subname.fullName}</span>
+                <div className="flex gap-2">
+                  {address === subname.owner && (
+                    <button
+                      onClick={() => setResolverInput({ label: subname.label, value: subname.resolver ?? '' })}
+                      className="px-3 py-1 text-sm bg-gray-200 hover:bg-gray-300 dark:bg-gray-600 dark:hover:bg-gray-500 text-gray-900 dark:text-white rounded transition-colors"
+                    >
+                      Set resolver
+                    </button>
+                  )}
+                  {isParentOwner && (
+                    <button
+                      onClick={() => submit('Revoke subname', subname.label, () =>
+                        client.getRevokeSubnameOptions(parent.label, subname.label)
+                      )}
+                      className="px-3 py-1 text-sm bg-red-500 hover:bg-red-600 text-white rounded transition-colors"
+                    >
+                      Revoke
+                    </button>
+                  )}
+                </div>
+              </div>
+              <p className="mt-1 text-xs font-mono break-all text-gray-600 dark:text-gray-300">Owner: {subname.owner}</p>
+              <p className="text-xs text-gray-600 dark:text-gray-300">
+                Expires at block {subname.expiryHeight.toLocaleString()}
+                {currentBlock > 0 && ` (${estimateTimeUntilExpiry(currentBlock, subname.expiryHeight)})`}
+              </p>
+              {subname.resolver && (
+                <p className="text-xs font-mono break-all text-gray-600 dark:text-gray-300">Resolver: {subname.resolver}</p>
+              )}
+
+              {/* Resolver input for the subname owner; empty clears it */}
+              {resolverInput?.label === subname.label && (
+                <div className="mt-2 flex gap-2">
+                  <input
+                    type="text"
+                    value={resolverInput.value}
+                    onChange={(e) => setResolverInput({ label: subname.label, value: e.target.value.trim() })}
+                    placeholder="Resolver contract (empty to clear)"
+                    className="flex-1 px-3 py-1 text-sm font-mono border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-900 text-gray-900 dark:text-white outline-none focus:ring-2 focus:ring-stacks"
+                  />
+                  <button
+                    onClick={() => submit('Set subname resolver', subname.label, () =>
+                      client.getSetSubnameResolverOptions(parent.label, subname.label, resolverInput.value || null)
+                    )}
+                    className="px-3 py-1 text-sm bg-stacks hover:bg-stacks/90 text-white rounded transition-colors"
+                  >
+                    Confirm
+                  </button>
+                  <button
+                    onClick={() => setResolverInput(null)}
+                    className="px-3 py-1 text-sm text-gray-500 dark:text-gray-400"
+                  >
+                    Cancel
+                  </button>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {/* Issue a new subname (parent owner only) */}
+      {isParentOwner && (
+        <div className="mt-4 flex flex-col md:flex-row gap-2">
+          <div className="flex items-center flex-1 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-900 focus-within:ring-2 focus-within:ring-stacks">
+            <input
+              type="text"
+              value={newLabel}
+              onChange={(e) => setNewLabel(e.target.value.toLowerCase().trim())}
+              placeholder="pay"
+              className="flex-1 px-3 py-1 text-sm bg-transparent text-gray-900 dark:text-white outline-none"
+            />
+            <span className="pr-3 text-sm text-gray-500 dark:text-gray-400">.{parent.fullName}</span>
+          </div>
+          <input
+            type="text"
+            value={newOwner}
+            onChange={(e) => setNewOwner(e.target.value.trim())}
+            placeholder="Owner address (defaults to you)"
+            className="flex-1 px-3 py-1 text-sm font-mono border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-900 text-gray-900 dark:text-white outline-none focus:ring-2 focus:ring-stacks"
+          />
+          <button
+            onClick={handleCreate}
+            disabled={!labelValidation?.valid}
+            className="px-4 py-1 text-sm bg-stacks hover:bg-stacks/90 text-white rounded transition-colors disabled:opacity-50"
+          >
+            Create
+          </button>
+        </div>
+      )}
+      {labelValidation && !labelValidation.valid && (
+        <p className="mt-1 text-sm text-red-500">{labelValidation.error}</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,87 @@
+/**
+ * BiUD Frontend - Transaction Status Panel
+ * Lists submitted transactions and follows them until they confirm or fail
+ */
+
+'use client';
+
+import { useState, useEffect } from 'react';
+import { getFullName } from '../services/biud';
+import { txTracker, getTxError, TrackedTransaction, TxState } from '../services/transactions';
+
+const EXPLORER_CHAIN = process.env.NEXT_PUBLIC_NETWORK === 'testnet' ? 'testnet' : 'mainnet';
+
+const STATE_STYLES: Record<TxState, string> = {
+  pending: 'bg-yellow-500',
+  confirmed: 'bg-green-500',
+  aborted: 'bg-red-500',
+  dropped: 'bg-gray-500',
+};
+
+const describeTx = (tx: TrackedTransaction): string => {
+  switch (tx.state) {
+    case 'pending':
+      return 'Waiting for confirmation...';
+    case 'confirmed':
+      return tx.blockHeight ? `Confirmed in block ${tx.blockHeight.toLocaleString()}` : 'Confirmed';
+    default:
+      return getTxError(tx)?.message ?? 'Transaction failed';
+  }
+};
+
+export default function TransactionStatus() {
+  const [transactions, setTransactions] = useState<TrackedTransaction[]>([]);
+
+  useEffect(() => {
+    setTransactions(txTracker.list());
+    const unsubscribe = txTracker.subscribe(setTransactions);
+    txTracker.start();
+    return () => {
+      unsubscribe();
+      txTracker.stop();
+    };
+  }, []);
+
+  if (transactions.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="w-full max-w-xl mx-auto mt-8 p-4 bg-white dark:bg-gray-800 rounded-lg shadow-md text-left transition-colors">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="font-semibold text-gray-900 dark:text-white">Transactions</h3>
+        <button
+          onClick={() => txTracker.clearFinished()}
+          className="text-sm text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200"
+        >
+          Clear finished
+        </button>
+      </div>
+      <ul className="space-y-3">
+        {transactions.map((tx) => (
+          <li key={tx.txId} className="p-3 bg-gray-50 dark:bg-gray-700 rounded-lg transition-colors">
+            <div className="flex items-center justify-between gap-2">
+              <span className="font-medium text-gray-900 dark:text-white">
+                {tx.action}{tx.label ? ` ${getFullName(tx.label)}` : ''}
+              </span>
+              <span className={`px-2 py-0.5 text-xs text-white rounded ${STATE_STYLES[tx.state]}`}>
+                {tx.state}
+              </span>
+            </div>
+            <p className={`mt-1 text-sm ${tx.state === 'aborted' || tx.state === 'dropped' ? 'text-red-500' : 'text-gray-600 dark:text-gray-300'}`}>
+              {describeTx(tx)}
+            </p>
+            <a
+              href={`https://explorer.hiro.so/txid/${tx.txId}?chain=${EXPLORER_CHAIN}`}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="text-xs font-mono text-stacks hover:underline break-all"
+            >
+              {tx.txId}
+            </a>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
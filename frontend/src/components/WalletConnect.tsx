@@ -8,7 +8,8 @@
 
 import { useState, useEffect } from 'react';
 import { AppConfig, UserSession, showConnect } from '@stacks/connect';
-import { getPrimaryName } from '../services/biud';
+import { registry } from '../services/biud';
+import { txTracker } from '../services/transactions';
 
 const appConfig = new AppConfig(['store_write', 'publish_data']);
 
@@ -53,14 +54,23 @@ export default function WalletConnect({ onConnect, onDisconnect }: WalletConnect
     }
   }, [address]);
 
+  // Refetch once a transaction that can change the primary name confirms
+  useEffect(() => {
+    if (!address) return;
+    const seen = new Set(txTracker.list().filter((tx) => tx.state === 'confirmed').map((tx) => tx.txId));
+    return txTracker.subscribe((transactions) => {
+      const confirmed = transactions.filter((tx) => tx.state === 'confirmed' && !seen.has(tx.txId));
+      confirmed.forEach((tx) => seen.add(tx.txId));
+      if (confirmed.length > 0) {
+        fetchPrimaryName(address);
+      }
+    });
+  }, [address]);
+
+  // Only show a name that is verified to still belong to and resolve to the address
   const fetchPrimaryName = async (addr: string) => {
     try {
-      const name = await getPrimaryName(addr);
-      if (name) {
-        setPrimaryName(name.fullName);
-      } else {
-        setPrimaryName(null);
-      }
+      setPrimaryName(await registry.lookupAddress(addr));
     } catch (error) {
       console.error('Error fetching primary name:', error);
       setPrimaryName(null);
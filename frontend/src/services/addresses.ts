@@ -0,0 +1,339 @@
+/**
+ * BiUD Frontend - Address Codec
+ * Converts chain addresses to and from the bytes stored by a multi-coin resolver
+ */
+
+import { bech32, bech32m, createBase58check } from '@scure/base';
+import { sha256 } from '@noble/hashes/sha256';
+import { keccak_256 } from '@noble/hashes/sha3';
+import { c32address, c32addressDecode } from 'c32check';
+import { BiudError } from './biud';
+
+// ════════════════════════════════════════════════════════════════════════════
+// COIN TYPES
+// ════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Coin types understood by the codec, numbered as in SLIP-44. Types without
+ * a SLIP-44 number start at 2^31, which SLIP-44 never assigns.
+ */
+export const COIN_TYPES = {
+  BTC: 0,
+  BTC_TESTNET: 1,
+  ETH: 60,
+  STX: 5757,
+  LIGHTNING: 0x80000000,
+} as const;
+
+/** Most bytes a resolver stores per address */
+export const MAX_ADDRESS_BYTES = 64;
+
+/** Encoder and decoder for one coin type's addresses */
+export interface CoinFormat {
+  coinType: number;
+  symbol: string;
+  name: string;
+  /** Parse a human-readable address into its on-chain bytes */
+  encode(address: string): Uint8Array;
+  /** Format on-chain bytes as a human-readable address */
+  decode(bytes: Uint8Array): string;
+}
+
+// ════════════════════════════════════════════════════════════════════════════
+// HELPERS
+// ════════════════════════════════════════════════════════════════════════════
+
+const base58check = createBase58check(sha256);
+
+const bytesToHex = (bytes: Uint8Array): string =>
+  Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+
+const hexToBytes = (hex: string): Uint8Array =>
+  new Uint8Array((hex.match(/.{2}/g) ?? []).map((byte) => parseInt(byte, 16)));
+
+const concatBytes = (...parts: (Uint8Array | number[])[]): Uint8Array =>
+  new Uint8Array(parts.flatMap((part) => Array.from(part)));
+
+const equalBytes = (a: Uint8Array, b: Uint8Array | number[]): boolean =>
+  a.length === b.length && a.every((byte, i) => byte === b[i]);
+
+function invalid(name: string, detail: string): BiudError {
+  return new BiudError(`Invalid ${name} address: ${detail}`);
+}
+
+// ════════════════════════════════════════════════════════════════════════════
+// BITCOIN
+// ════════════════════════════════════════════════════════════════════════════
+
+// Script opcodes used by standard output scripts
+const OP_0 = 0x00;
+const OP_1 = 0x51;
+const OP_16 = 0x60;
+const OP_DUP = 0x76;
+const OP_HASH160 = 0xa9;
+const OP_EQUAL = 0x87;
+const OP_EQUALVERIFY = 0x88;
+const OP_CHECKSIG = 0xac;
+
+interface BitcoinNetwork {
+  coinType: number;
+  symbol: string;
+  name: string;
+  /** Bech32 human-readable part of segwit addresses */
+  hrp: string;
+  /** Base58 version byte of pay-to-pubkey-hash addresses */
+  p2pkh: number;
+  /** Base58 version byte of pay-to-script-hash addresses */
+  p2sh: number;
+}
+
+/**
+ * Bitcoin addresses are stored as the output script they pay to, so P2PKH,
+ * P2SH, segwit v0 (bech32) and taproot and later (bech32m) all round-trip.
+ */
+function bitcoinFormat(network: BitcoinNetwork): CoinFormat {
+  const { name, hrp } = network;
+
+  const encodeSegwit = (address: string): Uint8Array => {
+    const lower = address.toLowerCase();
+    if (address !== lower && address !== address.toUpperCase()) {
+      throw invalid(name, 'mixed-case bech32');
+    }
+    if (!lower.startsWith(`${hrp}1`)) {
+      throw invalid(name, `expected the "${hrp}" prefix`);
+    }
+    let decoded: { words: number[]; checksum: 'bech32' | 'bech32m' };
+    try {
+      decoded = { words: bech32.decode(lower as `${string}1${string}`).words, checksum: 'bech32' };
+    } catch {
+      try {
+        decoded = { words: bech32m.decode(lower as `${string}1${string}`).words, checksum: 'bech32m' };
+      } catch {
+        throw invalid(name, 'bad checksum');
+      }
+    }
+    const [version, ...data] = decoded.words;
+    // BIP-350: version 0 uses bech32, every later version uses bech32m
+    if (version === undefined || version > 16 || (version === 0) !== (decoded.checksum === 'bech32')) {
+      throw invalid(name, 'wrong checksum for the witness version');
+    }
+    const program = bech32.fromWords(data);
+    if (program.length < 2 || program.length > 40 || (version === 0 && program.length !== 20 && program.length !== 32)) {
+      throw invalid(name, 'bad witness program length');
+    }
+    return concatBytes([version === 0 ? OP_0 : OP_1 + version - 1, program.length], program);
+  };
+
+  const encodeBase58 = (address: string): Uint8Array => {
+    let payload: Uint8Array;
+    try {
+      payload = base58check.decode(address);
+    } catch {
+      throw invalid(name, 'bad checksum');
+    }
+    if (payload.length !== 21) {
+      throw invalid(name, 'bad length');
+    }
+    const hash = payload.slice(1);
+    if (payload[0] === network.p2pkh) {
+      return concatBytes([OP_DUP, OP_HASH160, 20], hash, [OP_EQUALVERIFY, OP_CHECKSIG]);
+    }
+    if (payload[0] === network.p2sh) {
+      return concatBytes([OP_HASH160, 20], hash, [OP_EQUAL]);
+    }
+    throw invalid(name, 'wrong network');
+  };
+
+  return {
+    coinType: network.coinType,
+    symbol: network.symbol,
+    name,
+
+    encode(address) {
+      return address.toLowerCase().startsWith(`${hrp}1`) ? encodeSegwit(address) : encodeBase58(address);
+    },
+
+    decode(script) {
+      // OP_DUP OP_HASH160 <20> OP_EQUALVERIFY OP_CHECKSIG
+      if (
+        script.length === 25 &&
+        equalBytes(script.slice(0, 3), [OP_DUP, OP_HASH160, 20]) &&
+        equalBytes(script.slice(23), [OP_EQUALVERIFY, OP_CHECKSIG])
+      ) {
+        return base58check.encode(concatBytes([network.p2pkh], script.slice(3, 23)));
+      }
+      // OP_HASH160 <20> OP_EQUAL
+      if (script.length === 23 && equalBytes(script.slice(0, 2), [OP_HASH160, 20]) && script[22] === OP_EQUAL) {
+        return base58check.encode(concatBytes([network.p2sh], script.slice(2, 22)));
+      }
+      // OP_n <program>
+      const opcode = script[0];
+      const length = script[1];
+      const isWitness = opcode === OP_0 || (opcode >= OP_1 && opcode <= OP_16);
+      if (isWitness && length >= 2 && length <= 40 && script.length === length + 2) {
+        const version = opcode === OP_0 ? 0 : opcode - OP_1 + 1;
+        const words = [version].concat(bech32.toWords(script.slice(2)));
+        if (version === 0 && length !== 20 && length !== 32) {
+          throw invalid(name, 'bad witness program length');
+        }
+        return version === 0 ? bech32.encode(hrp, words) : bech32m.encode(hrp, words);
+      }
+      throw invalid(name, 'unsupported output script');
+    },
+  };
+}
+
+// ════════════════════════════════════════════════════════════════════════════
+// STACKS
+// ════════════════════════════════════════════════════════════════════════════
+
+// c32 versions of mainnet (SP, SM) and testnet (ST, SN) addresses
+const STACKS_VERSIONS = [22, 20, 26, 21];
+const CONTRACT_NAME = /^[a-zA-Z][a-zA-Z0-9\-_]{0,39}$/;
+
+/**
+ * Stacks principals are stored as their version byte and hash160, followed by
+ * the ASCII contract name for contract principals.
+ */
+const stacksFormat: CoinFormat = {
+  coinType: COIN_TYPES.STX,
+  symbol: 'STX',
+  name: 'Stacks',
+
+  encode(principal) {
+    const [address, contractName, ...rest] = principal.split('.');
+    if (rest.length > 0 || (contractName !== undefined && !CONTRACT_NAME.test(contractName))) {
+      throw invalid('Stacks', 'bad contract name');
+    }
+    let version: number;
+    let hash: string;
+    try {
+      [version, hash] = c32addressDecode(address);
+    } catch {
+      throw invalid('Stacks', 'bad checksum');
+    }
+    if (!STACKS_VERSIONS.includes(version)) {
+      throw invalid('Stacks', 'unknown version');
+    }
+    return concatBytes([version], hexToBytes(hash), new TextEncoder().encode(contractName ?? ''));
+  },
+
+  decode(bytes) {
+    if (bytes.length < 21 || !STACKS_VERSIONS.includes(bytes[0])) {
+      throw invalid('Stacks', 'bad encoding');
+    }
+    const address = c32address(bytes[0], bytesToHex(bytes.slice(1, 21)));
+    if (bytes.length === 21) return address;
+    const contractName = new TextDecoder().decode(bytes.slice(21));
+    if (!CONTRACT_NAME.test(contractName)) {
+      throw invalid('Stacks', 'bad contract name');
+    }
+    return `${address}.${contractName}`;
+  },
+};
+
+// ════════════════════════════════════════════════════════════════════════════
+// OTHER CHAINS
+// ════════════════════════════════════════════════════════════════════════════
+
+// EIP-55: a hex letter is upper case when the matching nibble of the address hash is 8 or more
+function toChecksumAddress(hex: string): string {
+  const hash = bytesToHex(keccak_256(new TextEncoder().encode(hex)));
+  return '0x' + Array.from(hex, (char, i) => (parseInt(hash[i], 16) >= 8 ? char.toUpperCase() : char)).join('');
+}
+
+/** Ethereum accounts are stored as their 20 bytes */
+const ethereumFormat: CoinFormat = {
+  coinType: COIN_TYPES.ETH,
+  symbol: 'ETH',
+  name: 'Ethereum',
+
+  encode(address) {
+    if (!/^0x[0-9a-fA-F]{40}$/.test(address)) {
+      throw invalid('Ethereum', 'expected 0x and 40 hex digits');
+    }
+    const hex = address.slice(2);
+    // Mixed case carries an EIP-55 checksum; all one case carries none
+    const isChecksummed = hex !== hex.toLowerCase() && hex !== hex.toUpperCase();
+    if (isChecksummed && toChecksumAddress(hex.toLowerCase()) !== address) {
+      throw invalid('Ethereum', 'bad checksum');
+    }
+    return hexToBytes(hex.toLowerCase());
+  },
+
+  decode(bytes) {
+    if (bytes.length !== 20) {
+      throw invalid('Ethereum', 'bad length');
+    }
+    return toChecksumAddress(bytesToHex(bytes));
+  },
+};
+
+/** Lightning nodes are stored as their 33-byte compressed public key */
+const lightningFormat: CoinFormat = {
+  coinType: COIN_TYPES.LIGHTNING,
+  symbol: 'LN',
+  name: 'Lightning',
+
+  encode(nodeId) {
+    if (!/^0[23][0-9a-fA-F]{64}$/.test(nodeId)) {
+      throw invalid('Lightning', 'expected a 33-byte node public key in hex');
+    }
+    return hexToBytes(nodeId.toLowerCase());
+  },
+
+  decode(bytes) {
+    if (bytes.length !== 33 || (bytes[0] !== 0x02 && bytes[0] !== 0x03)) {
+      throw invalid('Lightning', 'bad node public key');
+    }
+    return bytesToHex(bytes);
+  },
+};
+
+// ════════════════════════════════════════════════════════════════════════════
+// CODEC
+// ════════════════════════════════════════════════════════════════════════════
+
+/** Every format the codec understands, keyed by coin type */
+export const COIN_FORMATS: ReadonlyMap<number, CoinFormat> = new Map(
+  [
+    bitcoinFormat({ coinType: COIN_TYPES.BTC, symbol: 'BTC', name: 'Bitcoin', hrp: 'bc', p2pkh: 0x00, p2sh: 0x05 }),
+    bitcoinFormat({ coinType: COIN_TYPES.BTC_TESTNET, symbol: 'tBTC', name: 'Bitcoin Testnet', hrp: 'tb', p2pkh: 0x6f, p2sh: 0xc4 }),
+    ethereumFormat,
+    stacksFormat,
+    lightningFormat,
+  ].map((format) => [format.coinType, format])
+);
+
+/** Format of a coin type, or null if the codec does not know it */
+export function getCoinFormat(coinType: number): CoinFormat | null {
+  return COIN_FORMATS.get(coinType) ?? null;
+}
+
+function requireFormat(coinType: number): CoinFormat {
+  const format = getCoinFormat(coinType);
+  if (!format) {
+    throw new BiudError(`Unknown coin type ${coinType}`);
+  }
+  return format;
+}
+
+/**
+ * Encode an address for storage under a coin type
+ * @throws BiudError if the address is malformed or belongs to another network
+ */
+export function encodeAddress(coinType: number, address: string): Uint8Array {
+  const bytes = requireFormat(coinType).encode(address.trim());
+  if (bytes.length > MAX_ADDRESS_BYTES) {
+    throw new BiudError(`Addresses must encode to at most ${MAX_ADDRESS_BYTES} bytes`);
+  }
+  return bytes;
+}
+
+/**
+ * Decode the stored bytes of a coin type into a human-readable address
+ * @throws BiudError if the bytes are not a valid address of that coin type
+ */
+export function decodeAddress(coinType: number, bytes: Uint8Array): string {
+  return requireFormat(coinType).decode(bytes);
+}
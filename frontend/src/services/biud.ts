@@ -5,314 +5,1675 @@
 
 import {
   callReadOnlyFunction,
-  makeContractCall,
-  broadcastTransaction,
   AnchorMode,
   PostConditionMode,
+  PostCondition,
+  FungibleConditionCode,
+  NonFungibleConditionCode,
+  makeStandardSTXPostCondition,
+  makeStandardNonFungiblePostCondition,
+  makeContractNonFungiblePostCondition,
+  createAssetInfo,
+  ClarityType,
+  ClarityValue,
   stringUtf8CV,
+  stringAsciiCV,
   principalCV,
   uintCV,
-  ClarityValue,
-  cvToJSON,
-  TxBroadcastResult,
+  boolCV,
+  listCV,
+  bufferCV,
+  tupleCV,
+  serializeCV,
+  someCV,
+  noneCV,
+  principalToString,
+  hexToCV,
 } from '@stacks/transactions';
-import { StacksMainnet, StacksTestnet, StacksDevnet } from '@stacks/network';
+import { StacksNetwork, StacksMainnet, StacksTestnet, StacksDevnet } from '@stacks/network';
+import { getDeployment, BiudCapability, NetworkDeployment, ResolverCapability } from './deployments';
+
+// Network configuration (contracts per network live in deployments.json)
+const NETWORK_NAME = process.env.NEXT_PUBLIC_NETWORK || 'mainnet';
+
+/** Most years a `multi-year` registrar accepts per registration or renewal (MAX_REGISTRATION_YEARS) */
+export const MAX_REGISTRATION_YEARS = 10;
+
+/** Most labels a `batch` registrar accepts per `register-names` / `renew-names` call */
+export const MAX_BATCH_SIZE = 20;
+
+/** Name of the SIP-009 asset defined by `sip-009` registrars, one token per registration */
+export const NAME_ASSET = 'biud-name';
+
+/** Most labels an `owner-index` registrar returns per `get-owner-names` page */
+export const MAX_OWNER_PAGE_SIZE = 50;
 
-// Contract configuration - MAINNET DEPLOYED
-const CONTRACT_ADDRESS = 'SP31G2FZ5JN87BATZMP4ZRYE5F7WZQDNEXJ7G7X97';
-const CONTRACT_NAME = 'biud-username-v3';
+/** Limits of a `text-records` resolver: keys per name, key length, value length */
+export const MAX_TEXT_RECORDS = 20;
+export const MAX_TEXT_KEY_LENGTH = 64;
+export const MAX_TEXT_VALUE_LENGTH = 256;
 
-// Network configuration (change based on environment)
-const getNetwork = () => {
-  const env = process.env.NEXT_PUBLIC_NETWORK || 'mainnet';
-  switch (env) {
+/** Most coin types a `multi-coin` resolver stores per name */
+export const MAX_COIN_ADDRESSES = 20;
+
+export type BiudNetworkName = 'mainnet' | 'testnet' | 'devnet';
+
+// Build a network instance from its name (anything unknown is treated as devnet),
+// optionally against a node API other than the network's default
+export const createNetwork = (name: string, url?: string): StacksNetwork => {
+  const opts = url ? { url } : undefined;
+  switch (name) {
     case 'mainnet':
-      return new StacksMainnet();
+      return new StacksMainnet(opts);
     case 'testnet':
-      return new StacksTestnet();
+      return new StacksTestnet(opts);
     default:
-      return new StacksDevnet();
+      return new StacksDevnet(opts);
   }
 };
 
-// Helper to parse Clarity values to JSON
-const parseResult = (result: ClarityValue) => {
-  return cvToJSON(result);
-};
-
 // ════════════════════════════════════════════════════════════════════════════
-// READ-ONLY FUNCTIONS
+// TYPES
 // ════════════════════════════════════════════════════════════════════════════
 
-/**
- * Check if a name is available for registration
- */
-export async function isNameAvailable(label: string): Promise<boolean> {
-  const result = await callReadOnlyFunction({
-    contractAddress: CONTRACT_ADDRESS,
-    contractName: CONTRACT_NAME,
-    functionName: 'is-available',
-    functionArgs: [stringUtf8CV(label)],
-    network: getNetwork(),
-    senderAddress: CONTRACT_ADDRESS,
-  });
-  
-  const parsed = parseResult(result);
-  return parsed.value;
+export interface BiudClientConfig {
+  network: StacksNetwork | BiudNetworkName;
+  contractAddress: string;
+  contractName: string;
+  /** Optional features this registrar provides (see deployments.ts) */
+  capabilities?: BiudCapability[];
 }
 
-/**
- * Get full name information
- */
-export async function getNameInfo(label: string): Promise<any | null> {
-  const result = await callReadOnlyFunction({
-    contractAddress: CONTRACT_ADDRESS,
-    contractName: CONTRACT_NAME,
-    functionName: 'get-name',
-    functionArgs: [stringUtf8CV(label)],
-    network: getNetwork(),
-    senderAddress: CONTRACT_ADDRESS,
-  });
-  
-  const parsed = parseResult(result);
-  return parsed.value || null;
+/** Name record as returned by `get-name` */
+export interface NameRecord {
+  label: string;
+  fullName: string;
+  owner: string;
+  expiryHeight: bigint;
+  resolver: string | null;
+  isPremium: boolean;
+  nameId: bigint;
+  createdAt: bigint;
+  lastRenewed: bigint;
 }
 
-/**
- * Get owner of a name
- */
-export async function getOwner(label: string): Promise<string | null> {
-  const result = await callReadOnlyFunction({
-    contractAddress: CONTRACT_ADDRESS,
-    contractName: CONTRACT_NAME,
-    functionName: 'get-owner',
-    functionArgs: [stringUtf8CV(label)],
-    network: getNetwork(),
-    senderAddress: CONTRACT_ADDRESS,
-  });
-  
-  const parsed = parseResult(result);
-  return parsed.value || null;
+/** Fee configuration as returned by `get-fee-config` */
+export interface FeeConfig {
+  baseFee: bigint;
+  renewFee: bigint;
+  premiumMultiplier: bigint;
+  feeRecipient: string;
+  protocolTreasury: string;
+  protocolFeePercent: bigint;
 }
 
-/**
- * Get expiry block height for a name
- */
-export async function getExpiry(label: string): Promise<number | null> {
-  const result = await callReadOnlyFunction({
-    contractAddress: CONTRACT_ADDRESS,
-    contractName: CONTRACT_NAME,
-    functionName: 'get-expiry',
-    functionArgs: [stringUtf8CV(label)],
-    network: getNetwork(),
-    senderAddress: CONTRACT_ADDRESS,
-  });
-  
-  const parsed = parseResult(result);
-  return parsed.value ? parseInt(parsed.value) : null;
+/** Owned name IDs as returned by `get-names-by-owner` */
+export interface OwnerNames {
+  nameIds: bigint[];
 }
 
-/**
- * Check if a name is premium
- */
-export async function isPremiumName(label: string): Promise<boolean> {
-  const result = await callReadOnlyFunction({
-    contractAddress: CONTRACT_ADDRESS,
-    contractName: CONTRACT_NAME,
-    functionName: 'is-premium-name',
-    functionArgs: [stringUtf8CV(label)],
-    network: getNetwork(),
-    senderAddress: CONTRACT_ADDRESS,
-  });
-  
-  const parsed = parseResult(result);
-  return parsed.value;
+/** One page of owned labels as returned by `get-owner-names` */
+export interface OwnerNamesPage {
+  labels: string[];
+  /** Names the owner holds in all */
+  total: bigint;
 }
 
-/**
- * Get registration fee for a label
- */
-export async function getRegistrationFee(label: string): Promise<number> {
-  const result = await callReadOnlyFunction({
-    contractAddress: CONTRACT_ADDRESS,
-    contractName: CONTRACT_NAME,
-    functionName: 'get-registration-fee',
-    functionArgs: [stringUtf8CV(label)],
-    network: getNetwork(),
-    senderAddress: CONTRACT_ADDRESS,
-  });
-  
-  const parsed = parseResult(result);
-  return parseInt(parsed.value);
+export interface PrimaryName {
+  label: string;
+  fullName: string;
+  /** Expiry of the primary name, null when inferred from the owner list */
+  expiryHeight: bigint | null;
+}
+
+/** Reveal window of a commitment, in blocks after `commit-name` (`get-commitment-ages`) */
+export interface CommitmentAges {
+  minAge: bigint;
+  maxAge: bigint;
+}
+
+/** Decaying premium on a released name, as returned by `get-release-auction` */
+export interface ReleaseAuction {
+  releaseHeight: bigint;
+  /** First block the name costs the normal registration fee again */
+  endHeight: bigint;
+  startPremium: bigint;
+  /** Premium at the current block, already included in `get-registration-fee` */
+  premium: bigint;
+}
+
+/** Up-front quote for a batch, as returned by `get-batch-registration-fee` */
+export interface BatchFeeQuote {
+  /** Fee of each label, in the order given */
+  fees: bigint[];
+  /** Most the batch can cost; labels that fail are not charged */
+  total: bigint;
+}
+
+/** Text records of a name keyed by record key (`avatar`, `url`, `com.twitter`, ...) */
+export type TextRecords = Record<string, string>;
+
+/** An address stored by a `multi-coin` resolver, in its on-chain form (see services/addresses.ts) */
+export interface CoinAddress {
+  coinType: number;
+  bytes: Uint8Array;
+}
+
+/** SIP-016 metadata behind a name token's `get-token-uri` */
+export interface TokenMetadata {
+  sip: 16;
+  name: string;
+  description?: string;
+  image?: string;
+  attributes?: { trait_type: string; value: string | number; display_type?: string }[];
+}
+
+/** An operator approved to manage names for their owner */
+export interface OperatorApproval {
+  operator: string;
+  /** Whether the operator may also transfer the name(s) */
+  canTransfer: boolean;
+  /** One name (`set-name-operator`) or every name of the owner (`set-owner-operator`) */
+  scope: 'name' | 'owner';
+}
+
+/** Subname record as returned by `get-subname` (e.g. pay.alice.sBTC) */
+export interface SubnameRecord {
+  label: string;
+  parent: string;
+  fullName: string;
+  owner: string;
+  resolver: string | null;
+  /** Already capped at the parent's expiry */
+  expiryHeight: bigint;
+  createdAt: bigint;
+}
+
+/** Options accepted by every transaction option builder */
+export interface TxBuildOptions {
+  /**
+   * Defaults to `PostConditionMode.Deny`, so the wallet rejects any asset movement
+   * not covered by the attached post-conditions. Pass `Allow` to opt out.
+   */
+  postConditionMode?: PostConditionMode;
+}
+
+// ════════════════════════════════════════════════════════════════════════════
+// ERRORS
+// ════════════════════════════════════════════════════════════════════════════
+
+/** Error codes returned as `(err uXXXX)` by the registrar (1xxx), resolver (2xxx) and marketplace (3xxx) */
+export const CONTRACT_ERRORS = {
+  1001: { name: 'ERR_NAME_TAKEN', message: 'Name is already registered' },
+  1002: { name: 'ERR_NAME_EXPIRED', message: 'Name has expired' },
+  1003: { name: 'ERR_NOT_OWNER', message: 'Only the owner of this name can do that' },
+  1004: { name: 'ERR_NOT_ADMIN', message: 'Only the contract admin can do that' },
+  1005: { name: 'ERR_INVALID_LABEL', message: 'Invalid name' },
+  1006: { name: 'ERR_PAYMENT_FAILED', message: 'Fee payment failed, check your STX balance' },
+  1007: { name: 'ERR_IN_GRACE_PERIOD', message: 'Name is in grace period, only the previous owner can renew' },
+  1008: { name: 'ERR_RESOLVER_INVALID', message: 'Resolver does not match the one set for this name' },
+  1009: { name: 'ERR_NAME_NOT_FOUND', message: 'Name is not registered' },
+  1010: { name: 'ERR_LABEL_TOO_LONG', message: 'Label cannot exceed 32 characters' },
+  1011: { name: 'ERR_LABEL_EMPTY', message: 'Label cannot be empty' },
+  1012: { name: 'ERR_INVALID_CHARACTER', message: 'Label can only contain lowercase letters, numbers, and hyphens' },
+  1013: { name: 'ERR_TRANSFER_TO_SELF', message: 'Name is already owned by that address' },
+  1014: { name: 'ERR_ZERO_FEE', message: 'Fee cannot be zero' },
+  1015: { name: 'ERR_LIST_FULL', message: 'This name already has the maximum of 50 subnames' },
+  1016: { name: 'ERR_PERCENT_TOO_HIGH', message: 'Protocol fee percent cannot exceed 100' },
+  1017: { name: 'ERR_NOT_NAME_OWNER', message: 'Only the owner of this name can set it as primary' },
+  1018: { name: 'ERR_INVALID_EXPIRY', message: 'Subname expiry must be in the future and no later than the parent name' },
+  1019: { name: 'ERR_INVALID_YEARS', message: `Registration length must be 1 to ${MAX_REGISTRATION_YEARS} years ahead` },
+  1020: { name: 'ERR_COMMITMENT_NOT_FOUND', message: 'No matching commitment found for this name' },
+  1021: { name: 'ERR_COMMITMENT_TOO_NEW', message: 'Commitment is too recent, wait a few more blocks before revealing' },
+  1022: { name: 'ERR_COMMITMENT_EXPIRED', message: 'Commitment has expired, commit again' },
+  1023: { name: 'ERR_TOO_MANY_OPERATORS', message: 'Maximum number of operators reached, revoke one first' },
+  2001: { name: 'ERR_RESOLVER_NOT_OWNER', message: 'Only the name owner can update resolver records' },
+  2002: { name: 'ERR_RESOLVER_NOT_FOUND', message: 'Name is not registered with the resolver' },
+  2003: { name: 'ERR_RESOLVER_INVALID_KEY', message: 'Record key cannot be empty' },
+  2004: { name: 'ERR_RESOLVER_TOO_MANY_KEYS', message: `A name can hold at most ${MAX_TEXT_RECORDS} text records` },
+  2005: { name: 'ERR_RESOLVER_TOO_MANY_COINS', message: `A name can hold addresses for at most ${MAX_COIN_ADDRESSES} coin types` },
+  3001: { name: 'ERR_MARKETPLACE_NOT_ADMIN', message: 'Only the marketplace admin can do that' },
+  3002: { name: 'ERR_NOT_SELLER', message: 'Only the owner or seller of this name can do that' },
+  3003: { name: 'ERR_LISTING_NOT_FOUND', message: 'Name is not listed for sale' },
+  3004: { name: 'ERR_OFFER_NOT_FOUND', message: 'No offer found from that bidder' },
+  3005: { name: 'ERR_INVALID_PRICE', message: 'Price must be greater than zero' },
+  3006: { name: 'ERR_OWN_NAME', message: 'You cannot buy or bid on your own name' },
+  3007: { name: 'ERR_MARKETPLACE_PERCENT_TOO_HIGH', message: 'Royalty percent cannot exceed 100' },
+  3008: { name: 'ERR_TOO_MANY_OFFERS', message: 'This name has reached the maximum number of open offers' },
+  3009: { name: 'ERR_MARKETPLACE_PAYMENT_FAILED', message: 'Payment failed, check your STX balance' },
+  3010: { name: 'ERR_MARKETPLACE_NAME_NOT_FOUND', message: 'Name is not registered' },
+} as const;
+
+export type ContractErrorCode = keyof typeof CONTRACT_ERRORS;
+export type ContractErrorName = (typeof CONTRACT_ERRORS)[ContractErrorCode]['name'];
+
+/** Base class for every error raised by this service */
+export class BiudError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BiudError';
+  }
+}
+
+/** A contract call returned `(err uXXXX)` */
+export class BiudContractError extends BiudError {
+  readonly code: number;
+  readonly errorName: ContractErrorName | 'ERR_UNKNOWN';
+
+  constructor(code: number) {
+    const known = CONTRACT_ERRORS[code as ContractErrorCode];
+    super(known ? known.message : `Contract returned error u${code}`);
+    this.name = 'BiudContractError';
+    this.code = code;
+    this.errorName = known ? known.name : 'ERR_UNKNOWN';
+  }
+
+  /** True if this error comes from a resolver contract rather than the registrar */
+  get isResolverError(): boolean {
+    return this.code >= 2000 && this.code < 3000;
+  }
+
+  /** True if this error comes from the marketplace contract */
+  get isMarketplaceError(): boolean {
+    return this.code >= 3000 && this.code < 4000;
+  }
+}
+
+/** A transaction was mined but did not succeed for a reason other than a contract error */
+export class BiudTransactionError extends BiudError {
+  readonly txId: string;
+  readonly status: string;
+
+  constructor(txId: string, status: string) {
+    super(
+      status === 'abort_by_post_condition'
+        ? 'Transaction was aborted by a post-condition'
+        : `Transaction failed (${status})`
+    );
+    this.name = 'BiudTransactionError';
+    this.txId = txId;
+    this.status = status;
+  }
 }
 
 /**
- * Get current fee configuration
+ * Convert an `(err ...)` Clarity value into a typed error.
+ * Non-uint error payloads are reported as-is.
  */
-export async function getFeeConfig(): Promise<any> {
-  const result = await callReadOnlyFunction({
-    contractAddress: CONTRACT_ADDRESS,
-    contractName: CONTRACT_NAME,
-    functionName: 'get-fee-config',
-    functionArgs: [],
-    network: getNetwork(),
-    senderAddress: CONTRACT_ADDRESS,
-  });
-  
-  return parseResult(result);
+export function errorFromClarityValue(cv: ClarityValue): BiudError {
+  const inner = cv.type === ClarityType.ResponseErr ? cv.value : cv;
+  if (inner.type === ClarityType.UInt) {
+    return new BiudContractError(Number(inner.value));
+  }
+  return new BiudError(`Contract returned error of type ${inner.type}`);
 }
 
 /**
- * Get all names owned by a principal
+ * Decode the result of a mined transaction as reported by the Stacks node API
+ * (`tx_status` plus the hex-encoded `tx_result`). Returns null for successful transactions.
  */
-export async function getNamesByOwner(owner: string): Promise<number[]> {
-  const result = await callReadOnlyFunction({
-    contractAddress: CONTRACT_ADDRESS,
-    contractName: CONTRACT_NAME,
-    functionName: 'get-names-by-owner',
-    functionArgs: [principalCV(owner)],
-    network: getNetwork(),
-    senderAddress: CONTRACT_ADDRESS,
-  });
-  
-  const parsed = parseResult(result);
-  return parsed.value?.['name-ids'] || [];
+export function errorFromTxResult(txId: string, status: string, resultHex?: string): BiudError | null {
+  if (status === 'success') {
+    return null;
+  }
+  if (status === 'abort_by_response' && resultHex) {
+    const result = hexToCV(resultHex);
+    if (result.type === ClarityType.ResponseErr) {
+      return errorFromClarityValue(result);
+    }
+  }
+  return new BiudTransactionError(txId, status);
 }
 
 /**
- * Get label by name ID (reverse lookup)
+ * Human readable message for anything thrown while talking to the contract
  */
-export async function getLabelById(nameId: number): Promise<string | null> {
-  const result = await callReadOnlyFunction({
-    contractAddress: CONTRACT_ADDRESS,
-    contractName: CONTRACT_NAME,
-    functionName: 'get-label-by-id',
-    functionArgs: [uintCV(nameId)],
-    network: getNetwork(),
-    senderAddress: CONTRACT_ADDRESS,
-  });
-  
-  const parsed = parseResult(result);
-  return parsed.value || null;
+export function describeError(error: unknown, fallback: string): string {
+  if (error instanceof BiudError) {
+    return error.message;
+  }
+  return fallback;
 }
 
+// ════════════════════════════════════════════════════════════════════════════
+// CLARITY VALUE DECODERS
+// ════════════════════════════════════════════════════════════════════════════
+
+// The primitive decoders are shared with the marketplace bindings
+
+const expectType = (cv: ClarityValue, ...types: ClarityType[]) => {
+  if (!types.includes(cv.type)) {
+    throw new BiudError(`Unexpected Clarity value type ${cv.type}, expected ${types.join(' or ')}`);
+  }
+};
+
+export const decodeUint = (cv: ClarityValue): bigint => {
+  expectType(cv, ClarityType.UInt);
+  return (cv as Extract<ClarityValue, { type: ClarityType.UInt }>).value as bigint;
+};
+
+export const decodeBool = (cv: ClarityValue): boolean => {
+  expectType(cv, ClarityType.BoolTrue, ClarityType.BoolFalse);
+  return cv.type === ClarityType.BoolTrue;
+};
+
+export const decodeString = (cv: ClarityValue): string => {
+  expectType(cv, ClarityType.StringUTF8, ClarityType.StringASCII);
+  return (cv as Extract<ClarityValue, { type: ClarityType.StringUTF8 }>).data;
+};
+
+export const decodePrincipal = (cv: ClarityValue): string => {
+  expectType(cv, ClarityType.PrincipalStandard, ClarityType.PrincipalContract);
+  return principalToString(cv as Extract<ClarityValue, { type: ClarityType.PrincipalStandard }>);
+};
+
+export const decodeBuffer = (cv: ClarityValue): Uint8Array => {
+  expectType(cv, ClarityType.Buffer);
+  return (cv as Extract<ClarityValue, { type: ClarityType.Buffer }>).buffer;
+};
+
+// Map `none` to null and unwrap `(some x)` with the given decoder
+export const decodeOptional = <T>(cv: ClarityValue, decode: (inner: ClarityValue) => T): T | null => {
+  expectType(cv, ClarityType.OptionalNone, ClarityType.OptionalSome);
+  return cv.type === ClarityType.OptionalSome ? decode(cv.value) : null;
+};
+
+export const decodeTuple = (cv: ClarityValue): Record<string, ClarityValue> => {
+  expectType(cv, ClarityType.Tuple);
+  return (cv as Extract<ClarityValue, { type: ClarityType.Tuple }>).data;
+};
+
+export const decodeList = <T>(cv: ClarityValue, decode: (item: ClarityValue) => T): T[] => {
+  expectType(cv, ClarityType.List);
+  return (cv as Extract<ClarityValue, { type: ClarityType.List }>).list.map(decode);
+};
+
+const decodeNameRecord = (cv: ClarityValue): NameRecord => {
+  const data = decodeTuple(cv);
+  return {
+    label: decodeString(data['label']),
+    fullName: decodeString(data['full-name']),
+    owner: decodePrincipal(data['owner']),
+    expiryHeight: decodeUint(data['expiry-height']),
+    resolver: decodeOptional(data['resolver'], decodePrincipal),
+    isPremium: decodeBool(data['is-premium']),
+    nameId: decodeUint(data['name-id']),
+    createdAt: decodeUint(data['created-at']),
+    lastRenewed: decodeUint(data['last-renewed']),
+  };
+};
+
+const decodeFeeConfig = (cv: ClarityValue): FeeConfig => {
+  const data = decodeTuple(cv);
+  return {
+    baseFee: decodeUint(data['base-fee']),
+    renewFee: decodeUint(data['renew-fee']),
+    premiumMultiplier: decodeUint(data['premium-multiplier']),
+    feeRecipient: decodePrincipal(data['fee-recipient']),
+    protocolTreasury: decodePrincipal(data['protocol-treasury']),
+    protocolFeePercent: decodeUint(data['protocol-fee-percent']),
+  };
+};
+
+const decodePrimaryName = (cv: ClarityValue): PrimaryName => {
+  const data = decodeTuple(cv);
+  return {
+    label: decodeString(data['label']),
+    fullName: decodeString(data['full-name']),
+    expiryHeight: decodeUint(data['expiry-height']),
+  };
+};
+
+const decodeSubnameRecord = (cv: ClarityValue): SubnameRecord => {
+  const data = decodeTuple(cv);
+  return {
+    label: decodeString(data['label']),
+    parent: decodeString(data['parent']),
+    fullName: decodeString(data['full-name']),
+    owner: decodePrincipal(data['owner']),
+    resolver: decodeOptional(data['resolver'], decodePrincipal),
+    expiryHeight: decodeUint(data['expiry-height']),
+    createdAt: decodeUint(data['created-at']),
+  };
+};
+
+const decodeCommitmentAges = (cv: ClarityValue): CommitmentAges => {
+  const data = decodeTuple(cv);
+  return {
+    minAge: decodeUint(data['min-age']),
+    maxAge: decodeUint(data['max-age']),
+  };
+};
+
+const decodeReleaseAuction = (cv: ClarityValue): ReleaseAuction => {
+  const data = decodeTuple(cv);
+  return {
+    releaseHeight: decodeUint(data['release-height']),
+    endHeight: decodeUint(data['end-height']),
+    startPremium: decodeUint(data['start-premium']),
+    premium: decodeUint(data.premium),
+  };
+};
+
+const decodeBatchFeeQuote = (cv: ClarityValue): BatchFeeQuote => {
+  const data = decodeTuple(cv);
+  return {
+    fees: decodeList(data.fees, decodeUint),
+    total: decodeUint(data.total),
+  };
+};
+
+const decodeOperatorApproval = (cv: ClarityValue, operator: string, scope: OperatorApproval['scope']): OperatorApproval => ({
+  operator,
+  canTransfer: decodeBool(decodeTuple(cv)['can-transfer']),
+  scope,
+});
+
+const decodeOwnerNames = (cv: ClarityValue): OwnerNames => {
+  const data = decodeTuple(cv);
+  return { nameIds: decodeList(data['name-ids'], decodeUint) };
+};
+
+const decodeOwnerNamesPage = (cv: ClarityValue): OwnerNamesPage => {
+  const data = decodeTuple(cv);
+  return {
+    labels: decodeList(data.labels, decodeString),
+    total: decodeUint(data.total),
+  };
+};
+
+// ════════════════════════════════════════════════════════════════════════════
+// CLIENT
+// ════════════════════════════════════════════════════════════════════════════
+
 /**
- * Get the primary/display name for an address
- * Returns the first registered name (will use get-primary-name in v4)
+ * Typed client for a single BiUD registrar deployment.
+ * Construct one per network/contract to target several deployments side by side.
  */
-export async function getPrimaryName(address: string): Promise<{
-  label: string;
-  fullName: string;
-} | null> {
-  try {
-    // Get all name IDs owned by this address
-    const nameIds = await getNamesByOwner(address);
-    
-    if (!nameIds || nameIds.length === 0) {
+export class BiudClient {
+  readonly network: StacksNetwork;
+  readonly contractAddress: string;
+  readonly contractName: string;
+  readonly capabilities: ReadonlySet<BiudCapability>;
+
+  constructor(config: BiudClientConfig) {
+    this.network = typeof config.network === 'string' ? createNetwork(config.network) : config.network;
+    this.contractAddress = config.contractAddress;
+    this.contractName = config.contractName;
+    this.capabilities = new Set(config.capabilities ?? []);
+  }
+
+  hasCapability(capability: BiudCapability): boolean {
+    return this.capabilities.has(capability);
+  }
+
+  /** On-chain primary names (`get-primary-name`, `set-primary-name`) */
+  get supportsPrimaryNames(): boolean {
+    return this.hasCapability('primary-names');
+  }
+
+  /** Subnames under registered names (`create-subname`, `get-subname`) */
+  get supportsSubnames(): boolean {
+    return this.hasCapability('subnames');
+  }
+
+  /** Two-step registration (`commit-name`, then `reveal-name`) */
+  get supportsCommitReveal(): boolean {
+    return this.hasCapability('commit-reveal');
+  }
+
+  /** Decaying premium on names released after the grace period (`get-release-auction`) */
+  get supportsReleaseAuction(): boolean {
+    return this.hasCapability('release-auction');
+  }
+
+  /** Names are SIP-009 tokens (`get-token-uri`); the label owner lookup is `get-name-owner` */
+  get supportsTokens(): boolean {
+    return this.hasCapability('sip-009');
+  }
+
+  /** Delegated management of names (`set-name-operator`, `set-owner-operator`) */
+  get supportsOperators(): boolean {
+    return this.hasCapability('operators');
+  }
+
+  /** Several labels per transaction (`register-names`, `renew-names`) */
+  get supportsBatch(): boolean {
+    return this.hasCapability('batch');
+  }
+
+  /** Registrations and renewals longer than one year (`register-name label years`) */
+  get supportsMultiYear(): boolean {
+    return this.hasCapability('multi-year');
+  }
+
+  private requireCapability(capability: BiudCapability, feature: string): void {
+    if (!this.hasCapability(capability)) {
+      throw new BiudError(`${feature} are not supported by ${this.contractName}`);
+    }
+  }
+
+  /**
+   * Arguments carrying the registration length. Older registrars take no years
+   * argument and always register or renew for exactly one year.
+   */
+  private yearsArgs(years: number): ClarityValue[] {
+    if (!Number.isInteger(years) || years < 1 || years > MAX_REGISTRATION_YEARS) {
+      throw new BiudError(`Registration length must be 1 to ${MAX_REGISTRATION_YEARS} years`);
+    }
+    if (!this.supportsMultiYear) {
+      if (years !== 1) this.requireCapability('multi-year', 'Multi-year registrations');
+      return [];
+    }
+    return [uintCV(years)];
+  }
+
+  /** Label list argument of the batch functions */
+  private labelsArg(labels: string[]): ClarityValue {
+    this.requireCapability('batch', 'Batch registrations');
+    if (labels.length === 0 || labels.length > MAX_BATCH_SIZE) {
+      throw new BiudError(`A batch takes 1 to ${MAX_BATCH_SIZE} names`);
+    }
+    return listCV(labels.map((label) => stringUtf8CV(label)));
+  }
+
+  /** Fully qualified contract identifier (`address.name`) */
+  get contractId(): string {
+    return `${this.contractAddress}.${this.contractName}`;
+  }
+
+  // Call a read-only function, raising a typed error if it returns `(err uXXXX)`
+  private async callReadOnly(functionName: string, functionArgs: ClarityValue[] = []): Promise<ClarityValue> {
+    const result = await callReadOnlyFunction({
+      contractAddress: this.contractAddress,
+      contractName: this.contractName,
+      functionName,
+      functionArgs,
+      network: this.network,
+      senderAddress: this.contractAddress,
+    });
+    if (result.type === ClarityType.ResponseErr) {
+      throw errorFromClarityValue(result);
+    }
+    return result.type === ClarityType.ResponseOk ? result.value : result;
+  }
+
+  private contractCallOptions(
+    functionName: string,
+    functionArgs: ClarityValue[],
+    postConditions: PostCondition[],
+    options: TxBuildOptions
+  ) {
+    return {
+      contractAddress: this.contractAddress,
+      contractName: this.contractName,
+      functionName,
+      functionArgs,
+      network: this.network,
+      anchorMode: AnchorMode.Any,
+      postConditions,
+      postConditionMode: options.postConditionMode ?? PostConditionMode.Deny,
+    };
+  }
+
+  // The owner of a registration gives up its token, by transfer or burn
+  private ownerSendsName(owner: string, nameId: bigint): PostCondition {
+    const asset = createAssetInfo(this.contractAddress, this.contractName, NAME_ASSET);
+    const [address, contractName] = owner.split('.');
+    return contractName
+      ? makeContractNonFungiblePostCondition(address, contractName, NonFungibleConditionCode.Sends, asset, uintCV(nameId))
+      : makeStandardNonFungiblePostCondition(address, NonFungibleConditionCode.Sends, asset, uintCV(nameId));
+  }
+
+  // Registering over an expired registration burns its token from the previous owner
+  private async releasedNameConditions(labels: string[]): Promise<PostCondition[]> {
+    if (!this.supportsTokens) return [];
+    const records = await Promise.all(labels.map((label) => this.getNameInfo(label)));
+    return records.flatMap((record) => (record ? [this.ownerSendsName(record.owner, record.nameId)] : []));
+  }
+
+  // ──────────────────────────────────────────────────────────────────────────
+  // READ-ONLY FUNCTIONS
+  // ──────────────────────────────────────────────────────────────────────────
+
+  /**
+   * Check if a name is available for registration
+   */
+  async isNameAvailable(label: string): Promise<boolean> {
+    return decodeBool(await this.callReadOnly('is-available', [stringUtf8CV(label)]));
+  }
+
+  /**
+   * Get full name information
+   */
+  async getNameInfo(label: string): Promise<NameRecord | null> {
+    return decodeOptional(await this.callReadOnly('get-name', [stringUtf8CV(label)]), decodeNameRecord);
+  }
+
+  /**
+   * Get owner of a name
+   */
+  async getOwner(label: string): Promise<string | null> {
+    // SIP-009 registrars keep get-owner for the token lookup
+    const functionName = this.supportsTokens ? 'get-name-owner' : 'get-owner';
+    return decodeOptional(await this.callReadOnly(functionName, [stringUtf8CV(label)]), decodePrincipal);
+  }
+
+  /**
+   * Get expiry block height for a name
+   */
+  async getExpiry(label: string): Promise<bigint | null> {
+    return decodeOptional(await this.callReadOnly('get-expiry', [stringUtf8CV(label)]), decodeUint);
+  }
+
+  /**
+   * Get the resolver contract configured for a name
+   */
+  async getResolver(label: string): Promise<string | null> {
+    return decodeOptional(await this.callReadOnly('get-resolver', [stringUtf8CV(label)]), decodePrincipal);
+  }
+
+  /**
+   * Check if a name is premium
+   */
+  async isPremiumName(label: string): Promise<boolean> {
+    return decodeBool(await this.callReadOnly('is-premium-name', [stringUtf8CV(label)]));
+  }
+
+  /**
+   * Get registration fee for a label over a number of years (microSTX).
+   * Includes the current release premium on registrars with `release-auction`.
+   */
+  async getRegistrationFee(label: string, years = 1): Promise<bigint> {
+    return decodeUint(await this.callReadOnly('get-registration-fee', [stringUtf8CV(label), ...this.yearsArgs(years)]));
+  }
+
+  /**
+   * Release auction of a label, or null if it is not in one
+   */
+  async getReleaseAuction(label: string): Promise<ReleaseAuction | null> {
+    this.requireCapability('release-auction', 'Release auctions');
+    return decodeOptional(await this.callReadOnly('get-release-auction', [stringUtf8CV(label)]), decodeReleaseAuction);
+  }
+
+  /**
+   * Get renewal fee over a number of years (microSTX)
+   */
+  async getRenewalFee(years = 1): Promise<bigint> {
+    const args = this.yearsArgs(years);
+    if (!this.supportsMultiYear) {
+      // Older registrars have no renewal quote, one year costs the configured fee
+      return (await this.getFeeConfig()).renewFee;
+    }
+    return decodeUint(await this.callReadOnly('get-renewal-fee', args));
+  }
+
+  /**
+   * Quote registering several labels for a number of years (microSTX),
+   * release premiums included
+   */
+  async getBatchRegistrationFee(labels: string[], years = 1): Promise<BatchFeeQuote> {
+    const cv = await this.callReadOnly('get-batch-registration-fee', [this.labelsArg(labels), ...this.yearsArgs(years)]);
+    return decodeBatchFeeQuote(cv);
+  }
+
+  /**
+   * Quote renewing several labels for a number of years (microSTX)
+   */
+  async getBatchRenewalFee(labels: string[], years = 1): Promise<bigint> {
+    return decodeUint(await this.callReadOnly('get-batch-renewal-fee', [this.labelsArg(labels), ...this.yearsArgs(years)]));
+  }
+
+  /**
+   * Get current fee configuration
+   */
+  async getFeeConfig(): Promise<FeeConfig> {
+    return decodeFeeConfig(await this.callReadOnly('get-fee-config'));
+  }
+
+  /**
+   * Get the IDs of the names owned by a principal. Registrars with `owner-index`
+   * return only the first 100; use iterateOwnedLabels for every name.
+   */
+  async getNamesByOwner(owner: string): Promise<OwnerNames> {
+    return decodeOwnerNames(await this.callReadOnly('get-names-by-owner', [principalCV(owner)]));
+  }
+
+  /**
+   * Get up to `limit` labels owned by a principal, starting at `offset`
+   */
+  async getOwnerNamesPage(owner: string, offset: number, limit = MAX_OWNER_PAGE_SIZE): Promise<OwnerNamesPage> {
+    this.requireCapability('owner-index', 'Paged owner lookups');
+    const cv = await this.callReadOnly('get-owner-names', [principalCV(owner), uintCV(offset), uintCV(limit)]);
+    return decodeOwnerNamesPage(cv);
+  }
+
+  /**
+   * Iterate every label owned by a principal, fetching one page at a time.
+   * Names that change hands mid-iteration may be skipped or repeated.
+   */
+  async *iterateOwnedLabels(owner: string, pageSize = MAX_OWNER_PAGE_SIZE): AsyncGenerator<string> {
+    if (!this.hasCapability('owner-index')) {
+      // Older registrars keep a single list of up to 100 IDs
+      const { nameIds } = await this.getNamesByOwner(owner);
+      const labels = await Promise.all(nameIds.map((nameId) => this.getLabelById(nameId)));
+      for (const label of labels) {
+        if (label) yield label;
+      }
+      return;
+    }
+    const limit = Math.min(Math.max(pageSize, 1), MAX_OWNER_PAGE_SIZE);
+    for (let offset = 0; ; offset += limit) {
+      const page = await this.getOwnerNamesPage(owner, offset, limit);
+      yield* page.labels;
+      if (page.labels.length < limit || BigInt(offset + limit) >= page.total) return;
+    }
+  }
+
+  /**
+   * Get label by name ID (reverse lookup)
+   */
+  async getLabelById(nameId: bigint | number): Promise<string | null> {
+    return decodeOptional(await this.callReadOnly('get-label-by-id', [uintCV(nameId)]), decodeString);
+  }
+
+  /**
+   * Check if a name is expired but still renewable by its owner
+   */
+  async isNameInGracePeriod(label: string): Promise<boolean> {
+    return decodeBool(await this.callReadOnly('is-name-in-grace-period', [stringUtf8CV(label)]));
+  }
+
+  /**
+   * Check if a name is past its grace period (or was never registered)
+   */
+  async isNameFullyExpired(label: string): Promise<boolean> {
+    return decodeBool(await this.callReadOnly('is-name-fully-expired', [stringUtf8CV(label)]));
+  }
+
+  /**
+   * Get the grace period (in blocks) after expiry during which only the owner can renew
+   */
+  async getGracePeriod(): Promise<bigint> {
+    return decodeUint(await this.callReadOnly('get-grace-period'));
+  }
+
+  /**
+   * Get the primary/display name for an address.
+   * Older contracts have no primary names, so the first owned name is used instead.
+   */
+  async getPrimaryName(address: string): Promise<PrimaryName | null> {
+    try {
+      if (this.supportsPrimaryNames) {
+        return decodeOptional(await this.callReadOnly('get-primary-name', [principalCV(address)]), decodePrimaryName);
+      }
+      return await this.getFirstOwnedName(address);
+    } catch (error) {
+      console.error('Error fetching primary name:', error);
       return null;
     }
-    
-    // Get the first name ID (primary)
-    // Handle both raw number and object with value property
-    const firstEntry = nameIds[0];
-    const firstNameId = typeof firstEntry === 'object' && firstEntry !== null 
-      ? (firstEntry as any).value 
-      : firstEntry;
-    
-    if (firstNameId === undefined || firstNameId === null) {
+  }
+
+  /**
+   * Get the name to display for an address (e.g. "alice.sBTC"), or null to show the address
+   */
+  async resolveAddress(address: string): Promise<string | null> {
+    if (!this.hasCapability('reverse-resolution')) {
+      return (await this.getPrimaryName(address))?.fullName ?? null;
+    }
+    const fullName = decodeString(await this.callReadOnly('resolve-address', [principalCV(address)]));
+    return fullName === '' ? null : fullName;
+  }
+
+  // Pre-v4 stand-in for a primary name: the first name in the owner's list
+  private async getFirstOwnedName(address: string): Promise<PrimaryName | null> {
+    const { nameIds } = await this.getNamesByOwner(address);
+
+    if (nameIds.length === 0) {
       return null;
     }
-    
-    // Get the label for this name ID
-    const label = await getLabelById(firstNameId);
-    
+
+    const label = await this.getLabelById(nameIds[0]);
+
     if (!label) {
       return null;
     }
-    
+
     return {
       label,
-      fullName: `${label}.sBTC`,
+      fullName: getFullName(label),
+      expiryHeight: null,
     };
-  } catch (error) {
-    console.error('Error fetching primary name:', error);
-    return null;
+  }
+
+  /**
+   * Get the full record of every name owned by a principal, in owner index order
+   */
+  async getOwnedNames(owner: string): Promise<NameRecord[]> {
+    const labels: string[] = [];
+    for await (const label of this.iterateOwnedLabels(owner)) {
+      labels.push(label);
+    }
+    const records = await Promise.all(labels.map((label) => this.getNameInfo(label)));
+    return records.filter((record): record is NameRecord => record !== null);
+  }
+
+  /**
+   * Get a subname under a parent label, or null if it was never issued or the
+   * parent has been re-registered since
+   */
+  async getSubname(parent: string, label: string): Promise<SubnameRecord | null> {
+    this.requireCapability('subnames', 'Subnames');
+    return decodeOptional(
+      await this.callReadOnly('get-subname', [stringUtf8CV(parent), stringUtf8CV(label)]),
+      decodeSubnameRecord
+    );
+  }
+
+  /**
+   * Get every current subname issued under a parent label
+   */
+  async getSubnames(parent: string): Promise<SubnameRecord[]> {
+    this.requireCapability('subnames', 'Subnames');
+    const labels = decodeList(await this.callReadOnly('get-subnames', [stringUtf8CV(parent)]), decodeString);
+    const records = await Promise.all(labels.map((label) => this.getSubname(parent, label)));
+    return records.filter((record): record is SubnameRecord => record !== null);
+  }
+
+  // ──────────────────────────────────────────────────────────────────────────
+  // SIP-009 TOKENS (v4+)
+  // ──────────────────────────────────────────────────────────────────────────
+
+  /**
+   * Highest token ID minted so far (token IDs are name IDs)
+   */
+  async getLastTokenId(): Promise<bigint> {
+    this.requireCapability('sip-009', 'Name tokens');
+    return decodeUint(await this.callReadOnly('get-last-token-id'));
+  }
+
+  /**
+   * Metadata URI of a token, or null if it was never minted
+   */
+  async getTokenUri(tokenId: bigint | number): Promise<string | null> {
+    this.requireCapability('sip-009', 'Name tokens');
+    return decodeOptional(await this.callReadOnly('get-token-uri', [uintCV(tokenId)]), decodeString);
+  }
+
+  /**
+   * Owner of a token, or null once its name has been released
+   */
+  async getTokenOwner(tokenId: bigint | number): Promise<string | null> {
+    this.requireCapability('sip-009', 'Name tokens');
+    return decodeOptional(await this.callReadOnly('get-owner', [uintCV(tokenId)]), decodePrincipal);
+  }
+
+  /**
+   * Fetch the SIP-016 metadata a token's URI points to
+   */
+  async getTokenMetadata(tokenId: bigint | number): Promise<TokenMetadata | null> {
+    const uri = await this.getTokenUri(tokenId);
+    if (!uri) {
+      return null;
+    }
+    const response = await fetch(resolveTokenUri(uri));
+    if (!response.ok) {
+      throw new BiudError(`Failed to fetch metadata for token ${tokenId} (HTTP ${response.status})`);
+    }
+    return (await response.json()) as TokenMetadata;
+  }
+
+  // ──────────────────────────────────────────────────────────────────────────
+  // OPERATORS
+  // ──────────────────────────────────────────────────────────────────────────
+
+  /**
+   * Get the operators approved for one name by its current owner
+   */
+  async getNameOperators(label: string): Promise<OperatorApproval[]> {
+    this.requireCapability('operators', 'Operators');
+    const operators = decodeList(await this.callReadOnly('get-name-operators', [stringUtf8CV(label)]), decodePrincipal);
+    const approvals = await Promise.all(
+      operators.map(async (operator) => {
+        const approval = await this.callReadOnly('get-name-operator', [stringUtf8CV(label), principalCV(operator)]);
+        return decodeOptional(approval, (cv) => decodeOperatorApproval(cv, operator, 'name'));
+      })
+    );
+    return approvals.filter((approval): approval is OperatorApproval => approval !== null);
+  }
+
+  /**
+   * Get the operators an owner approved for all of their names
+   */
+  async getOwnerOperators(owner: string): Promise<OperatorApproval[]> {
+    this.requireCapability('operators', 'Operators');
+    const operators = decodeList(await this.callReadOnly('get-owner-operators', [principalCV(owner)]), decodePrincipal);
+    const approvals = await Promise.all(
+      operators.map(async (operator) => {
+        const approval = await this.callReadOnly('get-owner-operator', [principalCV(owner), principalCV(operator)]);
+        return decodeOptional(approval, (cv) => decodeOperatorApproval(cv, operator, 'owner'));
+      })
+    );
+    return approvals.filter((approval): approval is OperatorApproval => approval !== null);
+  }
+
+  /**
+   * Check if an address can manage a name's resolver and records (owner or operator)
+   */
+  async canManageName(label: string, caller: string): Promise<boolean> {
+    if (!this.supportsOperators) {
+      return (await this.getOwner(label)) === caller;
+    }
+    return decodeBool(await this.callReadOnly('can-manage-name', [stringUtf8CV(label), principalCV(caller)]));
+  }
+
+  /**
+   * Check if an address can transfer a name (owner or operator approved to transfer)
+   */
+  async canTransferName(label: string, caller: string): Promise<boolean> {
+    if (!this.supportsOperators) {
+      return (await this.getOwner(label)) === caller;
+    }
+    return decodeBool(await this.callReadOnly('can-transfer-name', [stringUtf8CV(label), principalCV(caller)]));
+  }
+
+  // ──────────────────────────────────────────────────────────────────────────
+  // COMMIT-REVEAL (v4+)
+  // ──────────────────────────────────────────────────────────────────────────
+
+  /**
+   * Block height a commitment was made at, or null if the committer has none
+   */
+  async getCommitment(committer: string, commitment: Uint8Array): Promise<bigint | null> {
+    this.requireCapability('commit-reveal', 'Commit-reveal registrations');
+    const cv = await this.callReadOnly('get-commitment', [principalCV(committer), bufferCV(commitment)]);
+    return decodeOptional(cv, (inner) => decodeUint(decodeTuple(inner)['created-at']));
+  }
+
+  /**
+   * Blocks after `commit-name` during which the commitment can be revealed
+   */
+  async getCommitmentAges(): Promise<CommitmentAges> {
+    this.requireCapability('commit-reveal', 'Commit-reveal registrations');
+    return decodeCommitmentAges(await this.callReadOnly('get-commitment-ages'));
+  }
+
+  // ──────────────────────────────────────────────────────────────────────────
+  // TRANSACTION OPTIONS (For use with @stacks/connect)
+  // ──────────────────────────────────────────────────────────────────────────
+
+  /**
+   * Get transaction options for registering a name for a number of years.
+   * The sender may spend at most the quoted registration fee, and the token of
+   * an expired registration of the label is burned.
+   */
+  async getRegisterNameOptions(label: string, sender: string, years = 1, options: TxBuildOptions = {}) {
+    const [fee, released] = await Promise.all([
+      this.getRegistrationFee(label, years),
+      this.releasedNameConditions([label]),
+    ]);
+    return this.contractCallOptions(
+      'register-name',
+      [stringUtf8CV(label), ...this.yearsArgs(years)],
+      [makeStandardSTXPostCondition(sender, FungibleConditionCode.LessEqual, fee), ...released],
+      options
+    );
+  }
+
+  /**
+   * Get transaction options for committing to a name (moves no STX).
+   * Build the commitment locally with makeCommitment so the label stays private.
+   */
+  getCommitNameOptions(commitment: Uint8Array, options: TxBuildOptions = {}) {
+    this.requireCapability('commit-reveal', 'Commit-reveal registrations');
+    return this.contractCallOptions('commit-name', [bufferCV(commitment)], [], options);
+  }
+
+  /**
+   * Get transaction options for revealing a committed name and registering it.
+   * The sender may spend at most the quoted registration fee, and the token of
+   * an expired registration of the label is burned.
+   */
+  async getRevealNameOptions(label: string, sender: string, salt: Uint8Array, years = 1, options: TxBuildOptions = {}) {
+    this.requireCapability('commit-reveal', 'Commit-reveal registrations');
+    const [fee, released] = await Promise.all([
+      this.getRegistrationFee(label, years),
+      this.releasedNameConditions([label]),
+    ]);
+    return this.contractCallOptions(
+      'reveal-name',
+      [stringUtf8CV(label), bufferCV(salt), ...this.yearsArgs(years)],
+      [makeStandardSTXPostCondition(sender, FungibleConditionCode.LessEqual, fee), ...released],
+      options
+    );
+  }
+
+  /**
+   * Get transaction options for renewing a name for a number of years.
+   * The sender may spend at most the quoted renewal fee.
+   */
+  async getRenewNameOptions(label: string, sender: string, years = 1, options: TxBuildOptions = {}) {
+    const renewFee = await this.getRenewalFee(years);
+    return this.contractCallOptions(
+      'renew-name',
+      [stringUtf8CV(label), ...this.yearsArgs(years)],
+      [makeStandardSTXPostCondition(sender, FungibleConditionCode.LessEqual, renewFee)],
+      options
+    );
+  }
+
+  /**
+   * Get transaction options for registering several names in one transaction.
+   * Labels that fail are skipped and not charged, so the sender may spend at
+   * most the quoted total; tokens of expired registrations are burned.
+   */
+  async getRegisterNamesOptions(labels: string[], sender: string, years = 1, options: TxBuildOptions = {}) {
+    const [quote, released] = await Promise.all([
+      this.getBatchRegistrationFee(labels, years),
+      this.releasedNameConditions(labels),
+    ]);
+    return this.contractCallOptions(
+      'register-names',
+      [this.labelsArg(labels), ...this.yearsArgs(years)],
+      [makeStandardSTXPostCondition(sender, FungibleConditionCode.LessEqual, quote.total), ...released],
+      options
+    );
+  }
+
+  /**
+   * Get transaction options for renewing several names in one transaction.
+   * The sender may spend at most the quoted total renewal fee.
+   */
+  async getRenewNamesOptions(labels: string[], sender: string, years = 1, options: TxBuildOptions = {}) {
+    const total = await this.getBatchRenewalFee(labels, years);
+    return this.contractCallOptions(
+      'renew-names',
+      [this.labelsArg(labels), ...this.yearsArgs(years)],
+      [makeStandardSTXPostCondition(sender, FungibleConditionCode.LessEqual, total)],
+      options
+    );
+  }
+
+  /**
+   * Get transaction options for transferring a name (moves no STX).
+   * On `sip-009` registrars the owner's name token moves with it.
+   */
+  async getTransferNameOptions(label: string, newOwner: string, options: TxBuildOptions = {}) {
+    const postConditions: PostCondition[] = [];
+    if (this.supportsTokens) {
+      const record = await this.getNameInfo(label);
+      if (!record) {
+        throw new BiudError(`${label}.sBTC is not registered`);
+      }
+      postConditions.push(this.ownerSendsName(record.owner, record.nameId));
+    }
+    return this.contractCallOptions('transfer-name', [stringUtf8CV(label), principalCV(newOwner)], postConditions, options);
+  }
+
+  /**
+   * Get transaction options for setting a resolver (moves no STX)
+   */
+  getSetResolverOptions(label: string, resolver: string, options: TxBuildOptions = {}) {
+    return this.contractCallOptions('set-resolver', [stringUtf8CV(label), principalCV(resolver)], [], options);
+  }
+
+  /**
+   * Get transaction options for making a name the sender's primary name
+   */
+  getSetPrimaryNameOptions(label: string, options: TxBuildOptions = {}) {
+    this.requireCapability('primary-names', 'Primary names');
+    return this.contractCallOptions('set-primary-name', [stringUtf8CV(label)], [], options);
+  }
+
+  /**
+   * Get transaction options for clearing the sender's primary name
+   */
+  getClearPrimaryNameOptions(options: TxBuildOptions = {}) {
+    this.requireCapability('primary-names', 'Primary names');
+    return this.contractCallOptions('clear-primary-name', [], [], options);
+  }
+
+  /**
+   * Get transaction options for approving an operator for one name (owner only).
+   * Operators manage the resolver and records; canTransfer also lets them transfer.
+   */
+  getSetNameOperatorOptions(label: string, operator: string, canTransfer: boolean, options: TxBuildOptions = {}) {
+    this.requireCapability('operators', 'Operators');
+    return this.contractCallOptions(
+      'set-name-operator',
+      [stringUtf8CV(label), principalCV(operator), boolCV(canTransfer)],
+      [],
+      options
+    );
+  }
+
+  /**
+   * Get transaction options for revoking an operator's approval for one name (owner only)
+   */
+  getRevokeNameOperatorOptions(label: string, operator: string, options: TxBuildOptions = {}) {
+    this.requireCapability('operators', 'Operators');
+    return this.contractCallOptions('revoke-name-operator', [stringUtf8CV(label), principalCV(operator)], [], options);
+  }
+
+  /**
+   * Get transaction options for approving an operator for every name the sender owns
+   */
+  getSetOwnerOperatorOptions(operator: string, canTransfer: boolean, options: TxBuildOptions = {}) {
+    this.requireCapability('operators', 'Operators');
+    return this.contractCallOptions('set-owner-operator', [principalCV(operator), boolCV(canTransfer)], [], options);
+  }
+
+  /**
+   * Get transaction options for revoking an owner-wide operator approval
+   */
+  getRevokeOwnerOperatorOptions(operator: string, options: TxBuildOptions = {}) {
+    this.requireCapability('operators', 'Operators');
+    return this.contractCallOptions('revoke-owner-operator', [principalCV(operator)], [], options);
+  }
+
+  /**
+   * Get transaction options for issuing a subname under a name the sender owns.
+   * The expiry must not be later than the parent's.
+   */
+  getCreateSubnameOptions(
+    parent: string,
+    label: string,
+    owner: string,
+    expiryHeight: bigint | number,
+    options: TxBuildOptions = {}
+  ) {
+    this.requireCapability('subnames', 'Subnames');
+    return this.contractCallOptions(
+      'create-subname',
+      [stringUtf8CV(parent), stringUtf8CV(label), principalCV(owner), uintCV(expiryHeight)],
+      [],
+      options
+    );
+  }
+
+  /**
+   * Get transaction options for revoking a subname (parent owner only)
+   */
+  getRevokeSubnameOptions(parent: string, label: string, options: TxBuildOptions = {}) {
+    this.requireCapability('subnames', 'Subnames');
+    return this.contractCallOptions('revoke-subname', [stringUtf8CV(parent), stringUtf8CV(label)], [], options);
+  }
+
+  /**
+   * Get transaction options for moving a subname's expiry (parent owner only)
+   */
+  getSetSubnameExpiryOptions(parent: string, label: string, expiryHeight: bigint | number, options: TxBuildOptions = {}) {
+    this.requireCapability('subnames', 'Subnames');
+    return this.contractCallOptions(
+      'set-subname-expiry',
+      [stringUtf8CV(parent), stringUtf8CV(label), uintCV(expiryHeight)],
+      [],
+      options
+    );
+  }
+
+  /**
+   * Get transaction options for transferring a subname (subname owner only)
+   */
+  getTransferSubnameOptions(parent: string, label: string, newOwner: string, options: TxBuildOptions = {}) {
+    this.requireCapability('subnames', 'Subnames');
+    return this.contractCallOptions(
+      'transfer-subname',
+      [stringUtf8CV(parent), stringUtf8CV(label), principalCV(newOwner)],
+      [],
+      options
+    );
+  }
+
+  /**
+   * Get transaction options for setting or clearing (null) a subname's resolver
+   */
+  getSetSubnameResolverOptions(parent: string, label: string, resolver: string | null, options: TxBuildOptions = {}) {
+    this.requireCapability('subnames', 'Subnames');
+    return this.contractCallOptions(
+      'set-subname-resolver',
+      [stringUtf8CV(parent), stringUtf8CV(label), resolver ? someCV(principalCV(resolver)) : noneCV()],
+      [],
+      options
+    );
   }
 }
 
 // ════════════════════════════════════════════════════════════════════════════
-// TRANSACTION OPTIONS (For use with @stacks/connect)
+// RESOLVERS
 // ════════════════════════════════════════════════════════════════════════════
 
+export interface BiudResolverConfig {
+  network: StacksNetwork;
+  contractAddress: string;
+  contractName: string;
+  /** Registrar contract the resolver reads ownership from */
+  registrar: string;
+  capabilities?: ResolverCapability[];
+}
+
 /**
- * Get transaction options for registering a name
+ * Typed client for a resolver deployment. Record writes move no STX, so the
+ * builders attach no post-conditions.
  */
-export function getRegisterNameOptions(label: string) {
-  return {
-    contractAddress: CONTRACT_ADDRESS,
-    contractName: CONTRACT_NAME,
-    functionName: 'register-name',
-    functionArgs: [stringUtf8CV(label)],
-    network: getNetwork(),
-    anchorMode: AnchorMode.Any,
-    postConditionMode: PostConditionMode.Allow,
-  };
+export class BiudResolver {
+  readonly network: StacksNetwork;
+  readonly contractAddress: string;
+  readonly contractName: string;
+  readonly registrar: string;
+  readonly capabilities: ReadonlySet<ResolverCapability>;
+
+  constructor(config: BiudResolverConfig) {
+    this.network = config.network;
+    this.contractAddress = config.contractAddress;
+    this.contractName = config.contractName;
+    this.registrar = config.registrar;
+    this.capabilities = new Set(config.capabilities ?? []);
+  }
+
+  /** Fully qualified contract identifier (`address.name`) */
+  get contractId(): string {
+    return `${this.contractAddress}.${this.contractName}`;
+  }
+
+  /** Check whether this resolver stores a record type */
+  hasCapability(capability: ResolverCapability): boolean {
+    return this.capabilities.has(capability);
+  }
+
+  private requireCapability(capability: ResolverCapability, feature: string): void {
+    if (!this.hasCapability(capability)) {
+      throw new BiudError(`${feature} are not supported by ${this.contractName}`);
+    }
+  }
+
+  // Call a read-only function, raising a typed error if it returns `(err uXXXX)`
+  private async callReadOnly(functionName: string, functionArgs: ClarityValue[] = []): Promise<ClarityValue> {
+    const result = await callReadOnlyFunction({
+      contractAddress: this.contractAddress,
+      contractName: this.contractName,
+      functionName,
+      functionArgs,
+      network: this.network,
+      senderAddress: this.contractAddress,
+    });
+    if (result.type === ClarityType.ResponseErr) {
+      throw errorFromClarityValue(result);
+    }
+    return result.type === ClarityType.ResponseOk ? result.value : result;
+  }
+
+  private contractCallOptions(functionName: string, functionArgs: ClarityValue[], options: TxBuildOptions) {
+    return {
+      contractAddress: this.contractAddress,
+      contractName: this.contractName,
+      functionName,
+      functionArgs,
+      network: this.network,
+      anchorMode: AnchorMode.Any,
+      postConditions: [] as PostCondition[],
+      postConditionMode: options.postConditionMode ?? PostConditionMode.Deny,
+    };
+  }
+
+  // Record keys are ASCII, at most MAX_TEXT_KEY_LENGTH characters
+  private keyArg(key: string): ClarityValue {
+    if (key.length === 0 || key.length > MAX_TEXT_KEY_LENGTH || !/^[\x20-\x7e]+$/.test(key)) {
+      throw new BiudError(`Record keys must be 1 to ${MAX_TEXT_KEY_LENGTH} printable ASCII characters`);
+    }
+    return stringAsciiCV(key);
+  }
+
+  private valueArg(value: string): ClarityValue {
+    if (Array.from(value).length > MAX_TEXT_VALUE_LENGTH) {
+      throw new BiudError(`Record values must be at most ${MAX_TEXT_VALUE_LENGTH} characters`);
+    }
+    return stringUtf8CV(value);
+  }
+
+  // ──────────────────────────────────────────────────────────────────────────
+  // TEXT RECORDS
+  // ──────────────────────────────────────────────────────────────────────────
+
+  /**
+   * Get one text record of a name, or null if the key is not set
+   */
+  async getText(label: string, key: string): Promise<string | null> {
+    this.requireCapability('text-records', 'Text records');
+    return decodeOptional(await this.callReadOnly('get-text', [stringUtf8CV(label), this.keyArg(key)]), decodeString);
+  }
+
+  /**
+   * Get every text record of a name, keyed by record key in the order the keys were first set
+   */
+  async getTextRecords(label: string): Promise<TextRecords> {
+    this.requireCapability('text-records', 'Text records');
+    const entries = decodeList(await this.callReadOnly('get-text-records', [stringUtf8CV(label)]), (cv) => {
+      const data = decodeTuple(cv);
+      return [decodeString(data.key), decodeString(data.value)] as const;
+    });
+    return Object.fromEntries(entries);
+  }
+
+  /**
+   * Get transaction options for setting one text record (an empty value clears it)
+   */
+  getSetTextOptions(label: string, key: string, value: string, options: TxBuildOptions = {}) {
+    this.requireCapability('text-records', 'Text records');
+    return this.contractCallOptions('set-text', [stringUtf8CV(label), this.keyArg(key), this.valueArg(value)], options);
+  }
+
+  /**
+   * Get transaction options for setting several text records at once.
+   * A null or empty value clears its key; the call applies all records or none.
+   */
+  getSetTextsOptions(label: string, records: Record<string, string | null>, options: TxBuildOptions = {}) {
+    this.requireCapability('text-records', 'Text records');
+    const entries = Object.entries(records);
+    if (entries.length === 0 || entries.length > MAX_TEXT_RECORDS) {
+      throw new BiudError(`Set 1 to ${MAX_TEXT_RECORDS} text records at a time`);
+    }
+    const list = listCV(
+      entries.map(([key, value]) => tupleCV({ key: this.keyArg(key), value: this.valueArg(value ?? '') }))
+    );
+    return this.contractCallOptions('set-texts', [stringUtf8CV(label), list], options);
+  }
+
+  /**
+   * Get transaction options for clearing one text record
+   */
+  getClearTextOptions(label: string, key: string, options: TxBuildOptions = {}) {
+    this.requireCapability('text-records', 'Text records');
+    return this.contractCallOptions('clear-text', [stringUtf8CV(label), this.keyArg(key)], options);
+  }
+
+  // ──────────────────────────────────────────────────────────────────────────
+  // MULTI-COIN ADDRESSES
+  // ──────────────────────────────────────────────────────────────────────────
+
+  /**
+   * Get the stored address of one coin type, or null if it is not set.
+   * Decode it with `decodeAddress` from services/addresses.ts.
+   */
+  async getAddress(label: string, coinType: number): Promise<Uint8Array | null> {
+    this.requireCapability('multi-coin', 'Multi-coin addresses');
+    return decodeOptional(await this.callReadOnly('get-addr', [stringUtf8CV(label), uintCV(coinType)]), decodeBuffer);
+  }
+
+  /**
+   * Get every stored address of a name, in the order the coin types were first set
+   */
+  async getAddresses(label: string): Promise<CoinAddress[]> {
+    this.requireCapability('multi-coin', 'Multi-coin addresses');
+    return decodeList(await this.callReadOnly('get-addrs', [stringUtf8CV(label)]), (cv) => {
+      const data = decodeTuple(cv);
+      return { coinType: Number(decodeUint(data['coin-type'])), bytes: decodeBuffer(data.address) };
+    });
+  }
+
+  /**
+   * Get transaction options for setting the address of one coin type.
+   * Encode it with `encodeAddress` from services/addresses.ts.
+   */
+  getSetAddressOptions(label: string, coinType: number, bytes: Uint8Array, options: TxBuildOptions = {}) {
+    this.requireCapability('multi-coin', 'Multi-coin addresses');
+    return this.contractCallOptions('set-addr', [stringUtf8CV(label), uintCV(coinType), bufferCV(bytes)], options);
+  }
+
+  /**
+   * Get transaction options for setting several addresses at once.
+   * An empty address clears its coin type; the call applies all records or none.
+   */
+  getSetAddressesOptions(label: string, addresses: CoinAddress[], options: TxBuildOptions = {}) {
+    this.requireCapability('multi-coin', 'Multi-coin addresses');
+    if (addresses.length === 0 || addresses.length > MAX_COIN_ADDRESSES) {
+      throw new BiudError(`Set 1 to ${MAX_COIN_ADDRESSES} addresses at a time`);
+    }
+    const list = listCV(
+      addresses.map(({ coinType, bytes }) => tupleCV({ 'coin-type': uintCV(coinType), address: bufferCV(bytes) }))
+    );
+    return this.contractCallOptions('set-addrs', [stringUtf8CV(label), list], options);
+  }
+
+  /**
+   * Get transaction options for clearing the address of one coin type
+   */
+  getClearAddressOptions(label: string, coinType: number, options: TxBuildOptions = {}) {
+    this.requireCapability('multi-coin', 'Multi-coin addresses');
+    return this.contractCallOptions('clear-addr', [stringUtf8CV(label), uintCV(coinType)], options);
+  }
+
+  /**
+   * Get transaction options for clearing every record of a name
+   */
+  getClearRecordsOptions(label: string, options: TxBuildOptions = {}) {
+    return this.contractCallOptions('clear-records', [stringUtf8CV(label)], options);
+  }
+
+  // ──────────────────────────────────────────────────────────────────────────
+  // REVERSE LOOKUP
+  // ──────────────────────────────────────────────────────────────────────────
+
+  /**
+   * Get the verified display name of an address (e.g. "alice.sBTC"), or null to show the address.
+   * The primary name must be owned by the address, unexpired, and resolve forward to the address.
+   */
+  async lookupAddress(address: string): Promise<string | null> {
+    this.requireCapability('reverse-lookup', 'Reverse lookups');
+    return decodeOptional(await this.callReadOnly('lookup-address', [principalCV(address)]), decodeString);
+  }
+}
+
+// ════════════════════════════════════════════════════════════════════════════
+// REGISTRY
+// ════════════════════════════════════════════════════════════════════════════
+
+/** A name record together with the registrar contract that holds it */
+export interface LocatedName {
+  record: NameRecord;
+  client: BiudClient;
 }
 
 /**
- * Get transaction options for renewing a name
+ * Every registrar deployed on one network. Routes each call to the contract that
+ * holds the name or provides the feature, so names registered on older versions
+ * keep working while new registrations go to the latest one.
  */
-export function getRenewNameOptions(label: string) {
-  return {
-    contractAddress: CONTRACT_ADDRESS,
-    contractName: CONTRACT_NAME,
-    functionName: 'renew-name',
-    functionArgs: [stringUtf8CV(label)],
-    network: getNetwork(),
-    anchorMode: AnchorMode.Any,
-    postConditionMode: PostConditionMode.Allow,
-  };
+export class BiudRegistry {
+  readonly network: StacksNetwork;
+  /** One client per registrar, newest first */
+  readonly clients: BiudClient[];
+  /** One client per resolver, newest first */
+  readonly resolvers: BiudResolver[];
+
+  constructor(network: StacksNetwork | BiudNetworkName, deployment: NetworkDeployment) {
+    this.network = typeof network === 'string' ? createNetwork(network) : network;
+    this.clients = deployment.registrars
+      .map((registrar) => new BiudClient({
+        network: this.network,
+        contractAddress: deployment.address,
+        contractName: registrar.contractName,
+        capabilities: registrar.capabilities,
+      }))
+      .reverse();
+    this.resolvers = deployment.resolvers
+      .map((resolver) => new BiudResolver({
+        network: this.network,
+        contractAddress: deployment.address,
+        contractName: resolver.contractName,
+        registrar: resolver.registrar,
+        capabilities: resolver.capabilities,
+      }))
+      .reverse();
+  }
+
+  /** Registry for a network recorded in deployments.json */
+  static forNetwork(name: string): BiudRegistry {
+    return new BiudRegistry(createNetwork(name), getDeployment(name) ?? { address: '', registrars: [], resolvers: [], marketplaces: [] });
+  }
+
+  /** Registrar that takes new registrations */
+  get latest(): BiudClient {
+    if (this.clients.length === 0) {
+      throw new BiudError('No BiUD registrar is deployed on this network');
+    }
+    return this.clients[0];
+  }
+
+  /** Newest registrar providing a capability, or null if none does */
+  clientFor(capability: BiudCapability): BiudClient | null {
+    return this.clients.find((client) => client.hasCapability(capability)) ?? null;
+  }
+
+  /**
+   * Newest resolver storing a record type, optionally only one that reads
+   * ownership from a given registrar; null if none does
+   */
+  resolverFor(capability: ResolverCapability, registrar?: BiudClient): BiudResolver | null {
+    return (
+      this.resolvers.find(
+        (resolver) => resolver.hasCapability(capability) && (!registrar || resolver.registrar === registrar.contractName)
+      ) ?? null
+    );
+  }
+
+  /**
+   * Find the registrar holding a name. Live registrations win over expired
+   * ones, then newer contracts over older ones.
+   */
+  async locateName(label: string): Promise<LocatedName | null> {
+    const found = await Promise.all(
+      this.clients.map(async (client) => {
+        const record = await client.getNameInfo(label);
+        return record ? { record, client, live: !(await client.isNameAvailable(label)) } : null;
+      })
+    );
+    const located = found.filter((entry): entry is LocatedName & { live: boolean } => entry !== null);
+    const match = located.find((entry) => entry.live) ?? located[0];
+    return match ? { record: match.record, client: match.client } : null;
+  }
+
+  /** Registrar that manages a name, falling back to the latest for unregistered names */
+  async clientForName(label: string): Promise<BiudClient> {
+    return (await this.locateName(label))?.client ?? this.latest;
+  }
+
+  /**
+   * A name is only available if no registrar holds a live registration for it
+   */
+  async isNameAvailable(label: string): Promise<boolean> {
+    const results = await Promise.all(this.clients.map((client) => client.isNameAvailable(label)));
+    return results.every(Boolean);
+  }
+
+  /**
+   * Get every name owned by a principal across all registrars, newest contract first
+   */
+  async getOwnedNames(owner: string): Promise<LocatedName[]> {
+    const perClient = await Promise.all(
+      this.clients.map(async (client) =>
+        (await client.getOwnedNames(owner)).map((record) => ({ record, client }))
+      )
+    );
+    return perClient.flat();
+  }
+
+  /**
+   * Primary name from the newest registrar that supports them,
+   * or the first owned name when none does
+   */
+  async getPrimaryName(address: string): Promise<PrimaryName | null> {
+    return (this.clientFor('primary-names') ?? this.latest).getPrimaryName(address);
+  }
+
+  /**
+   * Name that explorers and wallets can safely show for an address, or null to show the address.
+   * Uses a resolver that also checks forward resolution when one is deployed, otherwise the
+   * registrar's reverse resolution, which checks ownership and expiry. Older registrars have
+   * no verified reverse resolution, so their names are never returned.
+   */
+  async lookupAddress(address: string): Promise<string | null> {
+    const registrar = this.clientFor('reverse-resolution');
+    if (!registrar) {
+      return null;
+    }
+    const resolver = this.resolverFor('reverse-lookup', registrar);
+    return resolver ? resolver.lookupAddress(address) : registrar.resolveAddress(address);
+  }
 }
 
 /**
- * Get transaction options for transferring a name
+ * Registrars for the network this app is configured for
+ * (network from NEXT_PUBLIC_NETWORK, defaults to mainnet)
  */
-export function getTransferNameOptions(label: string, newOwner: string) {
-  return {
-    contractAddress: CONTRACT_ADDRESS,
-    contractName: CONTRACT_NAME,
-    functionName: 'transfer-name',
-    functionArgs: [stringUtf8CV(label), principalCV(newOwner)],
-    network: getNetwork(),
-    anchorMode: AnchorMode.Any,
-    postConditionMode: PostConditionMode.Allow,
-  };
+export const registry = BiudRegistry.forNetwork(NETWORK_NAME);
+
+// ════════════════════════════════════════════════════════════════════════════
+// UTILITY FUNCTIONS
+// ════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Format STX amount from microSTX
+ */
+export function formatSTX(microSTX: number | bigint): string {
+  return (Number(microSTX) / 1_000_000).toFixed(6);
 }
 
 /**
- * Get transaction options for setting a resolver
+ * Parse an STX amount typed by the user into microSTX, null if it is not a positive amount
  */
-export function getSetResolverOptions(label: string, resolver: string) {
+export function parseSTX(amount: string): bigint | null {
+  const match = /^(\d+)(?:\.(\d{1,6}))?$/.exec(amount.trim());
+  if (!match) return null;
+  const microSTX = BigInt(match[1]) * BigInt(1_000_000) + BigInt((match[2] ?? '').padEnd(6, '0'));
+  return microSTX > BigInt(0) ? microSTX : null;
+}
+
+/**
+ * HTTP URL for a token URI, going through a public gateway for ipfs:// URIs
+ */
+export function resolveTokenUri(uri: string): string {
+  return uri.startsWith('ipfs://') ? `https://ipfs.io/ipfs/${uri.slice('ipfs://'.length)}` : uri;
+}
+
+/**
+ * SIP-016 metadata for a name token, as served behind `get-token-uri`
+ */
+export function buildTokenMetadata(record: NameRecord, image?: string): TokenMetadata {
   return {
-    contractAddress: CONTRACT_ADDRESS,
-    contractName: CONTRACT_NAME,
-    functionName: 'set-resolver',
-    functionArgs: [stringUtf8CV(label), principalCV(resolver)],
-    network: getNetwork(),
-    anchorMode: AnchorMode.Any,
-    postConditionMode: PostConditionMode.Allow,
+    sip: 16,
+    name: record.fullName,
+    description: `${record.fullName}, a BiUD username on Stacks`,
+    ...(image ? { image } : {}),
+    attributes: [
+      { trait_type: 'Length', value: record.label.length },
+      { trait_type: 'Premium', value: record.isPremium ? 'Yes' : 'No' },
+      { trait_type: 'Created', value: Number(record.createdAt), display_type: 'number' },
+      { trait_type: 'Expires', value: Number(record.expiryHeight), display_type: 'number' },
+    ],
   };
 }
 
-// ════════════════════════════════════════════════════════════════════════════
-// UTILITY FUNCTIONS
-// ════════════════════════════════════════════════════════════════════════════
+/**
+ * Random 32-byte salt for a commit-reveal registration
+ */
+export function generateSalt(): Uint8Array {
+  return globalThis.crypto.getRandomValues(new Uint8Array(32));
+}
 
 /**
- * Format STX amount from microSTX
+ * Commitment hash for `commit-name`, matching the registrar's `make-commitment`:
+ * sha256 of the serialized {label, owner, salt} tuple. Computed locally so the
+ * label is not disclosed before the reveal.
  */
-export function formatSTX(microSTX: number): string {
-  return (microSTX / 1_000_000).toFixed(6);
+export async function makeCommitment(label: string, owner: string, salt: Uint8Array): Promise<Uint8Array> {
+  const preimage = serializeCV(tupleCV({
+    label: stringUtf8CV(label),
+    owner: principalCV(owner),
+    salt: bufferCV(salt),
+  }));
+  // Copy into a plain ArrayBuffer-backed view, which is what subtle.digest accepts
+  return new Uint8Array(await globalThis.crypto.subtle.digest('SHA-256', new Uint8Array(preimage)));
 }
 
 /**
@@ -322,20 +1683,20 @@ export function validateLabel(label: string): { valid: boolean; error?: string }
   if (!label || label.length === 0) {
     return { valid: false, error: 'Label cannot be empty' };
   }
-  
+
   if (label.length > 32) {
     return { valid: false, error: 'Label cannot exceed 32 characters' };
   }
-  
+
   const validPattern = /^[a-z0-9-]+$/;
   if (!validPattern.test(label)) {
     return { valid: false, error: 'Label can only contain lowercase letters, numbers, and hyphens' };
   }
-  
+
   if (label.startsWith('-') || label.endsWith('-')) {
     return { valid: false, error: 'Label cannot start or end with a hyphen' };
   }
-  
+
   return { valid: true };
 }
 
@@ -349,17 +1710,17 @@ export function getFullName(label: string): string {
 /**
  * Estimate blocks until expiry
  */
-export function estimateTimeUntilExpiry(currentBlock: number, expiryBlock: number): string {
-  const blocksRemaining = expiryBlock - currentBlock;
-  
+export function estimateTimeUntilExpiry(currentBlock: number | bigint, expiryBlock: number | bigint): string {
+  const blocksRemaining = Number(expiryBlock) - Number(currentBlock);
+
   if (blocksRemaining <= 0) {
     return 'Expired';
   }
-  
+
   // Approximate 10 minutes per block
   const minutesRemaining = blocksRemaining * 10;
   const daysRemaining = Math.floor(minutesRemaining / 60 / 24);
-  
+
   if (daysRemaining > 365) {
     return `~${Math.floor(daysRemaining / 365)} years`;
   } else if (daysRemaining > 30) {
@@ -0,0 +1,125 @@
+/**
+ * BiUD Frontend - Chain Tip Service
+ * Fetches and periodically refreshes the current Stacks and Bitcoin block heights
+ */
+
+import { registry, BiudError } from './biud';
+
+// Default delay between refreshes of the chain tip (ms)
+const DEFAULT_REFRESH_INTERVAL = 60_000;
+
+// ════════════════════════════════════════════════════════════════════════════
+// TYPES
+// ════════════════════════════════════════════════════════════════════════════
+
+export interface ChainTip {
+  stacksHeight: number;
+  burnHeight: number;
+  /**
+   * Height seen by `block-height` in the registrar contract. Clarity 2 contracts
+   * observe the tenure height after Nakamoto, the Stacks tip height before it.
+   */
+  contractHeight: number;
+  updatedAt: number;
+}
+
+export interface ChainTipServiceConfig {
+  /** Base URL of a Stacks node API (e.g. `network.coreApiUrl`) */
+  apiUrl: string;
+  refreshInterval?: number;
+}
+
+export type ChainTipListener = (tip: ChainTip) => void;
+
+// Subset of the `/v2/info` response that the service reads
+interface NodeInfoResponse {
+  stacks_tip_height: number;
+  burn_block_height: number;
+  tenure_height?: number;
+}
+
+// ════════════════════════════════════════════════════════════════════════════
+// SERVICE
+// ════════════════════════════════════════════════════════════════════════════
+
+export class ChainTipService {
+  private readonly apiUrl: string;
+  private readonly refreshInterval: number;
+  private tip: ChainTip | null = null;
+  private listeners = new Set<ChainTipListener>();
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(config: ChainTipServiceConfig) {
+    this.apiUrl = config.apiUrl.replace(/\/$/, '');
+    this.refreshInterval = config.refreshInterval ?? DEFAULT_REFRESH_INTERVAL;
+  }
+
+  /** Last fetched chain tip, or null before the first refresh */
+  current(): ChainTip | null {
+    return this.tip;
+  }
+
+  subscribe(listener: ChainTipListener): () => void {
+    this.listeners.add(listener);
+    if (this.tip) {
+      listener(this.tip);
+    }
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Fetch the chain tip from the node and notify subscribers if it moved
+   */
+  async refresh(): Promise<ChainTip> {
+    const response = await fetch(`${this.apiUrl}/v2/info`);
+    if (!response.ok) {
+      throw new BiudError(`Failed to fetch chain tip (HTTP ${response.status})`);
+    }
+
+    const info = (await response.json()) as NodeInfoResponse;
+    const tip: ChainTip = {
+      stacksHeight: info.stacks_tip_height,
+      burnHeight: info.burn_block_height,
+      contractHeight: info.tenure_height ?? info.stacks_tip_height,
+      updatedAt: Date.now(),
+    };
+    const moved = !this.tip || this.tip.stacksHeight !== tip.stacksHeight || this.tip.burnHeight !== tip.burnHeight;
+    this.tip = tip;
+    if (moved) {
+      this.listeners.forEach((listener) => listener(tip));
+    }
+    return tip;
+  }
+
+  /**
+   * Refresh on an interval until stop() is called
+   */
+  start(): void {
+    if (this.timer) return;
+    const tick = async () => {
+      try {
+        await this.refresh();
+      } catch (error) {
+        console.error('Error refreshing chain tip:', error);
+      }
+      if (this.timer) {
+        this.timer = setTimeout(tick, this.refreshInterval);
+      }
+    };
+    this.timer = setTimeout(tick, 0);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+}
+
+/**
+ * Shared chain tip feed for the network this app is configured for
+ */
+export const chainTip = new ChainTipService({ apiUrl: registry.network.coreApiUrl });
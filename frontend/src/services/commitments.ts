@@ -0,0 +1,156 @@
+/**
+ * BiUD Frontend - Commitment Store
+ * Keeps the salts of commit-reveal registrations until their reveal is mined
+ */
+
+import { BiudClient, generateSalt, makeCommitment } from './biud';
+
+// localStorage key holding commitments that have not been revealed yet
+const STORAGE_KEY = 'biud-commitments';
+
+// ════════════════════════════════════════════════════════════════════════════
+// TYPES
+// ════════════════════════════════════════════════════════════════════════════
+
+/**
+ * A name committed to with `commit-name` and not yet registered. Losing the
+ * salt makes the commitment unrevealable, so it is persisted until the reveal
+ * transaction confirms.
+ */
+export interface PendingCommitment {
+  label: string;
+  /** Committer, and owner of the name once revealed */
+  owner: string;
+  years: number;
+  /** Registrar the commitment was made on */
+  contractName: string;
+  saltHex: string;
+  /** Commitment hash, also the key of the entry */
+  commitmentHex: string;
+  commitTxId: string | null;
+  revealTxId: string | null;
+  createdAt: number;
+}
+
+export interface CommitmentStoreConfig {
+  /** Where to persist commitments; defaults to localStorage in the browser */
+  storage?: Storage | null;
+}
+
+export type CommitmentListener = (commitments: PendingCommitment[]) => void;
+
+// ════════════════════════════════════════════════════════════════════════════
+// HELPERS
+// ════════════════════════════════════════════════════════════════════════════
+
+const bytesToHex = (bytes: Uint8Array): string =>
+  Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+
+const hexToBytes = (hex: string): Uint8Array =>
+  new Uint8Array((hex.match(/.{2}/g) ?? []).map((byte) => parseInt(byte, 16)));
+
+/** Salt to pass to `reveal-name` */
+export const commitmentSalt = (commitment: PendingCommitment): Uint8Array => hexToBytes(commitment.saltHex);
+
+/** Hash that was passed to `commit-name` */
+export const commitmentHash = (commitment: PendingCommitment): Uint8Array => hexToBytes(commitment.commitmentHex);
+
+// ════════════════════════════════════════════════════════════════════════════
+// STORE
+// ════════════════════════════════════════════════════════════════════════════
+
+export class CommitmentStore {
+  private readonly storage: Storage | null;
+  private commitments = new Map<string, PendingCommitment>();
+  private listeners = new Set<CommitmentListener>();
+
+  constructor(config: CommitmentStoreConfig = {}) {
+    this.storage = config.storage !== undefined
+      ? config.storage
+      : typeof window !== 'undefined' ? window.localStorage : null;
+    this.load();
+  }
+
+  /**
+   * Generate a salt and commitment for a label and persist them before the
+   * commit transaction is submitted
+   */
+  async create(client: BiudClient, label: string, owner: string, years: number): Promise<PendingCommitment> {
+    const salt = generateSalt();
+    const commitment: PendingCommitment = {
+      label,
+      owner,
+      years,
+      contractName: client.contractName,
+      saltHex: bytesToHex(salt),
+      commitmentHex: bytesToHex(await makeCommitment(label, owner, salt)),
+      commitTxId: null,
+      revealTxId: null,
+      createdAt: Date.now(),
+    };
+    this.commitments.set(commitment.commitmentHex, commitment);
+    this.changed();
+    return commitment;
+  }
+
+  get(commitmentHex: string): PendingCommitment | null {
+    return this.commitments.get(commitmentHex) ?? null;
+  }
+
+  /** Commitments made by an owner, or all of them, oldest first */
+  list(owner?: string): PendingCommitment[] {
+    return Array.from(this.commitments.values())
+      .filter((commitment) => !owner || commitment.owner === owner)
+      .sort((a, b) => a.createdAt - b.createdAt);
+  }
+
+  update(commitmentHex: string, changes: Partial<Pick<PendingCommitment, 'commitTxId' | 'revealTxId'>>): void {
+    const commitment = this.commitments.get(commitmentHex);
+    if (!commitment) return;
+    this.commitments.set(commitmentHex, { ...commitment, ...changes });
+    this.changed();
+  }
+
+  remove(commitmentHex: string): void {
+    if (this.commitments.delete(commitmentHex)) {
+      this.changed();
+    }
+  }
+
+  subscribe(listener: CommitmentListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private changed(): void {
+    this.save();
+    const snapshot = this.list();
+    this.listeners.forEach((listener) => listener(snapshot));
+  }
+
+  private load(): void {
+    if (!this.storage) return;
+    try {
+      const stored = JSON.parse(this.storage.getItem(STORAGE_KEY) || '[]') as PendingCommitment[];
+      stored.forEach((commitment) => this.commitments.set(commitment.commitmentHex, commitment));
+    } catch (e) {
+      // Ignore corrupted storage, start with an empty list
+    }
+  }
+
+  private save(): void {
+    if (!this.storage) return;
+    try {
+      this.storage.setItem(STORAGE_KEY, JSON.stringify(this.list()));
+    } catch (e) {
+      // Ignore storage quota errors
+    }
+  }
+}
+
+/**
+ * Shared store backed by this browser's localStorage
+ */
+export const commitmentStore = new CommitmentStore();
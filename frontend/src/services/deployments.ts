@@ -0,0 +1,86 @@
+/**
+ * BiUD Frontend - Deployment Manifest
+ * Which registrar, resolver and marketplace contracts are deployed on each network, and what they support
+ */
+
+import manifest from './deployments.json';
+
+// ════════════════════════════════════════════════════════════════════════════
+// TYPES
+// ════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Features that only some registrar versions provide
+ * - primary-names: get-primary-name / set-primary-name / clear-primary-name
+ * - reverse-resolution: resolve-address
+ * - subnames: create-subname / revoke-subname / get-subname and friends
+ * - multi-year: register-name / renew-name take a number of years
+ * - commit-reveal: commit-name / reveal-name two-step registration
+ * - release-auction: released names carry a decaying premium (get-release-auction)
+ * - sip-009: names are SIP-009 tokens; get-owner takes a token ID, get-name-owner a label
+ * - operators: set-name-operator / set-owner-operator delegate name management
+ * - batch: register-names / renew-names handle several labels in one transaction
+ * - owner-index: owned names have no cap and are paged with get-owner-names
+ */
+export type BiudCapability =
+  | 'primary-names'
+  | 'reverse-resolution'
+  | 'subnames'
+  | 'multi-year'
+  | 'commit-reveal'
+  | 'release-auction'
+  | 'sip-009'
+  | 'operators'
+  | 'batch'
+  | 'owner-index';
+
+/**
+ * Record types a resolver stores
+ * - address-records: set-stx-address / set-btc-address / set-custom-data
+ * - text-records: set-text / set-texts / get-text-records for arbitrary string keys
+ * - multi-coin: set-addr / set-addrs / get-addrs for addresses keyed by SLIP-44 coin type
+ * - reverse-lookup: lookup-address returns a primary name only if it resolves forward to the address
+ */
+export type ResolverCapability = 'address-records' | 'text-records' | 'multi-coin' | 'reverse-lookup';
+
+export interface RegistrarDeployment {
+  contractName: string;
+  version: number;
+  /** Clarity source the contract was deployed from */
+  source: string;
+  capabilities: BiudCapability[];
+}
+
+export interface ResolverDeployment {
+  contractName: string;
+  /** Registrar contract the resolver reads ownership from */
+  registrar: string;
+  source: string;
+  capabilities: ResolverCapability[];
+}
+
+export interface MarketplaceDeployment {
+  contractName: string;
+  /** Registrar whose names the marketplace trades */
+  registrar: string;
+  source: string;
+}
+
+export interface NetworkDeployment {
+  address: string;
+  /** Registrars in deployment order, oldest first */
+  registrars: RegistrarDeployment[];
+  /** Resolvers in deployment order, oldest first */
+  resolvers: ResolverDeployment[];
+  /** Marketplaces in deployment order, oldest first */
+  marketplaces: MarketplaceDeployment[];
+}
+
+const deployments = manifest as Record<string, NetworkDeployment>;
+
+/**
+ * Deployment recorded for a network, or null if BiUD is not deployed there
+ */
+export function getDeployment(network: string): NetworkDeployment | null {
+  return deployments[network] ?? null;
+}
@@ -0,0 +1,145 @@
+/**
+ * BiUD Frontend - Indexer Service
+ * Reads names and their history from the BiUD event indexer (see indexer/) instead of one read-only call per name
+ */
+
+import { registry, BiudError, BiudRegistry, LocatedName } from './biud';
+
+// Indexer HTTP API; without it every lookup goes to the contracts
+const INDEXER_URL = process.env.NEXT_PUBLIC_INDEXER_URL || '';
+
+// Largest page the indexer serves
+const PAGE_SIZE = 100;
+
+// ════════════════════════════════════════════════════════════════════════════
+// TYPES
+// ════════════════════════════════════════════════════════════════════════════
+
+/** Name record as served by the indexer, with numbers for heights and IDs */
+interface IndexedName {
+  contractId: string;
+  label: string;
+  fullName: string;
+  owner: string;
+  resolver: string | null;
+  expiryHeight: number;
+  isPremium: boolean;
+  nameId: number;
+  createdAt: number;
+  lastRenewed: number;
+}
+
+interface Page<T> {
+  total: number;
+  items: T[];
+}
+
+/** A contract event concerning a name, e.g. `NameRegistered` or `NameSold` */
+export interface NameEvent {
+  blockHeight: number;
+  txId: string;
+  contractId: string;
+  /** `event` field of the print, e.g. "NameTransferred" */
+  name: string;
+  label: string | null;
+  /** Printed fields: integers as decimal strings, buffers as 0x hex, none as null */
+  data: Record<string, unknown>;
+}
+
+// ════════════════════════════════════════════════════════════════════════════
+// CLIENT
+// ════════════════════════════════════════════════════════════════════════════
+
+export class IndexerClient {
+  private readonly baseUrl: string;
+  private readonly registry: BiudRegistry;
+
+  constructor(baseUrl: string, biudRegistry: BiudRegistry = registry) {
+    this.baseUrl = baseUrl.replace(/\/$/, '');
+    this.registry = biudRegistry;
+  }
+
+  private async get<T>(path: string): Promise<T> {
+    const response = await fetch(`${this.baseUrl}${path}`);
+    if (!response.ok) {
+      throw new BiudError(`Failed to query the indexer (HTTP ${response.status})`);
+    }
+    return (await response.json()) as T;
+  }
+
+  // Indexed records on the registrars this app knows, with the client for each
+  private locate(names: IndexedName[]): LocatedName[] {
+    return names.flatMap((name) => {
+      const client = this.registry.clients.find((candidate) => candidate.contractId === name.contractId);
+      return client
+        ? [{
+            client,
+            record: {
+              label: name.label,
+              fullName: name.fullName,
+              owner: name.owner,
+              expiryHeight: BigInt(name.expiryHeight),
+              resolver: name.resolver,
+              isPremium: name.isPremium,
+              nameId: BigInt(name.nameId),
+              createdAt: BigInt(name.createdAt),
+              lastRenewed: BigInt(name.lastRenewed),
+            },
+          }]
+        : [];
+    });
+  }
+
+  /**
+   * Every name held by an owner across registrars, oldest registration first
+   */
+  async getOwnedNames(owner: string): Promise<LocatedName[]> {
+    const names: IndexedName[] = [];
+    for (let offset = 0; ; offset += PAGE_SIZE) {
+      const page = await this.get<Page<IndexedName>>(
+        `/owners/${encodeURIComponent(owner)}/names?offset=${offset}&limit=${PAGE_SIZE}`
+      );
+      names.push(...page.items);
+      if (offset + PAGE_SIZE >= page.total) break;
+    }
+    return this.locate(names);
+  }
+
+  /**
+   * Names expiring at heights from..to-1 (as seen by `block-height`), soonest first
+   */
+  async getExpiringNames(from: number, to: number, offset = 0, limit = PAGE_SIZE): Promise<{ total: number; names: LocatedName[] }> {
+    const page = await this.get<Page<IndexedName>>(`/expiring?from=${from}&to=${to}&offset=${offset}&limit=${limit}`);
+    return { total: page.total, names: this.locate(page.items) };
+  }
+
+  /**
+   * Events concerning a name on any BiUD contract, newest first
+   */
+  async getHistory(label: string, offset = 0, limit = PAGE_SIZE): Promise<{ total: number; events: NameEvent[] }> {
+    const page = await this.get<Page<NameEvent>>(
+      `/names/${encodeURIComponent(label)}/history?offset=${offset}&limit=${limit}`
+    );
+    return { total: page.total, events: page.items };
+  }
+}
+
+/**
+ * Indexer for this app (NEXT_PUBLIC_INDEXER_URL), or null if none is configured
+ */
+export const indexer = INDEXER_URL ? new IndexerClient(INDEXER_URL) : null;
+
+/**
+ * Names held by an owner: one indexer query when an indexer is configured,
+ * falling back to reading every registrar when it is not or cannot be reached
+ */
+export async function getOwnedNames(owner: string): Promise<LocatedName[]> {
+  if (indexer) {
+    try {
+      return await indexer.getOwnedNames(owner);
+    } catch (error) {
+      console.error('Error querying the indexer, reading the registrars instead:', error);
+    }
+  }
+  return registry.getOwnedNames(owner);
+}
@@ -0,0 +1,381 @@
+/**
+ * BiUD Frontend - Marketplace Service
+ * Typed bindings for the name marketplace (listings, offers and royalties)
+ */
+
+import {
+  callReadOnlyFunction,
+  AnchorMode,
+  PostConditionMode,
+  PostCondition,
+  FungibleConditionCode,
+  NonFungibleConditionCode,
+  makeStandardSTXPostCondition,
+  makeContractSTXPostCondition,
+  makeStandardNonFungiblePostCondition,
+  makeContractNonFungiblePostCondition,
+  createAssetInfo,
+  ClarityType,
+  ClarityValue,
+  stringUtf8CV,
+  principalCV,
+  uintCV,
+} from '@stacks/transactions';
+import { StacksNetwork } from '@stacks/network';
+import {
+  BiudClient,
+  BiudRegistry,
+  BiudError,
+  TxBuildOptions,
+  errorFromClarityValue,
+  registry,
+  decodeUint,
+  decodeBool,
+  decodePrincipal,
+  decodeOptional,
+  decodeTuple,
+  decodeList,
+  NAME_ASSET,
+} from './biud';
+import { getDeployment } from './deployments';
+
+// Network configuration (same variable the registry is built from)
+const NETWORK_NAME = process.env.NEXT_PUBLIC_NETWORK || 'mainnet';
+
+// ════════════════════════════════════════════════════════════════════════════
+// TYPES
+// ════════════════════════════════════════════════════════════════════════════
+
+export interface BiudMarketplaceConfig {
+  contractAddress: string;
+  contractName: string;
+  /** Registrar whose names are traded; also provides the network */
+  registrar: BiudClient;
+}
+
+/** Listing as returned by `get-listing` */
+export interface MarketplaceListing {
+  label: string;
+  seller: string;
+  price: bigint;
+  /** Registration the listing escrowed */
+  nameId: bigint;
+  listedAt: bigint;
+  /** False once the escrowed registration was released; only cancel-listing still works */
+  active: boolean;
+}
+
+/** Escrowed offer as returned by `get-offer` */
+export interface MarketplaceOffer {
+  label: string;
+  bidder: string;
+  amount: bigint;
+  createdAt: bigint;
+}
+
+// ════════════════════════════════════════════════════════════════════════════
+// CLIENT
+// ════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Typed client for a marketplace deployment. Listed names are escrowed in the
+ * contract, so every builder attaches post-conditions for the name token and
+ * STX it moves.
+ */
+export class BiudMarketplace {
+  readonly network: StacksNetwork;
+  readonly contractAddress: string;
+  readonly contractName: string;
+  readonly registrar: BiudClient;
+
+  constructor(config: BiudMarketplaceConfig) {
+    this.network = config.registrar.network;
+    this.contractAddress = config.contractAddress;
+    this.contractName = config.contractName;
+    this.registrar = config.registrar;
+  }
+
+  /**
+   * Marketplace recorded in deployments.json for a network, or null if none is
+   * deployed there (or its registrar is missing from the registry)
+   */
+  static forNetwork(name: string, names: BiudRegistry): BiudMarketplace | null {
+    const deployment = getDeployment(name);
+    const entry = deployment?.marketplaces[deployment.marketplaces.length - 1];
+    const registrar = entry && names.clients.find((client) => client.contractName === entry.registrar);
+    if (!deployment || !entry || !registrar) {
+      return null;
+    }
+    return new BiudMarketplace({
+      contractAddress: deployment.address,
+      contractName: entry.contractName,
+      registrar,
+    });
+  }
+
+  /** Fully qualified contract identifier (`address.name`) */
+  get contractId(): string {
+    return `${this.contractAddress}.${this.contractName}`;
+  }
+
+  private get nameAsset() {
+    return createAssetInfo(this.registrar.contractAddress, this.registrar.contractName, NAME_ASSET);
+  }
+
+  // Call a read-only function, raising a typed error if it returns `(err uXXXX)`
+  private async callReadOnly(functionName: string, functionArgs: ClarityValue[] = []): Promise<ClarityValue> {
+    const result = await callReadOnlyFunction({
+      contractAddress: this.contractAddress,
+      contractName: this.contractName,
+      functionName,
+      functionArgs,
+      network: this.network,
+      senderAddress: this.contractAddress,
+    });
+    if (result.type === ClarityType.ResponseErr) {
+      throw errorFromClarityValue(result);
+    }
+    return result.type === ClarityType.ResponseOk ? result.value : result;
+  }
+
+  private contractCallOptions(
+    functionName: string,
+    functionArgs: ClarityValue[],
+    postConditions: PostCondition[],
+    options: TxBuildOptions
+  ) {
+    return {
+      contractAddress: this.contractAddress,
+      contractName: this.contractName,
+      functionName,
+      functionArgs,
+      network: this.network,
+      anchorMode: AnchorMode.Any,
+      postConditions,
+      postConditionMode: options.postConditionMode ?? PostConditionMode.Deny,
+    };
+  }
+
+  // The marketplace hands out an escrowed name token
+  private escrowSendsName(nameId: bigint): PostCondition {
+    return makeContractNonFungiblePostCondition(
+      this.contractAddress,
+      this.contractName,
+      NonFungibleConditionCode.Sends,
+      this.nameAsset,
+      uintCV(nameId)
+    );
+  }
+
+  // The marketplace pays out exactly the escrowed (or forwarded) amount
+  private escrowSendsSTX(amount: bigint): PostCondition {
+    return makeContractSTXPostCondition(this.contractAddress, this.contractName, FungibleConditionCode.Equal, amount);
+  }
+
+  private async requireListing(label: string): Promise<MarketplaceListing> {
+    const listing = await this.getListing(label);
+    if (!listing) {
+      throw new BiudError(`${label}.sBTC is not listed for sale`);
+    }
+    return listing;
+  }
+
+  private async requireOffer(label: string, bidder: string): Promise<MarketplaceOffer> {
+    const offer = await this.getOffer(label, bidder);
+    if (!offer) {
+      throw new BiudError(`No offer on ${label}.sBTC from ${bidder}`);
+    }
+    return offer;
+  }
+
+  // ──────────────────────────────────────────────────────────────────────────
+  // READ-ONLY FUNCTIONS
+  // ──────────────────────────────────────────────────────────────────────────
+
+  /**
+   * Get the listing of a name, including inactive ones
+   */
+  async getListing(label: string): Promise<MarketplaceListing | null> {
+    const result = await this.callReadOnly('get-listing', [stringUtf8CV(label)]);
+    return decodeOptional(result, (cv) => {
+      const data = decodeTuple(cv);
+      return {
+        label,
+        seller: decodePrincipal(data['seller']),
+        price: decodeUint(data['price']),
+        nameId: decodeUint(data['name-id']),
+        listedAt: decodeUint(data['listed-at']),
+        active: decodeBool(data['active']),
+      };
+    });
+  }
+
+  /**
+   * Get a bidder's offer on a name
+   */
+  async getOffer(label: string, bidder: string): Promise<MarketplaceOffer | null> {
+    const result = await this.callReadOnly('get-offer', [stringUtf8CV(label), principalCV(bidder)]);
+    return decodeOptional(result, (cv) => {
+      const data = decodeTuple(cv);
+      return {
+        label,
+        bidder,
+        amount: decodeUint(data['amount']),
+        createdAt: decodeUint(data['created-at']),
+      };
+    });
+  }
+
+  /**
+   * Get every open offer on a name, highest first
+   */
+  async getOffers(label: string): Promise<MarketplaceOffer[]> {
+    const bidders = decodeList(await this.callReadOnly('get-bidders', [stringUtf8CV(label)]), decodePrincipal);
+    const offers = await Promise.all(bidders.map((bidder) => this.getOffer(label, bidder)));
+    return offers
+      .filter((offer): offer is MarketplaceOffer => offer !== null)
+      .sort((a, b) => (a.amount === b.amount ? 0 : a.amount > b.amount ? -1 : 1));
+  }
+
+  /**
+   * Get the share of each sale (out of 100) paid to the protocol treasury
+   */
+  async getRoyaltyPercent(): Promise<bigint> {
+    return decodeUint(await this.callReadOnly('get-royalty-percent'));
+  }
+
+  /**
+   * Get the royalty taken from a sale at a price (the seller receives the rest)
+   */
+  async getRoyalty(price: bigint | number): Promise<bigint> {
+    return decodeUint(await this.callReadOnly('get-royalty', [uintCV(price)]));
+  }
+
+  // ──────────────────────────────────────────────────────────────────────────
+  // TRANSACTION OPTIONS (For use with @stacks/connect)
+  // ──────────────────────────────────────────────────────────────────────────
+
+  /**
+   * Get transaction options for listing a name at a price (in microSTX).
+   * The seller's name token moves into escrow.
+   */
+  async getListNameOptions(label: string, seller: string, price: bigint | number, options: TxBuildOptions = {}) {
+    const record = await this.registrar.getNameInfo(label);
+    if (!record) {
+      throw new BiudError(`${label}.sBTC is not registered`);
+    }
+    return this.contractCallOptions(
+      'list-name',
+      [stringUtf8CV(label), uintCV(price)],
+      [makeStandardNonFungiblePostCondition(seller, NonFungibleConditionCode.Sends, this.nameAsset, uintCV(record.nameId))],
+      options
+    );
+  }
+
+  /**
+   * Get transaction options for cancelling a listing (seller only).
+   * The escrowed name returns to the seller unless it was released meanwhile.
+   */
+  async getCancelListingOptions(label: string, options: TxBuildOptions = {}) {
+    const listing = await this.requireListing(label);
+    return this.contractCallOptions(
+      'cancel-listing',
+      [stringUtf8CV(label)],
+      listing.active ? [this.escrowSendsName(listing.nameId)] : [],
+      options
+    );
+  }
+
+  /**
+   * Get transaction options for renewing a listed name (seller only), also
+   * during its grace period. The seller pays exactly the renewal fee, which
+   * the marketplace passes on to the registrar.
+   */
+  async getRenewListedNameOptions(label: string, seller: string, years = 1, options: TxBuildOptions = {}) {
+    const listing = await this.requireListing(label);
+    if (!listing.active) {
+      throw new BiudError(`The listing for ${label}.sBTC has lapsed`);
+    }
+    const fee = await this.registrar.getRenewalFee(years);
+    return this.contractCallOptions(
+      'renew-listed-name',
+      [stringUtf8CV(label), uintCV(years)],
+      [makeStandardSTXPostCondition(seller, FungibleConditionCode.Equal, fee), this.escrowSendsSTX(fee)],
+      options
+    );
+  }
+
+  /**
+   * Get transaction options for buying a listed name.
+   * The buyer pays exactly the asking price and receives the escrowed name.
+   */
+  async getBuyNameOptions(label: string, buyer: string, options: TxBuildOptions = {}) {
+    const listing = await this.requireListing(label);
+    if (!listing.active) {
+      throw new BiudError(`The listing for ${label}.sBTC has lapsed`);
+    }
+    return this.contractCallOptions(
+      'buy-name',
+      [stringUtf8CV(label)],
+      [
+        makeStandardSTXPostCondition(buyer, FungibleConditionCode.Equal, listing.price),
+        this.escrowSendsName(listing.nameId),
+      ],
+      options
+    );
+  }
+
+  /**
+   * Get transaction options for offering an amount (in microSTX) for a name.
+   * A previous offer from the same bidder is refunded and replaced.
+   */
+  async getMakeOfferOptions(label: string, bidder: string, amount: bigint | number, options: TxBuildOptions = {}) {
+    const previous = await this.getOffer(label, bidder);
+    return this.contractCallOptions(
+      'make-offer',
+      [stringUtf8CV(label), uintCV(amount)],
+      [
+        makeStandardSTXPostCondition(bidder, FungibleConditionCode.Equal, amount),
+        ...(previous ? [this.escrowSendsSTX(previous.amount)] : []),
+      ],
+      options
+    );
+  }
+
+  /**
+   * Get transaction options for withdrawing an offer and its escrowed STX
+   */
+  async getCancelOfferOptions(label: string, bidder: string, options: TxBuildOptions = {}) {
+    const offer = await this.requireOffer(label, bidder);
+    return this.contractCallOptions('cancel-offer', [stringUtf8CV(label)], [this.escrowSendsSTX(offer.amount)], options);
+  }
+
+  /**
+   * Get transaction options for accepting an offer. The name moves to the bidder,
+   * out of escrow if it is listed or straight from the seller otherwise.
+   */
+  async getAcceptOfferOptions(label: string, bidder: string, seller: string, options: TxBuildOptions = {}) {
+    const [offer, listing, record] = await Promise.all([
+      this.requireOffer(label, bidder),
+      this.getListing(label),
+      this.registrar.getNameInfo(label),
+    ]);
+    if (!record) {
+      throw new BiudError(`${label}.sBTC is not registered`);
+    }
+    const sendsName = listing?.active
+      ? this.escrowSendsName(record.nameId)
+      : makeStandardNonFungiblePostCondition(seller, NonFungibleConditionCode.Sends, this.nameAsset, uintCV(record.nameId));
+    return this.contractCallOptions(
+      'accept-offer',
+      [stringUtf8CV(label), principalCV(bidder)],
+      [sendsName, this.escrowSendsSTX(offer.amount)],
+      options
+    );
+  }
+}
+
+/**
+ * Marketplace for the network this app is configured for, or null if none is deployed
+ */
+export const marketplace = BiudMarketplace.forNetwork(NETWORK_NAME, registry);
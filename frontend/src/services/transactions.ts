@@ -0,0 +1,277 @@
+/**
+ * BiUD Frontend - Transaction Tracker
+ * Follows submitted contract calls until they are mined, aborted or dropped
+ */
+
+import { ClarityValue, hexToCV } from '@stacks/transactions';
+import { registry, BiudError, errorFromTxResult } from './biud';
+
+// localStorage key holding in-flight and recently finished transactions
+const STORAGE_KEY = 'biud-transactions';
+
+// Default delay between polls of the node API (ms)
+const DEFAULT_POLL_INTERVAL = 10_000;
+
+// Default time a tx may stay unknown to the node before it counts as dropped (ms)
+const DEFAULT_DROP_TIMEOUT = 30 * 60_000;
+
+// ════════════════════════════════════════════════════════════════════════════
+// TYPES
+// ════════════════════════════════════════════════════════════════════════════
+
+export type TxState = 'pending' | 'confirmed' | 'aborted' | 'dropped';
+
+/** What the transaction was submitted for, used to label it in the UI */
+export interface TxMetadata {
+  action: string;
+  label?: string;
+}
+
+export interface TrackedTransaction extends TxMetadata {
+  txId: string;
+  state: TxState;
+  /** Raw `tx_status` from the node API, null until the node has seen the tx */
+  status: string | null;
+  /** Hex-encoded Clarity result, set once the tx is mined */
+  resultHex: string | null;
+  blockHeight: number | null;
+  submittedAt: number;
+  updatedAt: number;
+}
+
+export interface TransactionTrackerConfig {
+  /** Base URL of a Stacks node API (e.g. `network.coreApiUrl`) */
+  apiUrl: string;
+  /** Where to persist tracked transactions; defaults to localStorage in the browser */
+  storage?: Storage | null;
+  pollInterval?: number;
+  /**
+   * How long after submission the node may answer 404 for a tx before it is
+   * marked dropped: it never reached the mempool, or was replaced first
+   */
+  dropTimeout?: number;
+}
+
+export type TxListener = (transactions: TrackedTransaction[]) => void;
+
+// Subset of the `/extended/v1/tx/{txid}` response that the tracker reads
+interface TxApiResponse {
+  tx_status: string;
+  tx_result?: { hex: string; repr: string };
+  block_height?: number;
+}
+
+// ════════════════════════════════════════════════════════════════════════════
+// HELPERS
+// ════════════════════════════════════════════════════════════════════════════
+
+const normalizeTxId = (txId: string) => (txId.startsWith('0x') ? txId : `0x${txId}`);
+
+// Map a node API `tx_status` onto the tracker's coarser lifecycle states
+const stateFromStatus = (status: string): TxState => {
+  if (status === 'success') return 'confirmed';
+  if (status.startsWith('abort_')) return 'aborted';
+  if (status.startsWith('dropped_')) return 'dropped';
+  return 'pending';
+};
+
+/**
+ * Decoded Clarity result of a mined transaction, or null while pending
+ */
+export function getTxResult(tx: TrackedTransaction): ClarityValue | null {
+  return tx.resultHex ? hexToCV(tx.resultHex) : null;
+}
+
+/**
+ * Typed error for an aborted or dropped transaction, or null if it has not failed
+ */
+export function getTxError(tx: TrackedTransaction): BiudError | null {
+  if (tx.state === 'dropped' && tx.status === null) {
+    return new BiudError('Transaction was dropped before the node accepted it');
+  }
+  if (tx.state === 'pending' || tx.status === null) {
+    return null;
+  }
+  return errorFromTxResult(tx.txId, tx.status, tx.resultHex ?? undefined);
+}
+
+// ════════════════════════════════════════════════════════════════════════════
+// TRACKER
+// ════════════════════════════════════════════════════════════════════════════
+
+export class TransactionTracker {
+  private readonly apiUrl: string;
+  private readonly storage: Storage | null;
+  private readonly pollInterval: number;
+  private readonly dropTimeout: number;
+  private transactions = new Map<string, TrackedTransaction>();
+  private listeners = new Set<TxListener>();
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(config: TransactionTrackerConfig) {
+    this.apiUrl = config.apiUrl.replace(/\/$/, '');
+    this.storage = config.storage !== undefined
+      ? config.storage
+      : typeof window !== 'undefined' ? window.localStorage : null;
+    this.pollInterval = config.pollInterval ?? DEFAULT_POLL_INTERVAL;
+    this.dropTimeout = config.dropTimeout ?? DEFAULT_DROP_TIMEOUT;
+    this.load();
+  }
+
+  /**
+   * Start tracking a freshly broadcast transaction
+   */
+  track(txId: string, metadata: TxMetadata): TrackedTransaction {
+    const now = Date.now();
+    const tx: TrackedTransaction = {
+      ...metadata,
+      txId: normalizeTxId(txId),
+      state: 'pending',
+      status: null,
+      resultHex: null,
+      blockHeight: null,
+      submittedAt: now,
+      updatedAt: now,
+    };
+    this.transactions.set(tx.txId, tx);
+    this.changed();
+    return tx;
+  }
+
+  get(txId: string): TrackedTransaction | null {
+    return this.transactions.get(normalizeTxId(txId)) ?? null;
+  }
+
+  /** All tracked transactions, most recent first */
+  list(): TrackedTransaction[] {
+    return Array.from(this.transactions.values()).sort((a, b) => b.submittedAt - a.submittedAt);
+  }
+
+  remove(txId: string): void {
+    if (this.transactions.delete(normalizeTxId(txId))) {
+      this.changed();
+    }
+  }
+
+  /** Forget every transaction that is no longer pending */
+  clearFinished(): void {
+    for (const tx of Array.from(this.transactions.values())) {
+      if (tx.state !== 'pending') {
+        this.transactions.delete(tx.txId);
+      }
+    }
+    this.changed();
+  }
+
+  subscribe(listener: TxListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Fetch the latest status of one transaction from the node API.
+   * A 404 means the node has not seen the tx yet, so it stays pending until
+   * the drop timeout has passed since submission, then it is dropped.
+   */
+  async refresh(txId: string): Promise<TrackedTransaction | null> {
+    const tx = this.get(txId);
+    if (!tx) {
+      return null;
+    }
+
+    const response = await fetch(`${this.apiUrl}/extended/v1/tx/${tx.txId}`);
+    if (response.status === 404) {
+      if (tx.state === 'pending' && Date.now() - tx.submittedAt >= this.dropTimeout) {
+        this.transactions.set(tx.txId, { ...tx, state: 'dropped', updatedAt: Date.now() });
+        this.changed();
+      }
+      return this.get(tx.txId);
+    }
+    if (!response.ok) {
+      throw new BiudError(`Failed to fetch transaction ${tx.txId} (HTTP ${response.status})`);
+    }
+
+    const body = (await response.json()) as TxApiResponse;
+    const updated: TrackedTransaction = {
+      ...tx,
+      state: stateFromStatus(body.tx_status),
+      status: body.tx_status,
+      resultHex: body.tx_result?.hex ?? null,
+      blockHeight: body.block_height ?? null,
+      updatedAt: Date.now(),
+    };
+    // Skip writes and notifications while nothing has changed
+    if (updated.status !== tx.status || updated.resultHex !== tx.resultHex) {
+      this.transactions.set(tx.txId, updated);
+      this.changed();
+    }
+    return this.get(tx.txId);
+  }
+
+  /**
+   * Refresh every pending transaction once
+   */
+  async pollPending(): Promise<void> {
+    const pending = this.list().filter((tx) => tx.state === 'pending');
+    await Promise.all(
+      pending.map((tx) =>
+        this.refresh(tx.txId).catch((error) => {
+          console.error(`Error polling transaction ${tx.txId}:`, error);
+        })
+      )
+    );
+  }
+
+  /**
+   * Poll pending transactions on an interval until stop() is called
+   */
+  start(): void {
+    if (this.timer) return;
+    const tick = async () => {
+      await this.pollPending();
+      if (this.timer) {
+        this.timer = setTimeout(tick, this.pollInterval);
+      }
+    };
+    this.timer = setTimeout(tick, 0);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private changed(): void {
+    this.save();
+    const snapshot = this.list();
+    this.listeners.forEach((listener) => listener(snapshot));
+  }
+
+  private load(): void {
+    if (!this.storage) return;
+    try {
+      const stored = JSON.parse(this.storage.getItem(STORAGE_KEY) || '[]') as TrackedTransaction[];
+      stored.forEach((tx) => this.transactions.set(tx.txId, tx));
+    } catch (e) {
+      // Ignore corrupted storage, start with an empty list
+    }
+  }
+
+  private save(): void {
+    if (!this.storage) return;
+    try {
+      this.storage.setItem(STORAGE_KEY, JSON.stringify(this.list()));
+    } catch (e) {
+      // Ignore storage quota errors
+    }
+  }
+}
+
+/**
+ * Shared tracker for the network this app is configured for
+ */
+export const txTracker = new TransactionTracker({ apiUrl: registry.network.coreApiUrl });
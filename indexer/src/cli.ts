@@ -0,0 +1,92 @@
+/**
+ * BiUD Indexer - Command Line
+ * Indexes the contracts of one network from deployments.json and serves the HTTP API.
+ * Indexing starts at the block the oldest contract was deployed in unless --start-height is given.
+ *
+ * Usage:
+ *   npm start -- [--network mainnet] [--api URL] [--db biud-indexer.db] [--port 3100]
+ *                [--start-height N] [--recording session.json] [--address DEPLOYER]
+ */
+
+import { parseArgs } from 'node:util';
+import { getDeployment } from '../../frontend/src/services/deployments';
+import { IndexerDatabase } from './db';
+import { Indexer } from './indexer';
+import { NodeApiSource, EventSource } from './sources';
+import { RecordingSource } from './recording';
+import { createIndexerServer } from './server';
+
+// Node APIs used when --api is not given (the defaults of @stacks/network)
+const DEFAULT_API_URLS: Record<string, string> = {
+  mainnet: 'https://api.mainnet.hiro.so',
+  testnet: 'https://api.testnet.hiro.so',
+  devnet: 'http://localhost:3999',
+};
+
+const { values: options } = parseArgs({
+  options: {
+    network: { type: 'string', default: 'mainnet' },
+    api: { type: 'string' },
+    db: { type: 'string', default: 'biud-indexer.db' },
+    port: { type: 'string', default: '3100' },
+    'start-height': { type: 'string' },
+    // Index a recorded simnet session instead of a node
+    recording: { type: 'string' },
+    // Deployer of the contracts, e.g. the simnet deployer for a recording
+    address: { type: 'string' },
+  },
+});
+
+async function main(): Promise<void> {
+  const network = options.network!;
+  const deployment = getDeployment(network);
+  if (!deployment) {
+    throw new Error(`BiUD is not deployed on ${network} (see frontend/src/services/deployments.json)`);
+  }
+  const address = options.address ?? deployment.address;
+  const registrars = deployment.registrars.map((registrar) => `${address}.${registrar.contractName}`);
+  const contracts = [
+    ...registrars,
+    ...deployment.resolvers.map((resolver) => `${address}.${resolver.contractName}`),
+    ...deployment.marketplaces.map((marketplace) => `${address}.${marketplace.contractName}`),
+  ];
+
+  const source: EventSource = options.recording
+    ? RecordingSource.fromFile(options.recording)
+    : new NodeApiSource({ apiUrl: options.api ?? DEFAULT_API_URLS[network] ?? DEFAULT_API_URLS.devnet, contracts });
+  const startHeight = options['start-height'] ? Number(options['start-height']) : await getStartHeight(source, contracts);
+  const database = new IndexerDatabase({ path: options.db!, registrars });
+  const indexer = new Indexer({ source, database, startHeight });
+
+  const server = createIndexerServer(database);
+  server.listen(Number(options.port), () => {
+    console.log(`Serving the ${network} index on port ${options.port}`);
+  });
+
+  const controller = new AbortController();
+  const stop = () => controller.abort();
+  process.once('SIGINT', stop);
+  process.once('SIGTERM', stop);
+
+  await indexer.run(controller.signal);
+  server.close();
+  database.close();
+}
+
+// Height the oldest contract was deployed at; recordings start at height 1
+async function getStartHeight(source: EventSource, contracts: string[]): Promise<number> {
+  if (!(source instanceof NodeApiSource)) {
+    return 1;
+  }
+  const heights = await Promise.all(contracts.map((contract) => source.getDeploymentHeight(contract)));
+  const deployed = heights.filter((height): height is number => height !== null);
+  if (deployed.length === 0) {
+    throw new Error('None of the contracts are deployed on this node; pass --start-height');
+  }
+  return Math.min(...deployed);
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,319 @@
+/**
+ * BiUD Indexer - Database
+ * SQLite tables of indexed blocks and events, and the name records projected from them
+ */
+
+import Database from 'better-sqlite3';
+import { ContractEvent, EventValue } from './events';
+import { BlockHeader, SourceBlock } from './sources';
+
+// Bumped whenever the schema changes; an older database is rebuilt from scratch
+const SCHEMA_VERSION = 1;
+
+const SCHEMA = `
+  CREATE TABLE blocks (
+    height INTEGER PRIMARY KEY,
+    hash TEXT NOT NULL,
+    parent_hash TEXT NOT NULL,
+    contract_height INTEGER NOT NULL
+  );
+
+  CREATE TABLE events (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    block_height INTEGER NOT NULL,
+    tx_id TEXT NOT NULL,
+    event_index INTEGER NOT NULL,
+    contract_id TEXT NOT NULL,
+    name TEXT NOT NULL,
+    label TEXT,
+    data TEXT NOT NULL,
+    UNIQUE (tx_id, event_index)
+  );
+  CREATE INDEX events_by_label ON events (label, block_height);
+  CREATE INDEX events_by_block ON events (block_height);
+
+  CREATE TABLE names (
+    contract_id TEXT NOT NULL,
+    label TEXT NOT NULL,
+    name_id INTEGER NOT NULL,
+    full_name TEXT NOT NULL,
+    owner TEXT NOT NULL,
+    resolver TEXT,
+    expiry_height INTEGER NOT NULL,
+    is_premium INTEGER NOT NULL,
+    created_at INTEGER NOT NULL,
+    last_renewed INTEGER NOT NULL,
+    PRIMARY KEY (contract_id, label)
+  );
+  CREATE INDEX names_by_owner ON names (owner, created_at);
+  CREATE INDEX names_by_expiry ON names (expiry_height);
+`;
+
+// ════════════════════════════════════════════════════════════════════════════
+// TYPES
+// ════════════════════════════════════════════════════════════════════════════
+
+/** Name record projected from registrar events, as `get-name` would return it */
+export interface NameRow {
+  contractId: string;
+  label: string;
+  fullName: string;
+  owner: string;
+  resolver: string | null;
+  expiryHeight: number;
+  isPremium: boolean;
+  nameId: number;
+  createdAt: number;
+  lastRenewed: number;
+}
+
+/** An indexed event with the block it was mined in */
+export interface StoredEvent extends ContractEvent {
+  blockHeight: number;
+}
+
+export interface Page<T> {
+  total: number;
+  items: T[];
+}
+
+export interface IndexerDatabaseConfig {
+  /** SQLite file, or ":memory:" */
+  path: string;
+  /** Registrar contracts whose events maintain the name records (`address.name`) */
+  registrars: string[];
+}
+
+interface EventRecord {
+  block_height: number;
+  contract_height: number;
+  tx_id: string;
+  event_index: number;
+  contract_id: string;
+  name: string;
+  label: string | null;
+  data: string;
+}
+
+interface NameRecord {
+  contract_id: string;
+  label: string;
+  name_id: number;
+  full_name: string;
+  owner: string;
+  resolver: string | null;
+  expiry_height: number;
+  is_premium: number;
+  created_at: number;
+  last_renewed: number;
+}
+
+// ════════════════════════════════════════════════════════════════════════════
+// DATABASE
+// ════════════════════════════════════════════════════════════════════════════
+
+export class IndexerDatabase {
+  private readonly db: Database.Database;
+  private readonly registrars: ReadonlySet<string>;
+
+  constructor(config: IndexerDatabaseConfig) {
+    this.db = new Database(config.path);
+    this.db.pragma('journal_mode = WAL');
+    this.registrars = new Set(config.registrars);
+    this.migrate();
+  }
+
+  private migrate(): void {
+    if (this.db.pragma('user_version', { simple: true }) === SCHEMA_VERSION) {
+      return;
+    }
+    this.db.transaction(() => {
+      this.db.exec('DROP TABLE IF EXISTS blocks; DROP TABLE IF EXISTS events; DROP TABLE IF EXISTS names;');
+      this.db.exec(SCHEMA);
+      this.db.pragma(`user_version = ${SCHEMA_VERSION}`);
+    })();
+  }
+
+  close(): void {
+    this.db.close();
+  }
+
+  // ──────────────────────────────────────────────────────────────────────────
+  // WRITES
+  // ──────────────────────────────────────────────────────────────────────────
+
+  /**
+   * Store a block with its decoded events and apply them to the name records,
+   * all or nothing
+   */
+  applyBlock(block: SourceBlock, events: ContractEvent[]): void {
+    this.db.transaction(() => {
+      this.db
+        .prepare('INSERT INTO blocks (height, hash, parent_hash, contract_height) VALUES (?, ?, ?, ?)')
+        .run(block.height, block.hash, block.parentHash, block.contractHeight);
+      const insert = this.db.prepare(
+        `INSERT INTO events (block_height, tx_id, event_index, contract_id, name, label, data)
+         VALUES (?, ?, ?, ?, ?, ?, ?)`
+      );
+      for (const event of events) {
+        insert.run(block.height, event.txId, event.eventIndex, event.contractId, event.name, event.label, JSON.stringify(event.data));
+        this.project(event, block.contractHeight);
+      }
+    })();
+  }
+
+  /**
+   * Drop every block from a height on, as after a reorg. Name records are
+   * rebuilt by replaying the events that remain.
+   */
+  rollback(height: number): void {
+    this.db.transaction(() => {
+      this.db.prepare('DELETE FROM events WHERE block_height >= ?').run(height);
+      this.db.prepare('DELETE FROM blocks WHERE height >= ?').run(height);
+      this.db.exec('DELETE FROM names');
+      const replay = this.db.prepare(
+        `SELECT events.*, blocks.contract_height FROM events
+         JOIN blocks ON blocks.height = events.block_height
+         ORDER BY events.id`
+      );
+      // Read the events up front: the connection cannot write while a statement iterates
+      for (const record of replay.all() as EventRecord[]) {
+        this.project(toStoredEvent(record), record.contract_height);
+      }
+    })();
+  }
+
+  // Apply a registrar event to the name records; other events are history only
+  private project(event: ContractEvent, contractHeight: number): void {
+    if (!this.registrars.has(event.contractId) || event.label === null) {
+      return;
+    }
+    const { data } = event;
+    const key = { contract_id: event.contractId, label: event.label };
+
+    switch (event.name) {
+      case 'NameRegistered':
+        // A re-registration replaces the previous registration's record
+        this.db
+          .prepare(
+            `INSERT OR REPLACE INTO names
+               (contract_id, label, name_id, full_name, owner, resolver, expiry_height, is_premium, created_at, last_renewed)
+             VALUES (@contract_id, @label, @name_id, @full_name, @owner, NULL, @expiry_height, @is_premium, @height, @height)`
+          )
+          .run({
+            ...key,
+            name_id: Number(data['name-id']),
+            full_name: String(data['full-name']),
+            owner: String(data.owner),
+            expiry_height: Number(data['expiry-height']),
+            is_premium: data['is-premium'] === true ? 1 : 0,
+            height: contractHeight,
+          });
+        break;
+      case 'NameRenewed':
+        this.db
+          .prepare('UPDATE names SET expiry_height = @expiry, last_renewed = @height WHERE contract_id = @contract_id AND label = @label')
+          .run({ ...key, expiry: Number(data['new-expiry-height']), height: contractHeight });
+        break;
+      case 'NameTransferred':
+        this.db
+          .prepare('UPDATE names SET owner = @owner WHERE contract_id = @contract_id AND label = @label')
+          .run({ ...key, owner: String(data.to) });
+        break;
+      case 'ResolverSet':
+        this.db
+          .prepare('UPDATE names SET resolver = @resolver WHERE contract_id = @contract_id AND label = @label')
+          .run({ ...key, resolver: String(data.resolver) });
+        break;
+      case 'ResolverCleared':
+        this.db.prepare('UPDATE names SET resolver = NULL WHERE contract_id = @contract_id AND label = @label').run(key);
+        break;
+    }
+  }
+
+  // ──────────────────────────────────────────────────────────────────────────
+  // QUERIES
+  // ──────────────────────────────────────────────────────────────────────────
+
+  /** Newest indexed block, or null for an empty database */
+  getLatestBlock(): BlockHeader | null {
+    const row = this.db.prepare('SELECT * FROM blocks ORDER BY height DESC LIMIT 1').get() as
+      | { height: number; hash: string; parent_hash: string; contract_height: number }
+      | undefined;
+    return row ? { height: row.height, hash: row.hash, parentHash: row.parent_hash, contractHeight: row.contract_height } : null;
+  }
+
+  /** Hash of an indexed block, or null if the height is not indexed */
+  getBlockHash(height: number): string | null {
+    const row = this.db.prepare('SELECT hash FROM blocks WHERE height = ?').get(height) as { hash: string } | undefined;
+    return row?.hash ?? null;
+  }
+
+  /** Records of a label on every registrar that has registered it */
+  getNames(label: string): NameRow[] {
+    const rows = this.db.prepare('SELECT * FROM names WHERE label = ?').all(label) as NameRecord[];
+    return rows.map(toNameRow);
+  }
+
+  /** Names held by an owner across registrars, oldest registration first */
+  getOwnedNames(owner: string, offset: number, limit: number): Page<NameRow> {
+    const { total } = this.db.prepare('SELECT COUNT(*) AS total FROM names WHERE owner = ?').get(owner) as { total: number };
+    const rows = this.db
+      .prepare('SELECT * FROM names WHERE owner = ? ORDER BY created_at, contract_id, label LIMIT ? OFFSET ?')
+      .all(owner, limit, offset) as NameRecord[];
+    return { total, items: rows.map(toNameRow) };
+  }
+
+  /** Names expiring at contract heights from..to-1, soonest first */
+  getExpiringNames(from: number, to: number, offset: number, limit: number): Page<NameRow> {
+    const { total } = this.db
+      .prepare('SELECT COUNT(*) AS total FROM names WHERE expiry_height >= ? AND expiry_height < ?')
+      .get(from, to) as { total: number };
+    const rows = this.db
+      .prepare(
+        'SELECT * FROM names WHERE expiry_height >= ? AND expiry_height < ? ORDER BY expiry_height, contract_id, label LIMIT ? OFFSET ?'
+      )
+      .all(from, to, limit, offset) as NameRecord[];
+    return { total, items: rows.map(toNameRow) };
+  }
+
+  /** Events concerning a label on any indexed contract, newest first */
+  getHistory(label: string, offset: number, limit: number): Page<StoredEvent> {
+    const { total } = this.db.prepare('SELECT COUNT(*) AS total FROM events WHERE label = ?').get(label) as { total: number };
+    const rows = this.db
+      .prepare('SELECT * FROM events WHERE label = ? ORDER BY id DESC LIMIT ? OFFSET ?')
+      .all(label, limit, offset) as EventRecord[];
+    return { total, items: rows.map(toStoredEvent) };
+  }
+}
+
+// ════════════════════════════════════════════════════════════════════════════
+// ROW CONVERSION
+// ════════════════════════════════════════════════════════════════════════════
+
+function toNameRow(row: NameRecord): NameRow {
+  return {
+    contractId: row.contract_id,
+    label: row.label,
+    fullName: row.full_name,
+    owner: row.owner,
+    resolver: row.resolver,
+    expiryHeight: row.expiry_height,
+    isPremium: row.is_premium === 1,
+    nameId: row.name_id,
+    createdAt: row.created_at,
+    lastRenewed: row.last_renewed,
+  };
+}
+
+function toStoredEvent(row: EventRecord): StoredEvent {
+  return {
+    blockHeight: row.block_height,
+    txId: row.tx_id,
+    eventIndex: row.event_index,
+    contractId: row.contract_id,
+    name: row.name,
+    label: row.label,
+    data: JSON.parse(row.data) as Record<string, EventValue>,
+  };
+}
@@ -0,0 +1,118 @@
+/**
+ * BiUD Indexer - Contract Events
+ * Decodes the print events of BiUD contracts into JSON records
+ */
+
+import { ClarityType, ClarityValue, hexToCV, principalToString } from '@stacks/transactions';
+
+// ════════════════════════════════════════════════════════════════════════════
+// TYPES
+// ════════════════════════════════════════════════════════════════════════════
+
+/** A print event as delivered by an event source, before decoding */
+export interface RawEvent {
+  txId: string;
+  /** Position of the event within its transaction */
+  eventIndex: number;
+  contractId: string;
+  /** Printed Clarity value, hex-serialized */
+  value: string;
+}
+
+/**
+ * Clarity value as JSON: integers as decimal strings, buffers as 0x-prefixed hex,
+ * none as null, some as its value, responses as `{ ok }` / `{ err }`
+ */
+export type EventValue =
+  | string
+  | boolean
+  | null
+  | EventValue[]
+  | { [key: string]: EventValue };
+
+/** A decoded `(print { event: "...", ... })` of a BiUD contract */
+export interface ContractEvent {
+  txId: string;
+  eventIndex: number;
+  contractId: string;
+  /** `event` field of the printed tuple, e.g. "NameRegistered" */
+  name: string;
+  /** Name the event concerns: `parent` for subname events, otherwise `label` if present */
+  label: string | null;
+  /** Every field of the printed tuple */
+  data: Record<string, EventValue>;
+}
+
+export class IndexerError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'IndexerError';
+  }
+}
+
+// ════════════════════════════════════════════════════════════════════════════
+// DECODING
+// ════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Convert a Clarity value to JSON
+ */
+export function toEventValue(cv: ClarityValue): EventValue {
+  switch (cv.type) {
+    case ClarityType.Int:
+    case ClarityType.UInt:
+      return cv.value.toString();
+    case ClarityType.BoolTrue:
+      return true;
+    case ClarityType.BoolFalse:
+      return false;
+    case ClarityType.Buffer:
+      return '0x' + Array.from(cv.buffer, (byte) => byte.toString(16).padStart(2, '0')).join('');
+    case ClarityType.StringASCII:
+    case ClarityType.StringUTF8:
+      return cv.data;
+    case ClarityType.PrincipalStandard:
+    case ClarityType.PrincipalContract:
+      return principalToString(cv);
+    case ClarityType.OptionalNone:
+      return null;
+    case ClarityType.OptionalSome:
+      return toEventValue(cv.value);
+    case ClarityType.ResponseOk:
+      return { ok: toEventValue(cv.value) };
+    case ClarityType.ResponseErr:
+      return { err: toEventValue(cv.value) };
+    case ClarityType.List:
+      return cv.list.map(toEventValue);
+    case ClarityType.Tuple:
+      return Object.fromEntries(Object.entries(cv.data).map(([key, value]) => [key, toEventValue(value)]));
+  }
+}
+
+/**
+ * Decode a print event, or null if it is not a tuple with a string `event` field
+ * (such as prints of contracts that do not follow the BiUD event layout)
+ */
+export function decodeEvent(raw: RawEvent): ContractEvent | null {
+  let cv: ClarityValue;
+  try {
+    cv = hexToCV(raw.value);
+  } catch {
+    throw new IndexerError(`Event ${raw.eventIndex} of ${raw.txId} is not a Clarity value`);
+  }
+  if (cv.type !== ClarityType.Tuple) {
+    return null;
+  }
+  const data = toEventValue(cv) as Record<string, EventValue>;
+  if (typeof data.event !== 'string') {
+    return null;
+  }
+  return {
+    txId: raw.txId,
+    eventIndex: raw.eventIndex,
+    contractId: raw.contractId,
+    name: data.event,
+    label: typeof data.parent === 'string' ? data.parent : typeof data.label === 'string' ? data.label : null,
+    data,
+  };
+}
@@ -0,0 +1,127 @@
+/**
+ * BiUD Indexer - Sync Loop
+ * Follows an event source block by block into the database, rolling back over reorgs
+ */
+
+import { decodeEvent, ContractEvent, IndexerError } from './events';
+import { IndexerDatabase } from './db';
+import { EventSource } from './sources';
+
+// Default delay between polls of the source once caught up (ms)
+const DEFAULT_POLL_INTERVAL = 10_000;
+
+// ════════════════════════════════════════════════════════════════════════════
+// TYPES
+// ════════════════════════════════════════════════════════════════════════════
+
+export interface IndexerConfig {
+  source: EventSource;
+  database: IndexerDatabase;
+  /**
+   * First block to index into an empty database: the height the oldest watched
+   * contract was deployed at (1 for a simnet recording). Starting later misses
+   * the events before it.
+   */
+  startHeight: number;
+  pollInterval?: number;
+}
+
+// ════════════════════════════════════════════════════════════════════════════
+// INDEXER
+// ════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Indexes blocks in order. Progress is the newest block in the database, so a
+ * restarted indexer resumes after it. Each block names its parent; when that is
+ * not the block indexed below it, the source has reorganized and the indexer
+ * rolls back to the newest block both still agree on before continuing.
+ */
+export class Indexer {
+  private readonly source: EventSource;
+  private readonly database: IndexerDatabase;
+  private readonly startHeight: number;
+  private readonly pollInterval: number;
+
+  constructor(config: IndexerConfig) {
+    this.source = config.source;
+    this.database = config.database;
+    if (!Number.isInteger(config.startHeight) || config.startHeight < 1) {
+      throw new IndexerError(`Start height must be a positive whole number, got ${config.startHeight}`);
+    }
+    this.startHeight = config.startHeight;
+    this.pollInterval = config.pollInterval ?? DEFAULT_POLL_INTERVAL;
+  }
+
+  /**
+   * Index every block up to the source's current tip.
+   * Returns the number of blocks indexed; blocks indexed again after a reorg count again.
+   */
+  async sync(): Promise<number> {
+    const tip = await this.source.getTipHeight();
+    let indexed = 0;
+    let latest = this.database.getLatestBlock();
+
+    while ((latest ? latest.height + 1 : this.startHeight) <= tip) {
+      const block = await this.source.getBlock(latest ? latest.height + 1 : this.startHeight);
+      if (!block) {
+        // The tip moved back; the next sync sees the new chain
+        break;
+      }
+      if (latest && block.parentHash !== latest.hash) {
+        this.database.rollback(await this.findForkHeight(latest.height));
+        latest = this.database.getLatestBlock();
+        continue;
+      }
+      this.database.applyBlock(
+        block,
+        block.events.map(decodeEvent).filter((event): event is ContractEvent => event !== null)
+      );
+      latest = block;
+      indexed++;
+    }
+    return indexed;
+  }
+
+  /**
+   * Sync, then keep polling for new blocks until the signal aborts.
+   * Failed syncs are logged and retried on the next poll.
+   */
+  async run(signal?: AbortSignal): Promise<void> {
+    while (!signal?.aborted) {
+      try {
+        const indexed = await this.sync();
+        if (indexed > 0) {
+          console.log(`Indexed ${indexed} block(s) up to ${this.database.getLatestBlock()?.height}`);
+        }
+      } catch (error) {
+        console.error('Error syncing the index:', error);
+      }
+      await sleep(this.pollInterval, signal);
+    }
+  }
+
+  // Lowest height whose indexed block the source no longer has
+  private async findForkHeight(from: number): Promise<number> {
+    for (let height = from; height >= this.startHeight; height--) {
+      const header = await this.source.getBlockHeader(height);
+      if (header && header.hash === this.database.getBlockHash(height)) {
+        return height + 1;
+      }
+    }
+    // Nothing in common: re-index from the start
+    return this.startHeight;
+  }
+}
+
+// Resolve after a delay, or early once the signal aborts
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(done, ms);
+    function done() {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    }
+    signal?.addEventListener('abort', done);
+  });
+}
@@ -0,0 +1,133 @@
+/**
+ * BiUD Indexer - Simnet Recordings
+ * Records the print events of a Clarinet simnet session as blocks, and replays them as an event source
+ */
+
+import { createHash } from 'node:crypto';
+import { readFileSync, writeFileSync } from 'node:fs';
+import { ClarityValue, cvToHex } from '@stacks/transactions';
+import { IndexerError, RawEvent } from './events';
+import { BlockHeader, EventSource, SourceBlock } from './sources';
+
+// ════════════════════════════════════════════════════════════════════════════
+// TYPES
+// ════════════════════════════════════════════════════════════════════════════
+
+/** Blocks of a recorded session, oldest first and without gaps */
+export interface Recording {
+  blocks: SourceBlock[];
+}
+
+/** Transaction result of @hirosystems/clarinet-sdk, as far as the recorder reads it */
+export interface SimnetTxResult {
+  events: { event: string; data: { contract_identifier?: string; value?: ClarityValue } }[];
+}
+
+// ════════════════════════════════════════════════════════════════════════════
+// RECORDER
+// ════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Collects simnet transaction results into blocks. Simnet has no block hashes,
+ * so each block gets one derived from its parent, its events and the number
+ * of rewinds so far; a rewound height is recorded again under a new hash,
+ * as after a reorg.
+ */
+export class SimnetRecorder {
+  private readonly blocks: SourceBlock[] = [];
+  private rewinds = 0;
+
+  /**
+   * Record the transactions mined in one simnet block (`simnet.blockHeight`
+   * after the call). Skipped heights, including those before the first
+   * recorded block, are filled with empty blocks.
+   */
+  record(height: number, results: SimnetTxResult[]): SourceBlock {
+    const last = this.blocks[this.blocks.length - 1];
+    if (last && height <= last.height) {
+      throw new IndexerError(`Block ${height} is already recorded; rewind to record it again`);
+    }
+    for (let empty = last ? last.height + 1 : 1; empty < height; empty++) {
+      this.append(empty, []);
+    }
+
+    const events: RawEvent[] = [];
+    results.forEach((result, txIndex) => {
+      const txId = this.txId(height, txIndex);
+      result.events.forEach(({ event, data }, eventIndex) => {
+        if (event === 'print_event' && data.contract_identifier && data.value) {
+          events.push({ txId, eventIndex, contractId: data.contract_identifier, value: cvToHex(data.value) });
+        }
+      });
+    });
+    return this.append(height, events);
+  }
+
+  /**
+   * Drop every block from a height on, so the session can continue on a fork
+   */
+  rewind(height: number): void {
+    const index = this.blocks.findIndex((block) => block.height >= height);
+    if (index !== -1) {
+      this.blocks.splice(index);
+    }
+    this.rewinds++;
+  }
+
+  /** The recording so far; it keeps growing as more blocks are recorded */
+  toRecording(): Recording {
+    return { blocks: this.blocks };
+  }
+
+  save(path: string): void {
+    writeFileSync(path, JSON.stringify(this.toRecording(), null, 2));
+  }
+
+  private append(height: number, events: RawEvent[]): SourceBlock {
+    const parentHash = this.blocks[this.blocks.length - 1]?.hash ?? '0x' + '00'.repeat(32);
+    const hash =
+      '0x' +
+      createHash('sha256').update(JSON.stringify({ parentHash, height, rewinds: this.rewinds, events })).digest('hex');
+    const block = { height, hash, parentHash, contractHeight: height, events };
+    this.blocks.push(block);
+    return block;
+  }
+
+  // Simnet transactions have no IDs; derive one from the block and position
+  private txId(height: number, txIndex: number): string {
+    return '0x' + createHash('sha256').update(`${this.rewinds}:${height}:${txIndex}`).digest('hex');
+  }
+}
+
+// ════════════════════════════════════════════════════════════════════════════
+// SOURCE
+// ════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Serves the blocks of a recording, e.g. one saved by SimnetRecorder.save
+ */
+export class RecordingSource implements EventSource {
+  private readonly recording: Recording;
+
+  constructor(recording: Recording) {
+    this.recording = recording;
+  }
+
+  static fromFile(path: string): RecordingSource {
+    return new RecordingSource(JSON.parse(readFileSync(path, 'utf8')) as Recording);
+  }
+
+  async getTipHeight(): Promise<number> {
+    const blocks = this.recording.blocks;
+    return blocks.length > 0 ? blocks[blocks.length - 1].height : 0;
+  }
+
+  async getBlockHeader(height: number): Promise<BlockHeader | null> {
+    const block = await this.getBlock(height);
+    return block && { height: block.height, hash: block.hash, parentHash: block.parentHash, contractHeight: block.contractHeight };
+  }
+
+  async getBlock(height: number): Promise<SourceBlock | null> {
+    return this.recording.blocks.find((block) => block.height === height) ?? null;
+  }
+}
@@ -0,0 +1,87 @@
+/**
+ * BiUD Indexer - HTTP API
+ * Read-only JSON queries over the index for the frontend and other integrations
+ */
+
+import { createServer, IncomingMessage, Server, ServerResponse } from 'node:http';
+import { IndexerDatabase } from './db';
+
+// Page sizes of the list endpoints
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 100;
+
+// Default window of /expiring: about 30 days of blocks after the start height
+const DEFAULT_EXPIRY_WINDOW = 4320;
+
+/**
+ * Routes (all GET, heights are contract heights as seen by `block-height`):
+ * - /status                         newest indexed block
+ * - /names/:label                   the label's record on every registrar
+ * - /names/:label/history           events concerning the label, newest first
+ * - /owners/:address/names          names held by an address
+ * - /expiring?from=&to=             names expiring at heights from..to-1 (from defaults to the indexed tip)
+ * List endpoints take `offset` and `limit` (at most 100) and return `{ total, items }`.
+ */
+export function createIndexerServer(database: IndexerDatabase): Server {
+  return createServer((req, res) => {
+    try {
+      route(database, req, res);
+    } catch (error) {
+      console.error('Error serving', req.url, error);
+      send(res, 500, { error: 'Internal error' });
+    }
+  });
+}
+
+function route(database: IndexerDatabase, req: IncomingMessage, res: ServerResponse): void {
+  if (req.method !== 'GET') {
+    send(res, 405, { error: 'Only GET is supported' });
+    return;
+  }
+  const url = new URL(req.url ?? '/', 'http://localhost');
+  const path = url.pathname.split('/').filter(Boolean).map(decodeURIComponent);
+  const page = readPage(url.searchParams);
+  if (!page) {
+    send(res, 400, { error: `offset must be a whole number and limit 1 to ${MAX_PAGE_SIZE}` });
+    return;
+  }
+
+  if (path.length === 1 && path[0] === 'status') {
+    send(res, 200, { block: database.getLatestBlock() });
+  } else if (path.length === 2 && path[0] === 'names') {
+    send(res, 200, { names: database.getNames(path[1]) });
+  } else if (path.length === 3 && path[0] === 'names' && path[2] === 'history') {
+    send(res, 200, database.getHistory(path[1], page.offset, page.limit));
+  } else if (path.length === 3 && path[0] === 'owners' && path[2] === 'names') {
+    send(res, 200, database.getOwnedNames(path[1], page.offset, page.limit));
+  } else if (path.length === 1 && path[0] === 'expiring') {
+    const from = readHeight(url.searchParams.get('from')) ?? database.getLatestBlock()?.contractHeight ?? 0;
+    const to = readHeight(url.searchParams.get('to')) ?? from + DEFAULT_EXPIRY_WINDOW;
+    send(res, 200, database.getExpiringNames(from, to, page.offset, page.limit));
+  } else {
+    send(res, 404, { error: 'Not found' });
+  }
+}
+
+// offset/limit query parameters, or null if they are invalid
+function readPage(params: URLSearchParams): { offset: number; limit: number } | null {
+  const offset = Number(params.get('offset') ?? 0);
+  const limit = Number(params.get('limit') ?? DEFAULT_PAGE_SIZE);
+  if (!Number.isInteger(offset) || offset < 0 || !Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+    return null;
+  }
+  return { offset, limit };
+}
+
+function readHeight(value: string | null): number | null {
+  return value !== null && /^\d+$/.test(value) ? Number(value) : null;
+}
+
+function send(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    // The frontend reads the index straight from the browser
+    'Access-Control-Allow-Origin': '*',
+  });
+  res.end(JSON.stringify(body));
+}
@@ -0,0 +1,197 @@
+/**
+ * BiUD Indexer - Event Sources
+ * Where blocks and their print events come from: a Stacks node API or a recorded simnet session
+ */
+
+import { IndexerError, RawEvent } from './events';
+
+// Page size of the node API's list endpoints
+const PAGE_SIZE = 50;
+
+// ════════════════════════════════════════════════════════════════════════════
+// TYPES
+// ════════════════════════════════════════════════════════════════════════════
+
+export interface BlockHeader {
+  height: number;
+  hash: string;
+  parentHash: string;
+  /**
+   * Height seen by `block-height` in Clarity 2 contracts: the tenure height
+   * after Nakamoto, the Stacks block height before it
+   */
+  contractHeight: number;
+}
+
+export interface SourceBlock extends BlockHeader {
+  /** Print events of the watched contracts, in execution order */
+  events: RawEvent[];
+}
+
+export interface EventSource {
+  /** Height of the newest block the source can serve */
+  getTipHeight(): Promise<number>;
+  /** Header of the block at a height on the source's canonical chain, or null past the tip */
+  getBlockHeader(height: number): Promise<BlockHeader | null>;
+  /** Block at a height on the source's canonical chain with its events, or null past the tip */
+  getBlock(height: number): Promise<SourceBlock | null>;
+}
+
+export interface NodeApiSourceConfig {
+  /** Base URL of a Stacks node API with the extended endpoints (e.g. https://api.hiro.so) */
+  apiUrl: string;
+  /** Contracts whose print events are collected (`address.name`) */
+  contracts: string[];
+}
+
+// Subsets of the node API responses that the source reads
+interface NodeInfoResponse {
+  stacks_tip_height: number;
+}
+
+interface BlockResponse {
+  height: number;
+  hash: string;
+  parent_block_hash: string;
+  tenure_height?: number;
+}
+
+interface BlockTransactionsResponse {
+  total: number;
+  results: {
+    tx_id: string;
+    tx_index: number;
+    tx_status: string;
+    tx_type: string;
+    event_count: number;
+  }[];
+}
+
+interface ContractResponse {
+  block_height: number;
+}
+
+interface TransactionEventsResponse {
+  events: {
+    event_index: number;
+    event_type: string;
+    contract_log?: { contract_id: string; topic: string; value: { hex: string } };
+  }[];
+}
+
+// ════════════════════════════════════════════════════════════════════════════
+// NODE API SOURCE
+// ════════════════════════════════════════════════════════════════════════════
+
+/**
+ * Reads blocks from a Stacks node API. Prints are selected by the contract
+ * that emitted them, whichever contract the transaction called, so a watched
+ * contract reached through another one (such as the registrar transferring a
+ * name for a marketplace sale) is included. Only successful contract calls and
+ * deployments with events can print, and only their events are fetched.
+ */
+export class NodeApiSource implements EventSource {
+  private readonly apiUrl: string;
+  private readonly contracts: ReadonlySet<string>;
+
+  constructor(config: NodeApiSourceConfig) {
+    this.apiUrl = config.apiUrl.replace(/\/$/, '');
+    this.contracts = new Set(config.contracts);
+  }
+
+  // GET a JSON document, or null for 404
+  private async get<T>(path: string): Promise<T | null> {
+    const response = await fetch(`${this.apiUrl}${path}`);
+    if (response.status === 404) {
+      return null;
+    }
+    if (!response.ok) {
+      throw new IndexerError(`Failed to fetch ${path} (HTTP ${response.status})`);
+    }
+    return (await response.json()) as T;
+  }
+
+  async getTipHeight(): Promise<number> {
+    const info = await this.get<NodeInfoResponse>('/v2/info');
+    if (!info) {
+      throw new IndexerError('Failed to fetch the chain tip');
+    }
+    return info.stacks_tip_height;
+  }
+
+  async getBlockHeader(height: number): Promise<BlockHeader | null> {
+    const block = await this.get<BlockResponse>(`/extended/v2/blocks/${height}`);
+    if (!block) {
+      return null;
+    }
+    return {
+      height: block.height,
+      hash: block.hash,
+      parentHash: block.parent_block_hash,
+      contractHeight: block.tenure_height ?? block.height,
+    };
+  }
+
+  async getBlock(height: number): Promise<SourceBlock | null> {
+    const header = await this.getBlockHeader(height);
+    if (!header) {
+      return null;
+    }
+    const events: RawEvent[] = [];
+    for (const txId of await this.getPrintingTransactions(header.hash)) {
+      events.push(...(await this.getTransactionEvents(txId)));
+    }
+    return { ...header, events };
+  }
+
+  /**
+   * Height of the block a contract was deployed in, or null if the node does not know it
+   */
+  async getDeploymentHeight(contractId: string): Promise<number | null> {
+    const contract = await this.get<ContractResponse>(`/extended/v1/contract/${contractId}`);
+    return contract ? contract.block_height : null;
+  }
+
+  // Successful transactions of a block that may have printed, in block order
+  private async getPrintingTransactions(blockHash: string): Promise<string[]> {
+    const transactions: BlockTransactionsResponse['results'] = [];
+    for (let offset = 0; ; offset += PAGE_SIZE) {
+      const page = await this.get<BlockTransactionsResponse>(
+        `/extended/v2/blocks/${blockHash}/transactions?limit=${PAGE_SIZE}&offset=${offset}`
+      );
+      if (!page) {
+        throw new IndexerError(`Block ${blockHash} disappeared while it was read`);
+      }
+      transactions.push(...page.results);
+      if (offset + PAGE_SIZE >= page.total) break;
+    }
+    return transactions
+      .filter(
+        (tx) =>
+          tx.tx_status === 'success' &&
+          (tx.tx_type === 'contract_call' || tx.tx_type === 'smart_contract') &&
+          tx.event_count > 0
+      )
+      .sort((a, b) => a.tx_index - b.tx_index)
+      .map((tx) => tx.tx_id);
+  }
+
+  // Print events of watched contracts in one transaction
+  private async getTransactionEvents(txId: string): Promise<RawEvent[]> {
+    const events: RawEvent[] = [];
+    for (let offset = 0; ; offset += PAGE_SIZE) {
+      const page = await this.get<TransactionEventsResponse>(
+        `/extended/v1/tx/events?tx_id=${txId}&type=smart_contract_log&limit=${PAGE_SIZE}&offset=${offset}`
+      );
+      const batch = page?.events ?? [];
+      for (const event of batch) {
+        const log = event.contract_log;
+        if (log && log.topic === 'print' && this.contracts.has(log.contract_id)) {
+          events.push({ txId, eventIndex: event.event_index, contractId: log.contract_id, value: log.value.hex });
+        }
+      }
+      if (batch.length < PAGE_SIZE) break;
+    }
+    return events.sort((a, b) => a.eventIndex - b.eventIndex);
+  }
+}
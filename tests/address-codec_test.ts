@@ -0,0 +1,97 @@
+/**
+ * ╔══════════════════════════════════════════════════════════════════════════╗
+ * ║  BiUD — Address Codec Tests                                              ║
+ * ║  Chain addresses round-trip through the bytes a resolver stores          ║
+ * ╚══════════════════════════════════════════════════════════════════════════╝
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  COIN_TYPES,
+  COIN_FORMATS,
+  encodeAddress,
+  decodeAddress,
+  getCoinFormat,
+} from "../frontend/src/services/addresses";
+import { BiudError } from "../frontend/src/services/biud";
+import addressVectors from "./fixtures/address-vectors.json";
+
+const toHex = (bytes: Uint8Array) => Buffer.from(bytes).toString("hex");
+const fromHex = (hex: string) => new Uint8Array(Buffer.from(hex, "hex"));
+
+// ════════════════════════════════════════════════════════════════════════════
+// SHARED VECTOR TESTS
+// ════════════════════════════════════════════════════════════════════════════
+
+describe("Address vectors", () => {
+  it.each(addressVectors.valid)("should encode $address", ({ coinType, address, hex }) => {
+    expect(toHex(encodeAddress(coinType, address))).toBe(hex);
+  });
+
+  it.each(addressVectors.valid)("should decode $address", ({ coinType, address, hex }) => {
+    expect(decodeAddress(coinType, fromHex(hex))).toBe(address);
+  });
+
+  it.each(addressVectors.invalid)("should reject $address ($reason)", ({ coinType, address }) => {
+    expect(() => encodeAddress(coinType, address)).toThrow(BiudError);
+  });
+});
+
+// ════════════════════════════════════════════════════════════════════════════
+// ROUND-TRIP TESTS
+// ════════════════════════════════════════════════════════════════════════════
+
+describe("Round trips", () => {
+  it("should have a vector for every known coin type", () => {
+    const covered = new Set(addressVectors.valid.map((vector) => vector.coinType));
+    expect([...COIN_FORMATS.keys()].every((coinType) => covered.has(coinType))).toBe(true);
+  });
+
+  it("should decode every encoded vector back to the same address", () => {
+    for (const { coinType, address } of addressVectors.valid) {
+      expect(decodeAddress(coinType, encodeAddress(coinType, address))).toBe(address);
+    }
+  });
+
+  it("should encode every decoded script back to the same bytes", () => {
+    for (const { coinType, hex } of addressVectors.valid) {
+      expect(toHex(encodeAddress(coinType, decodeAddress(coinType, fromHex(hex))))).toBe(hex);
+    }
+  });
+
+  it("should normalize upper-case bech32 and all-lower-case Ethereum addresses", () => {
+    const segwit = encodeAddress(COIN_TYPES.BTC, "BC1QW508D6QEJXTDG4Y5R3ZARVARY0C5XW7KV8F3T4");
+    expect(decodeAddress(COIN_TYPES.BTC, segwit)).toBe("bc1qw508d6qejxtdg4y5r3zarvary0c5xw7kv8f3t4");
+
+    const account = encodeAddress(COIN_TYPES.ETH, "0x5aaeb6053f3e94c9b9a09f33669435e7ef1beaed");
+    expect(decodeAddress(COIN_TYPES.ETH, account)).toBe("0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAed");
+  });
+
+  it("should round-trip every segwit version and program length", () => {
+    for (const version of [0, 1, 2, 16]) {
+      for (const length of version === 0 ? [20, 32] : [2, 20, 32, 40]) {
+        const script = new Uint8Array([version === 0 ? 0 : 0x50 + version, length, ...Array(length).fill(version + 7)]);
+        const address = decodeAddress(COIN_TYPES.BTC, script);
+        expect(toHex(encodeAddress(COIN_TYPES.BTC, address))).toBe(toHex(script));
+      }
+    }
+  });
+});
+
+// ════════════════════════════════════════════════════════════════════════════
+// VALIDATION TESTS
+// ════════════════════════════════════════════════════════════════════════════
+
+describe("Validation", () => {
+  it("should reject bytes that are not a known output script", () => {
+    expect(() => decodeAddress(COIN_TYPES.BTC, fromHex("6a0468656c6c6f"))).toThrow(BiudError); // OP_RETURN
+    expect(() => decodeAddress(COIN_TYPES.BTC, fromHex("0015" + "00".repeat(21)))).toThrow(BiudError);
+    expect(() => decodeAddress(COIN_TYPES.STX, fromHex("16a46ff8"))).toThrow(BiudError);
+    expect(() => decodeAddress(COIN_TYPES.LIGHTNING, fromHex("02"))).toThrow(BiudError);
+  });
+
+  it("should report unknown coin types", () => {
+    expect(getCoinFormat(12345)).toBeNull();
+    expect(() => decodeAddress(12345, fromHex("00"))).toThrow("Unknown coin type 12345");
+  });
+});
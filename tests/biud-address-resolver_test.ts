@@ -0,0 +1,445 @@
+/**
+ * ╔══════════════════════════════════════════════════════════════════════════╗
+ * ║  BiUD — Multi-Coin Address Resolver Tests                                ║
+ * ║  Addresses keyed by SLIP-44 coin type for v4 names                       ║
+ * ╚══════════════════════════════════════════════════════════════════════════╝
+ */
+
+import { describe, it, expect, beforeEach, beforeAll, afterAll } from "vitest";
+import { createServer, Server } from "node:http";
+import { AddressInfo } from "node:net";
+import { Cl, cvToHex, hexToCV } from "@stacks/transactions";
+import { COIN_TYPES, encodeAddress, decodeAddress } from "../frontend/src/services/addresses";
+import { BiudRegistry, createNetwork } from "../frontend/src/services/biud";
+import type { NetworkDeployment, RegistrarDeployment, ResolverDeployment } from "../frontend/src/services/deployments";
+
+// Test accounts from simnet
+const accounts = simnet.getAccounts();
+const deployer = accounts.get("deployer")!;
+const wallet1 = accounts.get("wallet_1")!; // owner
+const wallet2 = accounts.get("wallet_2")!;
+const wallet3 = accounts.get("wallet_3")!;
+
+const contractName = "biud-address-resolver";
+// The registrar the resolver reads ownership from
+const registrarName = "biud-username-v4";
+const resolverContract = `${deployer}.${contractName}`;
+
+const REGISTRATION_PERIOD = 52560;
+const GRACE_PERIOD = 1008;
+
+const BTC_ADDRESS = "bc1p0xlxvlhemja6c4dqv22uapctqupfhlxm9h8z3k2e72q4k9hcz7vqzk5jj0";
+const LIGHTNING_NODE = "03864ef025fde8fb587d989186ce6a4a186895ee44a926bfc370e2c366597a3f8f";
+
+function registerAlice() {
+  simnet.callPublicFn(registrarName, "register-name", [Cl.stringUtf8("alice"), Cl.uint(1)], wallet1);
+}
+
+function encoded(coinType: number, address: string) {
+  return Cl.buffer(encodeAddress(coinType, address));
+}
+
+function setAddr(coinType: number, address: Uint8Array, sender = wallet1, label = "alice") {
+  return simnet.callPublicFn(
+    contractName,
+    "set-addr",
+    [Cl.stringUtf8(label), Cl.uint(coinType), Cl.buffer(address)],
+    sender
+  );
+}
+
+function setAddrs(records: [number, Uint8Array][], sender = wallet1) {
+  const list = records.map(([coinType, address]) => Cl.tuple({ "coin-type": Cl.uint(coinType), address: Cl.buffer(address) }));
+  return simnet.callPublicFn(contractName, "set-addrs", [Cl.stringUtf8("alice"), Cl.list(list)], sender);
+}
+
+function getAddr(coinType: number) {
+  return simnet.callReadOnlyFn(contractName, "get-addr", [Cl.stringUtf8("alice"), Cl.uint(coinType)], wallet2).result;
+}
+
+function getAddrs() {
+  return simnet.callReadOnlyFn(contractName, "get-addrs", [Cl.stringUtf8("alice")], wallet2).result;
+}
+
+function record(coinType: number, address: string) {
+  return Cl.tuple({ "coin-type": Cl.uint(coinType), address: encoded(coinType, address) });
+}
+
+// ════════════════════════════════════════════════════════════════════════════
+// ADDRESS RECORD TESTS
+// ════════════════════════════════════════════════════════════════════════════
+
+describe("Address Records", () => {
+  beforeEach(registerAlice);
+
+  it("should store an address per coin type", () => {
+    expect(setAddr(COIN_TYPES.BTC, encodeAddress(COIN_TYPES.BTC, BTC_ADDRESS)).result).toBeOk(Cl.bool(true));
+    expect(setAddr(COIN_TYPES.STX, encodeAddress(COIN_TYPES.STX, wallet1)).result).toBeOk(Cl.bool(true));
+    expect(setAddr(COIN_TYPES.LIGHTNING, encodeAddress(COIN_TYPES.LIGHTNING, LIGHTNING_NODE)).result).toBeOk(Cl.bool(true));
+
+    expect(getAddr(COIN_TYPES.BTC)).toBeSome(encoded(COIN_TYPES.BTC, BTC_ADDRESS));
+    expect(getAddr(COIN_TYPES.LIGHTNING)).toBeSome(encoded(COIN_TYPES.LIGHTNING, LIGHTNING_NODE));
+    expect(getAddr(COIN_TYPES.BTC_TESTNET)).toBeNone();
+  });
+
+  it("should round-trip addresses through the codec and the chain", () => {
+    setAddr(COIN_TYPES.STX, encodeAddress(COIN_TYPES.STX, `${deployer}.${registrarName}`));
+
+    const stored = (getAddr(COIN_TYPES.STX) as any).value.buffer;
+    expect(decodeAddress(COIN_TYPES.STX, stored)).toBe(`${deployer}.${registrarName}`);
+  });
+
+  it("should emit an event for every change", () => {
+    const { events } = setAddr(COIN_TYPES.BTC, encodeAddress(COIN_TYPES.BTC, BTC_ADDRESS));
+    const printEvent = events.find((e: any) => e.event === "print_event");
+
+    expect(printEvent?.data.value).toEqual(expect.objectContaining({
+      data: expect.objectContaining({
+        event: Cl.stringAscii("AddressChanged"),
+        label: Cl.stringUtf8("alice"),
+        "coin-type": Cl.uint(COIN_TYPES.BTC),
+        address: encoded(COIN_TYPES.BTC, BTC_ADDRESS),
+      }),
+    }));
+  });
+
+  it("should list every address in the order coin types were first set", () => {
+    setAddr(COIN_TYPES.STX, encodeAddress(COIN_TYPES.STX, wallet1));
+    setAddr(COIN_TYPES.BTC, encodeAddress(COIN_TYPES.BTC, BTC_ADDRESS));
+    setAddr(COIN_TYPES.STX, encodeAddress(COIN_TYPES.STX, wallet2));
+
+    expect(getAddrs()).toBeList([record(COIN_TYPES.STX, wallet2), record(COIN_TYPES.BTC, BTC_ADDRESS)]);
+    expect(
+      simnet.callReadOnlyFn(contractName, "get-coin-types", [Cl.stringUtf8("alice")], wallet2).result
+    ).toBeList([Cl.uint(COIN_TYPES.STX), Cl.uint(COIN_TYPES.BTC)]);
+  });
+
+  it("should clear one coin type, an empty address, or every coin type", () => {
+    setAddr(COIN_TYPES.BTC, encodeAddress(COIN_TYPES.BTC, BTC_ADDRESS));
+    setAddr(COIN_TYPES.STX, encodeAddress(COIN_TYPES.STX, wallet1));
+    setAddr(COIN_TYPES.LIGHTNING, encodeAddress(COIN_TYPES.LIGHTNING, LIGHTNING_NODE));
+
+    expect(
+      simnet.callPublicFn(contractName, "clear-addr", [Cl.stringUtf8("alice"), Cl.uint(COIN_TYPES.BTC)], wallet1).result
+    ).toBeOk(Cl.bool(true));
+    expect(setAddr(COIN_TYPES.STX, new Uint8Array()).result).toBeOk(Cl.bool(true));
+    expect(getAddrs()).toBeList([record(COIN_TYPES.LIGHTNING, LIGHTNING_NODE)]);
+
+    expect(
+      simnet.callPublicFn(contractName, "clear-records", [Cl.stringUtf8("alice")], wallet1).result
+    ).toBeOk(Cl.bool(true));
+    expect(getAddr(COIN_TYPES.LIGHTNING)).toBeNone();
+    expect(getAddrs()).toBeList([]);
+  });
+
+  it("should cap a name at 20 coin types", () => {
+    const address = new Uint8Array([1, 2, 3]);
+    for (let coinType = 0; coinType < 20; coinType++) {
+      expect(setAddr(coinType, address).result).toBeOk(Cl.bool(true));
+    }
+    expect(setAddr(20, address).result).toBeErr(Cl.uint(2005)); // ERR_TOO_MANY_COINS
+    // Clearing one frees a slot
+    setAddr(3, new Uint8Array());
+    expect(setAddr(20, address).result).toBeOk(Cl.bool(true));
+  });
+});
+
+// ════════════════════════════════════════════════════════════════════════════
+// BATCH TESTS
+// ════════════════════════════════════════════════════════════════════════════
+
+describe("Batch Set", () => {
+  beforeEach(registerAlice);
+
+  it("should set and clear several addresses in one call", () => {
+    setAddr(COIN_TYPES.ETH, encodeAddress(COIN_TYPES.ETH, "0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAed"));
+
+    const { result } = setAddrs([
+      [COIN_TYPES.BTC, encodeAddress(COIN_TYPES.BTC, BTC_ADDRESS)],
+      [COIN_TYPES.LIGHTNING, encodeAddress(COIN_TYPES.LIGHTNING, LIGHTNING_NODE)],
+      [COIN_TYPES.ETH, new Uint8Array()],
+    ]);
+    expect(result).toBeOk(Cl.bool(true));
+    expect(getAddrs()).toBeList([
+      record(COIN_TYPES.BTC, BTC_ADDRESS),
+      record(COIN_TYPES.LIGHTNING, LIGHTNING_NODE),
+    ]);
+  });
+
+  it("should apply nothing if the batch goes over the cap", () => {
+    const address = new Uint8Array([1, 2, 3]);
+    for (let coinType = 0; coinType < 19; coinType++) {
+      setAddr(coinType, address);
+    }
+
+    const { result } = setAddrs([[100, address], [101, address]]);
+    expect(result).toBeErr(Cl.uint(2005)); // ERR_TOO_MANY_COINS
+    expect(getAddr(100)).toBeNone();
+  });
+});
+
+// ════════════════════════════════════════════════════════════════════════════
+// AUTHORIZATION TESTS
+// ════════════════════════════════════════════════════════════════════════════
+
+describe("Authorization", () => {
+  beforeEach(registerAlice);
+
+  it("should reject addresses from anyone but the owner or an operator", () => {
+    const address = encodeAddress(COIN_TYPES.STX, wallet2);
+    expect(setAddr(COIN_TYPES.STX, address, wallet2).result).toBeErr(Cl.uint(2001)); // ERR_NOT_OWNER
+    expect(setAddrs([[COIN_TYPES.STX, address]], wallet2).result).toBeErr(Cl.uint(2001));
+    expect(
+      simnet.callPublicFn(contractName, "clear-records", [Cl.stringUtf8("alice")], wallet2).result
+    ).toBeErr(Cl.uint(2001));
+  });
+
+  it("should let an operator approved for the owner edit addresses", () => {
+    simnet.callPublicFn(registrarName, "set-owner-operator", [Cl.principal(wallet2), Cl.bool(false)], wallet1);
+
+    const address = encodeAddress(COIN_TYPES.STX, wallet1);
+    expect(setAddr(COIN_TYPES.STX, address, wallet2).result).toBeOk(Cl.bool(true));
+    expect(setAddr(COIN_TYPES.STX, address, wallet3).result).toBeErr(Cl.uint(2001));
+  });
+
+  it("should reject addresses for unregistered or released names", () => {
+    const address = encodeAddress(COIN_TYPES.STX, wallet1);
+    expect(setAddr(COIN_TYPES.STX, address, wallet1, "ghost").result).toBeErr(Cl.uint(2002)); // ERR_NOT_FOUND
+
+    simnet.mineEmptyBlocks(REGISTRATION_PERIOD + GRACE_PERIOD + 1);
+    expect(setAddr(COIN_TYPES.STX, address).result).toBeErr(Cl.uint(2002));
+  });
+});
+
+// ════════════════════════════════════════════════════════════════════════════
+// RECORD SCOPE TESTS
+// ════════════════════════════════════════════════════════════════════════════
+
+describe("Record Scope", () => {
+  beforeEach(() => {
+    registerAlice();
+    setAddr(COIN_TYPES.BTC, encodeAddress(COIN_TYPES.BTC, BTC_ADDRESS));
+    simnet.callPublicFn(registrarName, "set-resolver", [Cl.stringUtf8("alice"), Cl.principal(resolverContract)], wallet1);
+  });
+
+  function resolveAlice() {
+    return simnet.callPublicFn(
+      registrarName,
+      "resolve-name",
+      [Cl.stringUtf8("alice"), Cl.principal(resolverContract)],
+      wallet2
+    ).result;
+  }
+
+  it("should not resolve to the previous owner's address after a transfer", () => {
+    simnet.callPublicFn(registrarName, "transfer-name", [Cl.stringUtf8("alice"), Cl.principal(wallet2)], wallet1);
+    simnet.callPublicFn(registrarName, "set-resolver", [Cl.stringUtf8("alice"), Cl.principal(resolverContract)], wallet2);
+
+    expect(resolveAlice()).toBeOk(Cl.none());
+    expect(getAddrs()).toBeList([]);
+
+    const bobAddress = "bc1qw508d6qejxtdg4y5r3zarvary0c5xw7kv8f3t4";
+    setAddr(COIN_TYPES.BTC, encodeAddress(COIN_TYPES.BTC, bobAddress), wallet2);
+    expect(resolveAlice()).toBeOk(Cl.some(encoded(COIN_TYPES.BTC, bobAddress)));
+  });
+
+  it("should keep resolving to the seller's address while the marketplace holds the name", () => {
+    simnet.callPublicFn("biud-marketplace", "list-name", [Cl.stringUtf8("alice"), Cl.uint(1_000_000)], wallet1);
+
+    expect(resolveAlice()).toBeOk(Cl.some(encoded(COIN_TYPES.BTC, BTC_ADDRESS)));
+    expect(getAddrs()).toBeList([record(COIN_TYPES.BTC, BTC_ADDRESS)]);
+
+    // The buyer starts with no addresses
+    simnet.callPublicFn("biud-marketplace", "buy-name", [Cl.stringUtf8("alice")], wallet2);
+    expect(getAddrs()).toBeList([]);
+  });
+
+  it("should resolve nothing once the name has fully expired", () => {
+    simnet.mineEmptyBlocks(REGISTRATION_PERIOD + 1);
+    expect(getAddr(COIN_TYPES.BTC)).toBeSome(encoded(COIN_TYPES.BTC, BTC_ADDRESS));
+
+    simnet.mineEmptyBlocks(GRACE_PERIOD);
+    expect(getAddr(COIN_TYPES.BTC)).toBeNone();
+    expect(
+      simnet.callPublicFn(contractName, "resolve", [Cl.stringUtf8("alice"), Cl.principal(wallet1)], wallet2).result
+    ).toBeOk(Cl.none());
+  });
+
+  it("should not resolve to the previous owner's address after re-registration", () => {
+    simnet.mineEmptyBlocks(REGISTRATION_PERIOD + GRACE_PERIOD + 1);
+    simnet.callPublicFn(registrarName, "register-name", [Cl.stringUtf8("alice"), Cl.uint(1)], wallet2);
+    simnet.callPublicFn(registrarName, "set-resolver", [Cl.stringUtf8("alice"), Cl.principal(resolverContract)], wallet2);
+
+    expect(resolveAlice()).toBeOk(Cl.none());
+    expect(getAddrs()).toBeList([]);
+  });
+});
+
+// ════════════════════════════════════════════════════════════════════════════
+// RESOLUTION TESTS
+// ════════════════════════════════════════════════════════════════════════════
+
+describe("Resolution", () => {
+  beforeEach(registerAlice);
+
+  it("should resolve a name to its Bitcoin mainnet address through the registrar", () => {
+    setAddr(COIN_TYPES.BTC, encodeAddress(COIN_TYPES.BTC, BTC_ADDRESS));
+    setAddr(COIN_TYPES.BTC_TESTNET, encodeAddress(COIN_TYPES.BTC_TESTNET, "tb1qw508d6qejxtdg4y5r3zarvary0c5xw7kxpjzsx"));
+    simnet.callPublicFn(registrarName, "set-resolver", [Cl.stringUtf8("alice"), Cl.principal(resolverContract)], wallet1);
+
+    const { result } = simnet.callPublicFn(
+      registrarName,
+      "resolve-name",
+      [Cl.stringUtf8("alice"), Cl.principal(resolverContract)],
+      wallet2
+    );
+    expect(result).toBeOk(Cl.some(encoded(COIN_TYPES.BTC, BTC_ADDRESS)));
+  });
+});
+
+// ════════════════════════════════════════════════════════════════════════════
+// REVERSE LOOKUP TESTS
+// ════════════════════════════════════════════════════════════════════════════
+
+describe("Reverse Lookup", () => {
+  beforeEach(registerAlice);
+
+  function lookup(address: string) {
+    return simnet.callReadOnlyFn(contractName, "lookup-address", [Cl.principal(address)], wallet3).result;
+  }
+
+  function useResolver() {
+    simnet.callPublicFn(registrarName, "set-resolver", [Cl.stringUtf8("alice"), Cl.principal(resolverContract)], wallet1);
+  }
+
+  it("should return the primary name of a name resolving to its owner", () => {
+    expect(lookup(wallet1)).toBeSome(Cl.stringUtf8("alice.sBTC"));
+    expect(lookup(wallet2)).toBeNone();
+  });
+
+  it("should return the primary name while its Stacks address is the one looked up", () => {
+    useResolver();
+    setAddr(COIN_TYPES.STX, encodeAddress(COIN_TYPES.STX, wallet1));
+
+    expect(lookup(wallet1)).toBeSome(Cl.stringUtf8("alice.sBTC"));
+  });
+
+  it("should not return a name whose Stacks address points elsewhere", () => {
+    useResolver();
+    setAddr(COIN_TYPES.STX, encodeAddress(COIN_TYPES.STX, wallet2));
+
+    expect(lookup(wallet1)).toBeNone();
+    expect(lookup(wallet2)).toBeNone(); // not wallet2's primary name either
+  });
+
+  it("should tell a contract principal apart from the address that deployed it", () => {
+    useResolver();
+    setAddr(COIN_TYPES.STX, encodeAddress(COIN_TYPES.STX, `${wallet1}.vault`));
+    expect(lookup(wallet1)).toBeNone();
+
+    setAddr(COIN_TYPES.STX, encodeAddress(COIN_TYPES.STX, wallet1));
+    expect(lookup(wallet1)).toBeSome(Cl.stringUtf8("alice.sBTC"));
+  });
+
+  it("should ignore Stacks addresses of a resolver the name no longer uses", () => {
+    useResolver();
+    setAddr(COIN_TYPES.STX, encodeAddress(COIN_TYPES.STX, wallet2));
+    simnet.callPublicFn(registrarName, "clear-resolver", [Cl.stringUtf8("alice")], wallet1);
+
+    expect(lookup(wallet1)).toBeSome(Cl.stringUtf8("alice.sBTC"));
+  });
+
+  it("should stop returning a name once it is transferred or expired", () => {
+    useResolver();
+    setAddr(COIN_TYPES.STX, encodeAddress(COIN_TYPES.STX, wallet1));
+    simnet.callPublicFn(registrarName, "register-name", [Cl.stringUtf8("bob"), Cl.uint(1)], wallet2);
+
+    simnet.callPublicFn(registrarName, "transfer-name", [Cl.stringUtf8("alice"), Cl.principal(wallet2)], wallet1);
+    expect(lookup(wallet1)).toBeNone();
+    expect(lookup(wallet2)).toBeSome(Cl.stringUtf8("bob.sBTC"));
+
+    simnet.mineEmptyBlocks(REGISTRATION_PERIOD);
+    expect(lookup(wallet2)).toBeNone();
+  });
+});
+
+// ════════════════════════════════════════════════════════════════════════════
+// SERVICE TESTS
+// ════════════════════════════════════════════════════════════════════════════
+
+describe("Reverse lookup in services/biud.ts", () => {
+  let server: Server;
+  let url: string;
+
+  const registrar: RegistrarDeployment = { contractName: registrarName, version: 4, source: "", capabilities: ["primary-names", "reverse-resolution"] };
+  const resolver: ResolverDeployment = { contractName, registrar: registrarName, source: "", capabilities: ["multi-coin", "reverse-lookup"] };
+
+  function registry(deployment: Partial<NetworkDeployment>) {
+    return new BiudRegistry(createNetwork("devnet", url), {
+      address: deployer,
+      registrars: [],
+      resolvers: [],
+      marketplaces: [],
+      ...deployment,
+    });
+  }
+
+  // Local stand-in for the node API that answers read-only calls from simnet
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      const match = req.url?.match(/^\/v2\/contracts\/call-read\/([^/]+)\/([^/]+)\/([^/?]+)/);
+      let body = "";
+      req.on("data", (chunk) => (body += chunk));
+      req.on("end", () => {
+        if (!match) {
+          res.writeHead(404);
+          res.end();
+          return;
+        }
+        const { sender, arguments: args } = JSON.parse(body);
+        const result = simnet.callReadOnlyFn(match[2], match[3], args.map((arg: string) => hexToCV(arg)), sender).result;
+        res.writeHead(200, { "Content-Type": "application/json" });
+        res.end(JSON.stringify({ okay: true, result: cvToHex(result) }));
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(registerAlice);
+
+  it("should return a name that resolves forward to the address", async () => {
+    const biud = registry({ registrars: [registrar], resolvers: [resolver] });
+    simnet.callPublicFn(registrarName, "set-resolver", [Cl.stringUtf8("alice"), Cl.principal(resolverContract)], wallet1);
+    setAddr(COIN_TYPES.STX, encodeAddress(COIN_TYPES.STX, wallet1));
+
+    expect(await biud.lookupAddress(wallet1)).toBe("alice.sBTC");
+    expect(await biud.lookupAddress(wallet2)).toBeNull();
+  });
+
+  it("should not return a name whose Stacks address points elsewhere", async () => {
+    const biud = registry({ registrars: [registrar], resolvers: [resolver] });
+    simnet.callPublicFn(registrarName, "set-resolver", [Cl.stringUtf8("alice"), Cl.principal(resolverContract)], wallet1);
+    setAddr(COIN_TYPES.STX, encodeAddress(COIN_TYPES.STX, wallet2));
+
+    expect(await biud.lookupAddress(wallet1)).toBeNull();
+  });
+
+  it("should fall back to the registrar's reverse resolution without a reverse-lookup resolver", async () => {
+    const biud = registry({ registrars: [registrar] });
+
+    expect(await biud.lookupAddress(wallet1)).toBe("alice.sBTC");
+    simnet.callPublicFn(registrarName, "transfer-name", [Cl.stringUtf8("alice"), Cl.principal(wallet2)], wallet1);
+    expect(await biud.lookupAddress(wallet1)).toBeNull();
+  });
+
+  it("should return no name when no registrar verifies reverse resolution", async () => {
+    const biud = registry({ registrars: [{ ...registrar, capabilities: ["primary-names"] }] });
+
+    expect(await biud.lookupAddress(wallet1)).toBeNull();
+  });
+});
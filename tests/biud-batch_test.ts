@@ -0,0 +1,196 @@
+/**
+ * ╔══════════════════════════════════════════════════════════════════════════╗
+ * ║  BiUD — Batch Registration & Renewal Tests                               ║
+ * ║  register-names / renew-names with per-label results and fee quotes      ║
+ * ╚══════════════════════════════════════════════════════════════════════════╝
+ */
+
+import { describe, it, expect } from "vitest";
+import { Cl } from "@stacks/transactions";
+
+// Test accounts from simnet
+const accounts = simnet.getAccounts();
+const deployer = accounts.get("deployer")!;
+const wallet1 = accounts.get("wallet_1")!;
+const wallet2 = accounts.get("wallet_2")!;
+
+const contractName = "biud-username-v4";
+
+const BASE_FEE = 10_000_000;
+const RENEW_FEE = 5_000_000;
+const PREMIUM_MULTIPLIER = 5;
+const REGISTRATION_PERIOD = 52560;
+const GRACE_PERIOD = 1008;
+
+function labels(...names: string[]) {
+  return Cl.list(names.map((name) => Cl.stringUtf8(name)));
+}
+
+function registerNames(names: string[], years: number, sender = wallet1) {
+  return simnet.callPublicFn(contractName, "register-names", [labels(...names), Cl.uint(years)], sender);
+}
+
+function renewNames(names: string[], years: number, sender = wallet1) {
+  return simnet.callPublicFn(contractName, "renew-names", [labels(...names), Cl.uint(years)], sender);
+}
+
+function readOnly(fn: string, args: any[]) {
+  return simnet.callReadOnlyFn(contractName, fn, args, wallet1).result;
+}
+
+function stxPaid(events: any[]) {
+  return events
+    .filter((e: any) => e.event === "stx_transfer_event")
+    .reduce((total: number, e: any) => total + Number(e.data.amount), 0);
+}
+
+// ════════════════════════════════════════════════════════════════════════════
+// BATCH REGISTRATION TESTS
+// ════════════════════════════════════════════════════════════════════════════
+
+describe("Batch Registration", () => {
+  it("should register every label in one transaction", () => {
+    const { result, events } = registerNames(["alice", "alicia", "alison"], 2);
+    const expiry = simnet.blockHeight + 2 * REGISTRATION_PERIOD;
+
+    expect(result).toBeOk(Cl.list([
+      Cl.ok(Cl.tuple({
+        "name-id": Cl.uint(1),
+        "full-name": Cl.stringUtf8("alice.sBTC"),
+        "expiry-height": Cl.uint(expiry),
+        "fee-paid": Cl.uint(2 * BASE_FEE),
+        "is-primary": Cl.bool(true),
+      })),
+      Cl.ok(Cl.tuple({
+        "name-id": Cl.uint(2),
+        "full-name": Cl.stringUtf8("alicia.sBTC"),
+        "expiry-height": Cl.uint(expiry),
+        "fee-paid": Cl.uint(2 * BASE_FEE),
+        "is-primary": Cl.bool(false),
+      })),
+      Cl.ok(Cl.tuple({
+        "name-id": Cl.uint(3),
+        "full-name": Cl.stringUtf8("alison.sBTC"),
+        "expiry-height": Cl.uint(expiry),
+        "fee-paid": Cl.uint(2 * BASE_FEE),
+        "is-primary": Cl.bool(false),
+      })),
+    ]));
+    expect(stxPaid(events)).toBe(3 * 2 * BASE_FEE);
+    expect(readOnly("get-name-owner", [Cl.stringUtf8("alison")])).toBeSome(Cl.principal(wallet1));
+    expect(readOnly("get-primary-label", [Cl.principal(wallet1)])).toBeSome(Cl.stringUtf8("alice"));
+  });
+
+  it("should report failed labels without reverting the others", () => {
+    simnet.callPublicFn(contractName, "register-name", [Cl.stringUtf8("bobby"), Cl.uint(1)], wallet2);
+
+    const { result, events } = registerNames(["alice", "bobby", "Bad!", "alicia"], 1);
+    const results = (result as any).value.list;
+
+    expect(results[0]).toBeOk(expect.anything());
+    expect(results[1]).toBeErr(Cl.uint(1001)); // ERR_NAME_TAKEN
+    expect(results[2]).toBeErr(Cl.uint(1012)); // ERR_INVALID_CHARACTER
+    expect(results[3]).toBeOk(expect.anything());
+    // Only the two registered names are paid for, and the failures use no token ID
+    expect(stxPaid(events)).toBe(2 * BASE_FEE);
+    expect(readOnly("get-last-token-id", [])).toBeOk(Cl.uint(3));
+    expect(readOnly("get-name-owner", [Cl.stringUtf8("bobby")])).toBeSome(Cl.principal(wallet2));
+  });
+
+  it("should reject an invalid number of years for the whole batch", () => {
+    expect(registerNames(["alice"], 0).result).toBeErr(Cl.uint(1019)); // ERR_INVALID_YEARS
+    expect(registerNames(["alice"], 11).result).toBeErr(Cl.uint(1019));
+  });
+
+  it("should quote the fee of each label and the total", () => {
+    expect(readOnly("get-batch-registration-fee", [labels("alice", "bob"), Cl.uint(2)])).toBeTuple({
+      fees: Cl.list([Cl.uint(2 * BASE_FEE), Cl.uint(2 * BASE_FEE * PREMIUM_MULTIPLIER)]),
+      total: Cl.uint(2 * BASE_FEE * (1 + PREMIUM_MULTIPLIER)),
+    });
+    expect(readOnly("get-batch-registration-fee", [labels(), Cl.uint(1)])).toBeTuple({
+      fees: Cl.list([]),
+      total: Cl.uint(0),
+    });
+  });
+
+  it("should include release premiums in the quote", () => {
+    registerNames(["alice"], 1);
+    simnet.mineEmptyBlocks(REGISTRATION_PERIOD + GRACE_PERIOD + 1);
+
+    const auction = readOnly("get-registration-fee", [Cl.stringUtf8("alice"), Cl.uint(1)]);
+    expect(readOnly("get-batch-registration-fee", [labels("alice"), Cl.uint(1)])).toBeTuple({
+      fees: Cl.list([auction]),
+      total: auction,
+    });
+  });
+});
+
+// ════════════════════════════════════════════════════════════════════════════
+// BATCH RENEWAL TESTS
+// ════════════════════════════════════════════════════════════════════════════
+
+describe("Batch Renewal", () => {
+  it("should renew every label in one transaction", () => {
+    registerNames(["alice", "alicia"], 1);
+    const expiry = simnet.blockHeight + REGISTRATION_PERIOD;
+
+    const { result, events } = renewNames(["alice", "alicia"], 3);
+    expect(result).toBeOk(Cl.list([
+      Cl.ok(Cl.tuple({ "new-expiry-height": Cl.uint(expiry + 3 * REGISTRATION_PERIOD), "fee-paid": Cl.uint(3 * RENEW_FEE) })),
+      Cl.ok(Cl.tuple({ "new-expiry-height": Cl.uint(expiry + 3 * REGISTRATION_PERIOD), "fee-paid": Cl.uint(3 * RENEW_FEE) })),
+    ]));
+    expect(stxPaid(events)).toBe(2 * 3 * RENEW_FEE);
+  });
+
+  it("should report failed renewals without reverting the others", () => {
+    registerNames(["alice"], 1);
+    registerNames(["bobby"], 1, wallet2);
+    simnet.mineEmptyBlocks(REGISTRATION_PERIOD);
+
+    // bobby is in its grace period, so only wallet2 may renew it
+    const { result, events } = renewNames(["alice", "bobby", "nobody"], 1);
+    const results = (result as any).value.list;
+
+    expect(results[0]).toBeOk(expect.anything());
+    expect(results[1]).toBeErr(Cl.uint(1007)); // ERR_IN_GRACE_PERIOD
+    expect(results[2]).toBeErr(Cl.uint(1009)); // ERR_NAME_NOT_FOUND
+    expect(stxPaid(events)).toBe(RENEW_FEE);
+  });
+
+  it("should not charge a renewal that would go past the maximum", () => {
+    registerNames(["alice"], 10);
+    registerNames(["alison"], 1);
+
+    const { result, events } = renewNames(["alice", "alison"], 1);
+    const results = (result as any).value.list;
+
+    expect(results[0]).toBeErr(Cl.uint(1019)); // ERR_INVALID_YEARS
+    expect(results[1]).toBeOk(expect.anything());
+    expect(stxPaid(events)).toBe(RENEW_FEE);
+  });
+
+  it("should quote the total renewal fee", () => {
+    expect(readOnly("get-batch-renewal-fee", [labels("alice", "alicia", "bob"), Cl.uint(2)])).toBeUint(3 * 2 * RENEW_FEE);
+  });
+});
+
+// ════════════════════════════════════════════════════════════════════════════
+// PAYMENT TESTS
+// ════════════════════════════════════════════════════════════════════════════
+
+describe("Batch Payment", () => {
+  it("should skip labels the sender can no longer pay for", () => {
+    // Leave wallet2 with enough for exactly two names
+    const balance = Number(simnet.getAssetsMap().get("STX")?.get(wallet2));
+    simnet.transferSTX(balance - 2 * BASE_FEE - 1_000, deployer, wallet2);
+
+    const { result, events } = registerNames(["alice", "alicia", "alison"], 1, wallet2);
+    const results = (result as any).value.list;
+
+    expect(results[0]).toBeOk(expect.anything());
+    expect(results[1]).toBeOk(expect.anything());
+    expect(results[2]).toBeErr(Cl.uint(1006)); // ERR_PAYMENT_FAILED
+    expect(stxPaid(events)).toBe(2 * BASE_FEE);
+    expect(readOnly("is-available", [Cl.stringUtf8("alison")])).toBeBool(true);
+  });
+});
@@ -0,0 +1,201 @@
+/**
+ * ╔══════════════════════════════════════════════════════════════════════════╗
+ * ║  BiUD — Commit-Reveal Registration Tests                                 ║
+ * ║  Committing to a hidden label and revealing it after the minimum delay   ║
+ * ╚══════════════════════════════════════════════════════════════════════════╝
+ */
+
+import { describe, it, expect } from "vitest";
+import { Cl } from "@stacks/transactions";
+import { makeCommitment } from "../frontend/src/services/biud";
+
+// Test accounts from simnet
+const accounts = simnet.getAccounts();
+const wallet1 = accounts.get("wallet_1")!;
+const wallet2 = accounts.get("wallet_2")!;
+
+const contractName = "biud-username-v4";
+
+const REGISTRATION_PERIOD = 52560;
+const MIN_COMMITMENT_AGE = 6;
+const MAX_COMMITMENT_AGE = 1008;
+const BASE_FEE = 10_000_000;
+
+const SALT = new Uint8Array(32).fill(7);
+const OTHER_SALT = new Uint8Array(32).fill(8);
+
+/**
+ * Commit to a label and return the commitment's creation height
+ */
+async function commit(label: string, sender: string, salt = SALT): Promise<number> {
+  const commitment = await makeCommitment(label, sender, salt);
+  const { result } = simnet.callPublicFn(contractName, "commit-name", [Cl.buffer(commitment)], sender);
+  expect(result).toBeOk(expect.anything());
+  return simnet.blockHeight;
+}
+
+function reveal(label: string, sender: string, salt = SALT, years = 1) {
+  return simnet.callPublicFn(
+    contractName,
+    "reveal-name",
+    [Cl.stringUtf8(label), Cl.buffer(salt), Cl.uint(years)],
+    sender
+  );
+}
+
+// Public calls run in the block after the current one
+function mineUntilCallAt(height: number) {
+  simnet.mineEmptyBlocks(height - 1 - simnet.blockHeight);
+}
+
+function getOwner(label: string) {
+  return simnet.callReadOnlyFn(contractName, "get-name-owner", [Cl.stringUtf8(label)], wallet1).result;
+}
+
+async function getCommitment(label: string, committer: string) {
+  const commitment = await makeCommitment(label, committer, SALT);
+  return simnet.callReadOnlyFn(
+    contractName,
+    "get-commitment",
+    [Cl.principal(committer), Cl.buffer(commitment)],
+    committer
+  ).result;
+}
+
+// ════════════════════════════════════════════════════════════════════════════
+// COMMITMENT TESTS
+// ════════════════════════════════════════════════════════════════════════════
+
+describe("Commitments", () => {
+  it("should compute the same commitment as the frontend", async () => {
+    const result = simnet.callReadOnlyFn(
+      contractName,
+      "make-commitment",
+      [Cl.stringUtf8("alice"), Cl.principal(wallet1), Cl.buffer(SALT)],
+      wallet1
+    ).result;
+
+    expect(result).toBeBuff(await makeCommitment("alice", wallet1, SALT));
+  });
+
+  it("should bind the commitment to the owner and salt", async () => {
+    const base = await makeCommitment("alice", wallet1, SALT);
+
+    expect(await makeCommitment("alice", wallet2, SALT)).not.toEqual(base);
+    expect(await makeCommitment("alice", wallet1, OTHER_SALT)).not.toEqual(base);
+    expect(await makeCommitment("alicf", wallet1, SALT)).not.toEqual(base);
+  });
+
+  it("should store a commitment and report when it can be revealed", async () => {
+    const commitment = await makeCommitment("alice", wallet1, SALT);
+    const { result } = simnet.callPublicFn(contractName, "commit-name", [Cl.buffer(commitment)], wallet1);
+    const createdAt = simnet.blockHeight;
+
+    expect(result).toBeOk(
+      Cl.tuple({
+        "created-at": Cl.uint(createdAt),
+        "reveal-from": Cl.uint(createdAt + MIN_COMMITMENT_AGE),
+      })
+    );
+    expect(await getCommitment("alice", wallet1)).toBeSome(Cl.tuple({ "created-at": Cl.uint(createdAt) }));
+    // Committing does not register anything
+    expect(getOwner("alice")).toBeNone();
+  });
+
+  it("should report the reveal window", () => {
+    const result = simnet.callReadOnlyFn(contractName, "get-commitment-ages", [], wallet1).result;
+    expect(result).toBeTuple({
+      "min-age": Cl.uint(MIN_COMMITMENT_AGE),
+      "max-age": Cl.uint(MAX_COMMITMENT_AGE),
+    });
+  });
+});
+
+// ════════════════════════════════════════════════════════════════════════════
+// REVEAL TESTS
+// ════════════════════════════════════════════════════════════════════════════
+
+describe("Reveal", () => {
+  it("should register the name once the commitment is old enough", async () => {
+    const createdAt = await commit("alice", wallet1);
+    mineUntilCallAt(createdAt + MIN_COMMITMENT_AGE);
+
+    const result = reveal("alice", wallet1);
+    expect(result.result).toBeOk(
+      Cl.tuple({
+        "name-id": Cl.uint(1),
+        "full-name": Cl.stringUtf8("alice.sBTC"),
+        "expiry-height": Cl.uint(simnet.blockHeight + REGISTRATION_PERIOD),
+        "fee-paid": Cl.uint(BASE_FEE),
+        "is-primary": Cl.bool(true),
+      })
+    );
+    expect(getOwner("alice")).toBeSome(Cl.principal(wallet1));
+    // The commitment is spent
+    expect(await getCommitment("alice", wallet1)).toBeNone();
+  });
+
+  it("should register for the revealed number of years", async () => {
+    const createdAt = await commit("alice", wallet1);
+    mineUntilCallAt(createdAt + MIN_COMMITMENT_AGE);
+
+    const result = reveal("alice", wallet1, SALT, 3);
+    expect(result.result).toBeOk(expect.anything());
+    const expiry = simnet.callReadOnlyFn(contractName, "get-expiry", [Cl.stringUtf8("alice")], wallet1).result;
+    expect(expiry).toBeSome(Cl.uint(simnet.blockHeight + 3 * REGISTRATION_PERIOD));
+  });
+
+  it("should reject a reveal before the minimum delay", async () => {
+    const createdAt = await commit("alice", wallet1);
+    mineUntilCallAt(createdAt + MIN_COMMITMENT_AGE - 1);
+
+    expect(reveal("alice", wallet1).result).toBeErr(Cl.uint(1021)); // ERR_COMMITMENT_TOO_NEW
+    // The same commitment can still be revealed one block later
+    expect(reveal("alice", wallet1).result).toBeOk(expect.anything());
+  });
+
+  it("should reject a reveal after the commitment expires", async () => {
+    const createdAt = await commit("alice", wallet1);
+    mineUntilCallAt(createdAt + MAX_COMMITMENT_AGE + 1);
+
+    expect(reveal("alice", wallet1).result).toBeErr(Cl.uint(1022)); // ERR_COMMITMENT_EXPIRED
+  });
+
+  it("should restart the wait when committing again", async () => {
+    await commit("alice", wallet1);
+    mineUntilCallAt(simnet.blockHeight + MAX_COMMITMENT_AGE);
+    const createdAt = await commit("alice", wallet1);
+
+    mineUntilCallAt(createdAt + MIN_COMMITMENT_AGE);
+    expect(reveal("alice", wallet1).result).toBeOk(expect.anything());
+  });
+
+  it("should reject a reveal without a commitment", () => {
+    expect(reveal("alice", wallet1).result).toBeErr(Cl.uint(1020)); // ERR_COMMITMENT_NOT_FOUND
+  });
+
+  it("should reject a reveal with the wrong salt", async () => {
+    const createdAt = await commit("alice", wallet1);
+    mineUntilCallAt(createdAt + MIN_COMMITMENT_AGE);
+
+    expect(reveal("alice", wallet1, OTHER_SALT).result).toBeErr(Cl.uint(1020));
+  });
+
+  it("should not let anyone else reveal a commitment", async () => {
+    const createdAt = await commit("alice", wallet1);
+    mineUntilCallAt(createdAt + MIN_COMMITMENT_AGE);
+
+    // wallet2 saw the label and salt, but the commitment names wallet1 as owner
+    expect(reveal("alice", wallet2).result).toBeErr(Cl.uint(1020));
+    expect(getOwner("alice")).toBeNone();
+  });
+
+  it("should keep the commitment when the name was taken meanwhile", async () => {
+    const createdAt = await commit("alice", wallet1);
+    simnet.callPublicFn(contractName, "register-name", [Cl.stringUtf8("alice"), Cl.uint(1)], wallet2);
+    mineUntilCallAt(createdAt + MIN_COMMITMENT_AGE);
+
+    expect(reveal("alice", wallet1).result).toBeErr(Cl.uint(1001)); // ERR_NAME_TAKEN
+    expect(await getCommitment("alice", wallet1)).toBeSome(Cl.tuple({ "created-at": Cl.uint(createdAt) }));
+  });
+});
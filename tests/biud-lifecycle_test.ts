@@ -0,0 +1,244 @@
+/**
+ * ╔══════════════════════════════════════════════════════════════════════════╗
+ * ║  BiUD — Expiry and Grace Period Lifecycle Tests                          ║
+ * ║  Mines past the registration and grace periods for each registrar        ║
+ * ╚══════════════════════════════════════════════════════════════════════════╝
+ */
+
+import { describe, it, expect } from "vitest";
+import { Cl } from "@stacks/transactions";
+
+// Test accounts from simnet
+const accounts = simnet.getAccounts();
+const wallet1 = accounts.get("wallet_1")!;
+const wallet2 = accounts.get("wallet_2")!;
+const wallet3 = accounts.get("wallet_3")!;
+
+const REGISTRATION_PERIOD = 52560;
+const GRACE_PERIOD = 1008;
+
+// Every deployable registrar version. biud-username.clar (v1) is left out
+// because its banner comment is not ASCII and Clarity rejects the source.
+const registrars = ["biud-username-v3", "biud-username-v4"];
+
+// Arguments for register-name / renew-name: v4 also takes the number of years
+function nameArgs(contractName: string, label: string) {
+  const args = [Cl.stringUtf8(label)];
+  return contractName === "biud-username-v3" ? args : [...args, Cl.uint(1)];
+}
+
+// Owner lookup by label: v4 renamed it, get-owner is its SIP-009 lookup by token ID
+function ownerFn(contractName: string) {
+  return contractName === "biud-username-v3" ? "get-owner" : "get-name-owner";
+}
+
+/**
+ * Register a label and return its expiry height
+ */
+function register(contractName: string, label: string, sender: string): number {
+  const { result } = simnet.callPublicFn(contractName, "register-name", nameArgs(contractName, label), sender);
+  expect(result).toBeOk(expect.anything());
+  return simnet.blockHeight + REGISTRATION_PERIOD;
+}
+
+// Read-only calls see the current block height, public calls run in the next block
+function mineUntilReadAt(height: number) {
+  simnet.mineEmptyBlocks(height - simnet.blockHeight);
+}
+
+function mineUntilCallAt(height: number) {
+  simnet.mineEmptyBlocks(height - 1 - simnet.blockHeight);
+}
+
+function readOnly(contractName: string, fn: string, label: string) {
+  return simnet.callReadOnlyFn(contractName, fn, [Cl.stringUtf8(label)], wallet1).result;
+}
+
+// ════════════════════════════════════════════════════════════════════════════
+// LIFECYCLE TESTS (ALL VERSIONS)
+// ════════════════════════════════════════════════════════════════════════════
+
+describe.each(registrars)("Expiry Lifecycle (%s)", (contractName) => {
+  it("should stay active up to and including the expiry height", () => {
+    const expiry = register(contractName, "alice", wallet1);
+    mineUntilReadAt(expiry);
+
+    expect(readOnly(contractName, "is-name-in-grace-period", "alice")).toBeBool(false);
+    expect(readOnly(contractName, "is-name-fully-expired", "alice")).toBeBool(false);
+    expect(readOnly(contractName, "is-available", "alice")).toBeBool(false);
+  });
+
+  it("should enter the grace period one block after expiry", () => {
+    const expiry = register(contractName, "alice", wallet1);
+
+    mineUntilReadAt(expiry + 1);
+    expect(readOnly(contractName, "is-name-in-grace-period", "alice")).toBeBool(true);
+    expect(readOnly(contractName, "is-available", "alice")).toBeBool(false);
+
+    mineUntilReadAt(expiry + GRACE_PERIOD);
+    expect(readOnly(contractName, "is-name-in-grace-period", "alice")).toBeBool(true);
+    expect(readOnly(contractName, "is-name-fully-expired", "alice")).toBeBool(false);
+  });
+
+  it("should fully expire once the grace period ends", () => {
+    const expiry = register(contractName, "alice", wallet1);
+    mineUntilReadAt(expiry + GRACE_PERIOD + 1);
+
+    expect(readOnly(contractName, "is-name-in-grace-period", "alice")).toBeBool(false);
+    expect(readOnly(contractName, "is-name-fully-expired", "alice")).toBeBool(true);
+    expect(readOnly(contractName, "is-available", "alice")).toBeBool(true);
+  });
+
+  it("should let only the previous owner renew during grace", () => {
+    const expiry = register(contractName, "alice", wallet1);
+    mineUntilCallAt(expiry + 1);
+
+    const byOther = simnet.callPublicFn(contractName, "renew-name", nameArgs(contractName, "alice"), wallet2);
+    expect(byOther.result).toBeErr(Cl.uint(1007)); // ERR_IN_GRACE_PERIOD
+
+    // Renewal extends from the old expiry, not the current block
+    const byOwner = simnet.callPublicFn(contractName, "renew-name", nameArgs(contractName, "alice"), wallet1);
+    expect(byOwner.result).toBeOk(Cl.tuple({
+      "new-expiry-height": Cl.uint(expiry + REGISTRATION_PERIOD),
+      "fee-paid": Cl.uint(5000000),
+    }));
+    expect(readOnly(contractName, "is-name-in-grace-period", "alice")).toBeBool(false);
+  });
+
+  it("should let anyone renew before expiry", () => {
+    const expiry = register(contractName, "alice", wallet1);
+    mineUntilCallAt(expiry);
+
+    const result = simnet.callPublicFn(contractName, "renew-name", nameArgs(contractName, "alice"), wallet2);
+    expect(result.result).toBeOk(Cl.tuple({
+      "new-expiry-height": Cl.uint(expiry + REGISTRATION_PERIOD),
+      "fee-paid": Cl.uint(5000000),
+    }));
+  });
+
+  it("should block registration, transfer and resolver changes during grace", () => {
+    const expiry = register(contractName, "alice", wallet1);
+    mineUntilCallAt(expiry + 1);
+
+    expect(
+      simnet.callPublicFn(contractName, "register-name", nameArgs(contractName, "alice"), wallet2).result
+    ).toBeErr(Cl.uint(1001)); // ERR_NAME_TAKEN
+    expect(
+      simnet.callPublicFn(contractName, "transfer-name", [Cl.stringUtf8("alice"), Cl.principal(wallet2)], wallet1).result
+    ).toBeErr(Cl.uint(1002)); // ERR_NAME_EXPIRED
+    expect(
+      simnet.callPublicFn(contractName, "set-resolver", [Cl.stringUtf8("alice"), Cl.principal(wallet3)], wallet1).result
+    ).toBeErr(Cl.uint(1002)); // ERR_NAME_EXPIRED
+  });
+
+  it("should refuse renewal after full expiry", () => {
+    const expiry = register(contractName, "alice", wallet1);
+    mineUntilCallAt(expiry + GRACE_PERIOD + 1);
+
+    const result = simnet.callPublicFn(contractName, "renew-name", nameArgs(contractName, "alice"), wallet1);
+    expect(result.result).toBeErr(Cl.uint(1002)); // ERR_NAME_EXPIRED
+  });
+
+  it("should let anyone re-register after full expiry", () => {
+    const expiry = register(contractName, "alice", wallet1);
+    register(contractName, "alice2", wallet1);
+    mineUntilCallAt(expiry + GRACE_PERIOD + 1);
+
+    const result = simnet.callPublicFn(contractName, "register-name", nameArgs(contractName, "alice"), wallet2);
+    expect(result.result).toBeOk(expect.anything());
+    expect(
+      simnet.callReadOnlyFn(contractName, ownerFn(contractName), [Cl.stringUtf8("alice")], wallet1).result
+    ).toBeSome(Cl.principal(wallet2));
+
+    // The re-registration gets a fresh id and the old id is dropped from the previous owner
+    const nameId = (result.result as any).value.data["name-id"];
+    expect(nameId).toBeUint(3);
+    expect(
+      simnet.callReadOnlyFn(contractName, "get-names-by-owner", [Cl.principal(wallet1)], wallet1).result
+    ).toBeTuple({ "name-ids": Cl.list([Cl.uint(2)]) });
+    expect(
+      simnet.callReadOnlyFn(contractName, "get-names-by-owner", [Cl.principal(wallet2)], wallet2).result
+    ).toBeTuple({ "name-ids": Cl.list([Cl.uint(3)]) });
+    expect(
+      simnet.callReadOnlyFn(contractName, "get-label-by-id", [Cl.uint(3)], wallet1).result
+    ).toBeSome(Cl.stringUtf8("alice"));
+  });
+
+  it("should restart the registration period for the new owner", () => {
+    const expiry = register(contractName, "alice", wallet1);
+    mineUntilCallAt(expiry + GRACE_PERIOD + 1);
+
+    const newExpiry = register(contractName, "alice", wallet2);
+    expect(newExpiry).toBe(expiry + GRACE_PERIOD + 1 + REGISTRATION_PERIOD);
+    expect(readOnly(contractName, "get-expiry", "alice")).toBeSome(Cl.uint(newExpiry));
+    expect(readOnly(contractName, "is-name-fully-expired", "alice")).toBeBool(false);
+  });
+});
+
+// ════════════════════════════════════════════════════════════════════════════
+// PRIMARY NAME LIFECYCLE TESTS (V4)
+// ════════════════════════════════════════════════════════════════════════════
+
+describe("Primary Name Lifecycle (biud-username-v4)", () => {
+  const contractName = "biud-username-v4";
+
+  function primaryLabel(address: string) {
+    return simnet.callReadOnlyFn(contractName, "get-primary-label", [Cl.principal(address)], address).result;
+  }
+
+  it("should stop reporting an expired primary name", () => {
+    const expiry = register(contractName, "alice", wallet1);
+
+    mineUntilReadAt(expiry);
+    expect(primaryLabel(wallet1)).toBeSome(Cl.stringUtf8("alice"));
+
+    mineUntilReadAt(expiry + 1);
+    expect(primaryLabel(wallet1)).toBeNone();
+    expect(
+      simnet.callReadOnlyFn(contractName, "resolve-address", [Cl.principal(wallet1)], wallet1).result
+    ).toBeUtf8("");
+  });
+
+  it("should report the primary name again after a renewal in grace", () => {
+    const expiry = register(contractName, "alice", wallet1);
+    mineUntilCallAt(expiry + 1);
+
+    simnet.callPublicFn(contractName, "renew-name", nameArgs(contractName, "alice"), wallet1);
+    expect(primaryLabel(wallet1)).toBeSome(Cl.stringUtf8("alice"));
+  });
+
+  it("should refuse an expired name as primary", () => {
+    const expiry = register(contractName, "alice", wallet1);
+    mineUntilCallAt(expiry + 1);
+
+    const result = simnet.callPublicFn(contractName, "set-primary-name", [Cl.stringUtf8("alice")], wallet1);
+    expect(result.result).toBeErr(Cl.uint(1002)); // ERR_NAME_EXPIRED
+  });
+
+  it("should clear the previous owner's primary name on re-registration", () => {
+    const expiry = register(contractName, "alice", wallet1);
+    mineUntilCallAt(expiry + GRACE_PERIOD + 1);
+
+    const result = simnet.callPublicFn(contractName, "register-name", nameArgs(contractName, "alice"), wallet2);
+    expect((result.result as any).value.data["is-primary"]).toBeBool(true);
+    expect(primaryLabel(wallet2)).toBeSome(Cl.stringUtf8("alice"));
+    expect(primaryLabel(wallet1)).toBeNone();
+
+    // With the stale entry gone, the previous owner's next name becomes primary
+    const next = simnet.callPublicFn(contractName, "register-name", nameArgs(contractName, "alice2"), wallet1);
+    expect((next.result as any).value.data["is-primary"]).toBeBool(true);
+    expect(primaryLabel(wallet1)).toBeSome(Cl.stringUtf8("alice2"));
+  });
+
+  it("should keep the previous owner's other primary name on re-registration", () => {
+    register(contractName, "alice", wallet1);
+    const expiry = register(contractName, "alice2", wallet1);
+    simnet.callPublicFn(contractName, "set-primary-name", [Cl.stringUtf8("alice2")], wallet1);
+    // Renew the primary so only "alice" lapses
+    simnet.callPublicFn(contractName, "renew-name", nameArgs(contractName, "alice2"), wallet1);
+    mineUntilCallAt(expiry + GRACE_PERIOD + 1);
+
+    register(contractName, "alice", wallet2);
+    expect(primaryLabel(wallet1)).toBeSome(Cl.stringUtf8("alice2"));
+  });
+});
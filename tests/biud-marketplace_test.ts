@@ -0,0 +1,355 @@
+/**
+ * ╔══════════════════════════════════════════════════════════════════════════╗
+ * ║  BiUD — Name Marketplace Tests                                           ║
+ * ║  Escrowed listings, offers and treasury royalties                        ║
+ * ╚══════════════════════════════════════════════════════════════════════════╝
+ */
+
+import { describe, it, expect } from "vitest";
+import { Cl } from "@stacks/transactions";
+
+// Test accounts from simnet
+const accounts = simnet.getAccounts();
+const deployer = accounts.get("deployer")!;
+const wallet1 = accounts.get("wallet_1")!;
+const wallet2 = accounts.get("wallet_2")!;
+const wallet3 = accounts.get("wallet_3")!;
+
+const registrar = "biud-username-v4";
+const contractName = "biud-marketplace";
+const marketplace = `${deployer}.${contractName}`;
+// The registrar's protocol treasury defaults to its deployer
+const treasury = deployer;
+
+const REGISTRATION_PERIOD = 52560;
+const GRACE_PERIOD = 1008;
+const ROYALTY_PERCENT = 2;
+const RENEW_FEE = 5_000_000;
+const PRICE = 100_000_000;
+const ROYALTY = (PRICE * ROYALTY_PERCENT) / 100;
+
+function register(label: string, sender: string) {
+  return simnet.callPublicFn(registrar, "register-name", [Cl.stringUtf8(label), Cl.uint(1)], sender);
+}
+
+function list(label: string, price: number, sender: string) {
+  return simnet.callPublicFn(contractName, "list-name", [Cl.stringUtf8(label), Cl.uint(price)], sender);
+}
+
+function buy(label: string, sender: string) {
+  return simnet.callPublicFn(contractName, "buy-name", [Cl.stringUtf8(label)], sender);
+}
+
+function offer(label: string, amount: number, sender: string) {
+  return simnet.callPublicFn(contractName, "make-offer", [Cl.stringUtf8(label), Cl.uint(amount)], sender);
+}
+
+function accept(label: string, bidder: string, sender: string) {
+  return simnet.callPublicFn(contractName, "accept-offer", [Cl.stringUtf8(label), Cl.principal(bidder)], sender);
+}
+
+function renewListed(label: string, sender: string, years = 1) {
+  return simnet.callPublicFn(contractName, "renew-listed-name", [Cl.stringUtf8(label), Cl.uint(years)], sender);
+}
+
+function cancel(label: string, sender: string) {
+  return simnet.callPublicFn(contractName, "cancel-listing", [Cl.stringUtf8(label)], sender);
+}
+
+function getNameOwner(label: string) {
+  return simnet.callReadOnlyFn(registrar, "get-name-owner", [Cl.stringUtf8(label)], wallet1).result;
+}
+
+function getListing(label: string) {
+  return simnet.callReadOnlyFn(contractName, "get-listing", [Cl.stringUtf8(label)], wallet1).result;
+}
+
+function getBidders(label: string) {
+  return simnet.callReadOnlyFn(contractName, "get-bidders", [Cl.stringUtf8(label)], wallet1).result;
+}
+
+// STX moved by a transaction, as [sender, recipient, amount]
+function stxTransfers(events: any[]) {
+  return events
+    .filter((e: any) => e.event === "stx_transfer_event")
+    .map((e: any) => [e.data.sender, e.data.recipient, Number(e.data.amount)]);
+}
+
+// ════════════════════════════════════════════════════════════════════════════
+// LISTING TESTS
+// ════════════════════════════════════════════════════════════════════════════
+
+describe("Listings", () => {
+  it("should escrow a listed name in the marketplace", () => {
+    register("alice", wallet1);
+    const { result } = list("alice", PRICE, wallet1);
+
+    expect(result).toBeOk(Cl.bool(true));
+    expect(getNameOwner("alice")).toBeSome(Cl.principal(marketplace));
+    expect(getListing("alice")).toBeSome(
+      Cl.tuple({
+        seller: Cl.principal(wallet1),
+        price: Cl.uint(PRICE),
+        "name-id": Cl.uint(1),
+        "listed-at": Cl.uint(simnet.blockHeight),
+        active: Cl.bool(true),
+      })
+    );
+  });
+
+  it("should only let the owner list a name", () => {
+    register("alice", wallet1);
+
+    expect(list("alice", PRICE, wallet2).result).toBeErr(Cl.uint(1003)); // registrar ERR_NOT_OWNER
+    expect(list("nobody", PRICE, wallet2).result).toBeErr(Cl.uint(1009)); // registrar ERR_NAME_NOT_FOUND
+    expect(getListing("alice")).toBeNone();
+  });
+
+  it("should reject a zero price", () => {
+    register("alice", wallet1);
+    expect(list("alice", 0, wallet1).result).toBeErr(Cl.uint(3005)); // ERR_INVALID_PRICE
+  });
+
+  it("should return the name when the seller cancels", () => {
+    register("alice", wallet1);
+    list("alice", PRICE, wallet1);
+
+    expect(simnet.callPublicFn(contractName, "cancel-listing", [Cl.stringUtf8("alice")], wallet2).result)
+      .toBeErr(Cl.uint(3002)); // ERR_NOT_SELLER
+    expect(simnet.callPublicFn(contractName, "cancel-listing", [Cl.stringUtf8("alice")], wallet1).result)
+      .toBeOk(Cl.bool(true));
+    expect(getNameOwner("alice")).toBeSome(Cl.principal(wallet1));
+    expect(getListing("alice")).toBeNone();
+  });
+});
+
+// ════════════════════════════════════════════════════════════════════════════
+// RENEWAL TESTS
+// ════════════════════════════════════════════════════════════════════════════
+
+describe("Renewals", () => {
+  it("should let the seller renew a listed name in its grace period", () => {
+    register("alice", wallet1);
+    list("alice", PRICE, wallet1);
+    simnet.mineEmptyBlocks(REGISTRATION_PERIOD + 1);
+
+    // Expired: the name cannot leave escrow, and only the marketplace owns it
+    expect(cancel("alice", wallet1).result).toBeErr(Cl.uint(1002)); // registrar ERR_NAME_EXPIRED
+    expect(buy("alice", wallet2).result).toBeErr(Cl.uint(1002));
+    expect(
+      simnet.callPublicFn(registrar, "renew-name", [Cl.stringUtf8("alice"), Cl.uint(1)], wallet1).result
+    ).toBeErr(Cl.uint(1007)); // registrar ERR_IN_GRACE_PERIOD
+
+    const { result, events } = renewListed("alice", wallet1);
+    expect(result).toBeOk(
+      Cl.tuple({
+        "new-expiry-height": Cl.uint(2 * REGISTRATION_PERIOD + 2),
+        "fee-paid": Cl.uint(RENEW_FEE),
+      })
+    );
+    // The seller funds the renewal and the marketplace passes all of it on
+    const transfers = stxTransfers(events);
+    expect(transfers[0]).toEqual([wallet1, marketplace, RENEW_FEE]);
+    expect(
+      transfers.filter(([sender]) => sender === marketplace).reduce((sum, [, , amount]) => sum + (amount as number), 0)
+    ).toBe(RENEW_FEE);
+
+    expect(cancel("alice", wallet1).result).toBeOk(Cl.bool(true));
+    expect(getNameOwner("alice")).toBeSome(Cl.principal(wallet1));
+  });
+
+  it("should only let the seller renew through the marketplace", () => {
+    register("alice", wallet1);
+    list("alice", PRICE, wallet1);
+
+    expect(renewListed("alice", wallet2).result).toBeErr(Cl.uint(3002)); // ERR_NOT_SELLER
+    expect(renewListed("bobby", wallet1).result).toBeErr(Cl.uint(3003)); // ERR_LISTING_NOT_FOUND
+  });
+
+  it("should not renew a listing whose name was released", () => {
+    register("alice", wallet1);
+    list("alice", PRICE, wallet1);
+    simnet.mineEmptyBlocks(REGISTRATION_PERIOD + GRACE_PERIOD + 1);
+    register("alice", wallet2);
+
+    expect(renewListed("alice", wallet1).result).toBeErr(Cl.uint(3003)); // ERR_LISTING_NOT_FOUND
+    expect(getNameOwner("alice")).toBeSome(Cl.principal(wallet2));
+  });
+});
+
+// ════════════════════════════════════════════════════════════════════════════
+// PURCHASE TESTS
+// ════════════════════════════════════════════════════════════════════════════
+
+describe("Purchases", () => {
+  it("should swap the name for the asking price, minus the royalty", () => {
+    register("alice", wallet1);
+    list("alice", PRICE, wallet1);
+
+    const { result, events } = buy("alice", wallet2);
+    expect(result).toBeOk(Cl.tuple({ price: Cl.uint(PRICE), royalty: Cl.uint(ROYALTY) }));
+    expect(stxTransfers(events)).toEqual([
+      [wallet2, treasury, ROYALTY],
+      [wallet2, wallet1, PRICE - ROYALTY],
+    ]);
+    expect(getNameOwner("alice")).toBeSome(Cl.principal(wallet2));
+    expect(getListing("alice")).toBeNone();
+    expect(simnet.callReadOnlyFn(contractName, "get-total-royalties", [], wallet1).result).toBeUint(ROYALTY);
+  });
+
+  it("should not let the seller buy their own listing", () => {
+    register("alice", wallet1);
+    list("alice", PRICE, wallet1);
+
+    expect(buy("alice", wallet1).result).toBeErr(Cl.uint(3006)); // ERR_OWN_NAME
+  });
+
+  it("should reject names that are not listed", () => {
+    register("alice", wallet1);
+    expect(buy("alice", wallet2).result).toBeErr(Cl.uint(3003)); // ERR_LISTING_NOT_FOUND
+  });
+
+  it("should pay the seller in full when the royalty is zero", () => {
+    simnet.callPublicFn(contractName, "set-royalty-percent", [Cl.uint(0)], deployer);
+    register("alice", wallet1);
+    list("alice", PRICE, wallet1);
+
+    const { result, events } = buy("alice", wallet2);
+    expect(result).toBeOk(Cl.tuple({ price: Cl.uint(PRICE), royalty: Cl.uint(0) }));
+    expect(stxTransfers(events)).toEqual([[wallet2, wallet1, PRICE]]);
+  });
+
+  it("should drop listings whose registration was released", () => {
+    register("alice", wallet1);
+    list("alice", PRICE, wallet1);
+    const listedAt = simnet.blockHeight;
+    simnet.mineEmptyBlocks(REGISTRATION_PERIOD + GRACE_PERIOD + 1);
+    register("alice", wallet3);
+
+    expect(getListing("alice")).toBeSome(
+      Cl.tuple({
+        seller: Cl.principal(wallet1),
+        price: Cl.uint(PRICE),
+        "name-id": Cl.uint(1),
+        "listed-at": Cl.uint(listedAt),
+        active: Cl.bool(false),
+      })
+    );
+    expect(buy("alice", wallet2).result).toBeErr(Cl.uint(3003));
+
+    // The seller can clear it, and the new registrant keeps the name
+    expect(simnet.callPublicFn(contractName, "cancel-listing", [Cl.stringUtf8("alice")], wallet1).result)
+      .toBeOk(Cl.bool(true));
+    expect(getNameOwner("alice")).toBeSome(Cl.principal(wallet3));
+  });
+});
+
+// ════════════════════════════════════════════════════════════════════════════
+// OFFER TESTS
+// ════════════════════════════════════════════════════════════════════════════
+
+describe("Offers", () => {
+  it("should escrow the offered amount", () => {
+    register("alice", wallet1);
+    const { result, events } = offer("alice", PRICE, wallet2);
+
+    expect(result).toBeOk(Cl.bool(true));
+    expect(stxTransfers(events)).toEqual([[wallet2, marketplace, PRICE]]);
+    expect(
+      simnet.callReadOnlyFn(contractName, "get-offer", [Cl.stringUtf8("alice"), Cl.principal(wallet2)], wallet1).result
+    ).toBeSome(Cl.tuple({ amount: Cl.uint(PRICE), "created-at": Cl.uint(simnet.blockHeight) }));
+    expect(getBidders("alice")).toBeList([Cl.principal(wallet2)]);
+  });
+
+  it("should refund the previous offer when a bidder raises it", () => {
+    register("alice", wallet1);
+    offer("alice", PRICE, wallet2);
+
+    const { events } = offer("alice", PRICE * 2, wallet2);
+    expect(stxTransfers(events)).toEqual([
+      [marketplace, wallet2, PRICE],
+      [wallet2, marketplace, PRICE * 2],
+    ]);
+    expect(getBidders("alice")).toBeList([Cl.principal(wallet2)]);
+  });
+
+  it("should reject offers on unknown or own names", () => {
+    register("alice", wallet1);
+
+    expect(offer("nobody", PRICE, wallet2).result).toBeErr(Cl.uint(3010)); // ERR_NAME_NOT_FOUND
+    expect(offer("alice", PRICE, wallet1).result).toBeErr(Cl.uint(3006)); // ERR_OWN_NAME
+    expect(offer("alice", 0, wallet2).result).toBeErr(Cl.uint(3005)); // ERR_INVALID_PRICE
+
+    // The seller of a listed name cannot bid on it either
+    list("alice", PRICE, wallet1);
+    expect(offer("alice", PRICE, wallet1).result).toBeErr(Cl.uint(3006));
+  });
+
+  it("should refund a cancelled offer", () => {
+    register("alice", wallet1);
+    offer("alice", PRICE, wallet2);
+
+    const { result, events } = simnet.callPublicFn(contractName, "cancel-offer", [Cl.stringUtf8("alice")], wallet2);
+    expect(result).toBeOk(Cl.bool(true));
+    expect(stxTransfers(events)).toEqual([[marketplace, wallet2, PRICE]]);
+    expect(getBidders("alice")).toBeList([]);
+
+    expect(simnet.callPublicFn(contractName, "cancel-offer", [Cl.stringUtf8("alice")], wallet2).result)
+      .toBeErr(Cl.uint(3004)); // ERR_OFFER_NOT_FOUND
+  });
+
+  it("should let the owner accept an offer", () => {
+    register("alice", wallet1);
+    offer("alice", PRICE, wallet2);
+    offer("alice", PRICE / 2, wallet3);
+
+    const { result, events } = accept("alice", wallet2, wallet1);
+    expect(result).toBeOk(Cl.tuple({ price: Cl.uint(PRICE), royalty: Cl.uint(ROYALTY) }));
+    expect(stxTransfers(events)).toEqual([
+      [marketplace, treasury, ROYALTY],
+      [marketplace, wallet1, PRICE - ROYALTY],
+    ]);
+    expect(getNameOwner("alice")).toBeSome(Cl.principal(wallet2));
+    // Other offers stay open for the new owner
+    expect(getBidders("alice")).toBeList([Cl.principal(wallet3)]);
+  });
+
+  it("should let the seller accept an offer on a listed name", () => {
+    register("alice", wallet1);
+    list("alice", PRICE, wallet1);
+    offer("alice", PRICE / 2, wallet2);
+
+    expect(accept("alice", wallet2, wallet1).result).toBeOk(expect.anything());
+    expect(getNameOwner("alice")).toBeSome(Cl.principal(wallet2));
+    expect(getListing("alice")).toBeNone();
+  });
+
+  it("should only let the owner accept offers", () => {
+    register("alice", wallet1);
+    offer("alice", PRICE, wallet2);
+
+    expect(accept("alice", wallet2, wallet3).result).toBeErr(Cl.uint(3002)); // ERR_NOT_SELLER
+    expect(accept("alice", wallet3, wallet1).result).toBeErr(Cl.uint(3004)); // ERR_OFFER_NOT_FOUND
+  });
+});
+
+// ════════════════════════════════════════════════════════════════════════════
+// ADMIN TESTS
+// ════════════════════════════════════════════════════════════════════════════
+
+describe("Royalties", () => {
+  it("should start at the default royalty", () => {
+    expect(simnet.callReadOnlyFn(contractName, "get-royalty-percent", [], wallet1).result).toBeUint(ROYALTY_PERCENT);
+    expect(simnet.callReadOnlyFn(contractName, "get-royalty", [Cl.uint(PRICE)], wallet1).result).toBeUint(ROYALTY);
+  });
+
+  it("should only let the admin change the royalty", () => {
+    const setRoyalty = (percent: number, sender: string) =>
+      simnet.callPublicFn(contractName, "set-royalty-percent", [Cl.uint(percent)], sender).result;
+
+    expect(setRoyalty(5, wallet1)).toBeErr(Cl.uint(3001)); // ERR_NOT_ADMIN
+    expect(setRoyalty(101, deployer)).toBeErr(Cl.uint(3007)); // ERR_PERCENT_TOO_HIGH
+    expect(setRoyalty(5, deployer)).toBeOk(Cl.bool(true));
+    expect(simnet.callReadOnlyFn(contractName, "get-royalty-percent", [], wallet1).result).toBeUint(5);
+  });
+});
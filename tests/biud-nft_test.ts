@@ -0,0 +1,335 @@
+/**
+ * ╔══════════════════════════════════════════════════════════════════════════╗
+ * ║  BiUD — SIP-009 Name Token Tests                                         ║
+ * ║  Tokens follow registration, transfers and expiry of their names         ║
+ * ╚══════════════════════════════════════════════════════════════════════════╝
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { createServer, Server } from "node:http";
+import { AddressInfo } from "node:net";
+import {
+  Cl,
+  cvToHex,
+  hexToCV,
+  createAssetInfo,
+  makeStandardNonFungiblePostCondition,
+  NonFungibleConditionCode,
+  PostCondition,
+  PostConditionType,
+} from "@stacks/transactions";
+import { BiudClient, createNetwork, makeCommitment } from "../frontend/src/services/biud";
+
+// Test accounts from simnet
+const accounts = simnet.getAccounts();
+const deployer = accounts.get("deployer")!;
+const wallet1 = accounts.get("wallet_1")!;
+const wallet2 = accounts.get("wallet_2")!;
+const wallet3 = accounts.get("wallet_3")!;
+
+const contractName = "biud-username-v4";
+const assetId = `${deployer}.${contractName}::biud-name`;
+
+const REGISTRATION_PERIOD = 52560;
+const GRACE_PERIOD = 1008;
+const MIN_COMMITMENT_AGE = 6;
+
+function register(label: string, sender: string) {
+  return simnet.callPublicFn(contractName, "register-name", [Cl.stringUtf8(label), Cl.uint(1)], sender);
+}
+
+function transfer(id: number, sender: string, recipient: string, caller = sender) {
+  return simnet.callPublicFn(
+    contractName,
+    "transfer",
+    [Cl.uint(id), Cl.principal(sender), Cl.principal(recipient)],
+    caller
+  );
+}
+
+function getTokenOwner(id: number) {
+  return simnet.callReadOnlyFn(contractName, "get-owner", [Cl.uint(id)], wallet1).result;
+}
+
+function getNameOwner(label: string) {
+  return simnet.callReadOnlyFn(contractName, "get-name-owner", [Cl.stringUtf8(label)], wallet1).result;
+}
+
+function nftEvents(events: any[], type: string) {
+  return events.filter((e: any) => e.event === type && e.data.asset_identifier === assetId);
+}
+
+// ════════════════════════════════════════════════════════════════════════════
+// MINTING TESTS
+// ════════════════════════════════════════════════════════════════════════════
+
+describe("Minting", () => {
+  it("should mint the name-id token to the registrant", () => {
+    const { events } = register("alice", wallet1);
+
+    const mints = nftEvents(events, "nft_mint_event");
+    expect(mints).toHaveLength(1);
+    expect(mints[0].data.recipient).toBe(wallet1);
+    expect(mints[0].data.value).toBeUint(1);
+    expect(getTokenOwner(1)).toBeOk(Cl.some(Cl.principal(wallet1)));
+  });
+
+  it("should report the last token id", () => {
+    expect(simnet.callReadOnlyFn(contractName, "get-last-token-id", [], wallet1).result).toBeOk(Cl.uint(0));
+
+    register("alice", wallet1);
+    register("bobby", wallet2);
+    expect(simnet.callReadOnlyFn(contractName, "get-last-token-id", [], wallet1).result).toBeOk(Cl.uint(2));
+  });
+
+  it("should report no owner for unknown tokens", () => {
+    expect(getTokenOwner(42)).toBeOk(Cl.none());
+  });
+});
+
+// ════════════════════════════════════════════════════════════════════════════
+// TOKEN URI TESTS
+// ════════════════════════════════════════════════════════════════════════════
+
+describe("Token URI", () => {
+  const getTokenUri = (id: number) =>
+    simnet.callReadOnlyFn(contractName, "get-token-uri", [Cl.uint(id)], wallet1).result;
+
+  it("should append the token id to the metadata base URI", () => {
+    register("alice", wallet1);
+    expect(getTokenUri(1)).toBeOk(Cl.some(Cl.stringAscii("https://biud.example.com/api/names/1")));
+  });
+
+  it("should return none for tokens never minted", () => {
+    expect(getTokenUri(7)).toBeOk(Cl.none());
+  });
+
+  it("should let the admin change the base URI", () => {
+    register("alice", wallet1);
+    const result = simnet.callPublicFn(
+      contractName,
+      "set-token-uri-base",
+      [Cl.stringAscii("ipfs://bafy/")],
+      deployer
+    );
+    expect(result.result).toBeOk(Cl.bool(true));
+    expect(getTokenUri(1)).toBeOk(Cl.some(Cl.stringAscii("ipfs://bafy/1")));
+  });
+
+  it("should not let anyone else change the base URI", () => {
+    const result = simnet.callPublicFn(
+      contractName,
+      "set-token-uri-base",
+      [Cl.stringAscii("https://evil.example/")],
+      wallet1
+    );
+    expect(result.result).toBeErr(Cl.uint(1004)); // ERR_NOT_ADMIN
+  });
+});
+
+// ════════════════════════════════════════════════════════════════════════════
+// TRANSFER TESTS
+// ════════════════════════════════════════════════════════════════════════════
+
+describe("Transfers", () => {
+  it("should move the token with transfer-name", () => {
+    register("alice", wallet1);
+    const { result, events } = simnet.callPublicFn(
+      contractName,
+      "transfer-name",
+      [Cl.stringUtf8("alice"), Cl.principal(wallet2)],
+      wallet1
+    );
+
+    expect(result).toBeOk(Cl.bool(true));
+    const transfers = nftEvents(events, "nft_transfer_event");
+    expect(transfers).toHaveLength(1);
+    expect(transfers[0].data.sender).toBe(wallet1);
+    expect(transfers[0].data.recipient).toBe(wallet2);
+    expect(getTokenOwner(1)).toBeOk(Cl.some(Cl.principal(wallet2)));
+  });
+
+  it("should move the name with the SIP-009 transfer", () => {
+    register("alice", wallet1);
+
+    expect(transfer(1, wallet1, wallet2).result).toBeOk(Cl.bool(true));
+    expect(getTokenOwner(1)).toBeOk(Cl.some(Cl.principal(wallet2)));
+    expect(getNameOwner("alice")).toBeSome(Cl.principal(wallet2));
+    // Same bookkeeping as transfer-name: owner lists and primary names follow
+    expect(
+      simnet.callReadOnlyFn(contractName, "get-names-by-owner", [Cl.principal(wallet2)], wallet2).result
+    ).toBeTuple({ "name-ids": Cl.list([Cl.uint(1)]) });
+    expect(
+      simnet.callReadOnlyFn(contractName, "get-primary-label", [Cl.principal(wallet2)], wallet2).result
+    ).toBeSome(Cl.stringUtf8("alice"));
+  });
+
+  it("should only let the sender transfer their own token", () => {
+    register("alice", wallet1);
+
+    // Caller is not the sender
+    expect(transfer(1, wallet1, wallet3, wallet2).result).toBeErr(Cl.uint(1003)); // ERR_NOT_OWNER
+    // Sender does not own the token
+    expect(transfer(1, wallet2, wallet3).result).toBeErr(Cl.uint(1003));
+    expect(transfer(1, wallet1, wallet1).result).toBeErr(Cl.uint(1013)); // ERR_TRANSFER_TO_SELF
+  });
+
+  it("should reject unknown tokens", () => {
+    expect(transfer(9, wallet1, wallet2).result).toBeErr(Cl.uint(1009)); // ERR_NAME_NOT_FOUND
+  });
+
+  it("should not transfer an expired name", () => {
+    register("alice", wallet1);
+    simnet.mineEmptyBlocks(REGISTRATION_PERIOD + 1);
+
+    expect(transfer(1, wallet1, wallet2).result).toBeErr(Cl.uint(1002)); // ERR_NAME_EXPIRED
+  });
+});
+
+// ════════════════════════════════════════════════════════════════════════════
+// EXPIRY TESTS
+// ════════════════════════════════════════════════════════════════════════════
+
+describe("Expiry", () => {
+  it("should keep the owner through the grace period", () => {
+    register("alice", wallet1);
+    simnet.mineEmptyBlocks(REGISTRATION_PERIOD + GRACE_PERIOD);
+
+    expect(getTokenOwner(1)).toBeOk(Cl.some(Cl.principal(wallet1)));
+  });
+
+  it("should report no owner once the name is released", () => {
+    register("alice", wallet1);
+    simnet.mineEmptyBlocks(REGISTRATION_PERIOD + GRACE_PERIOD + 1);
+
+    expect(getTokenOwner(1)).toBeOk(Cl.none());
+  });
+
+  it("should burn the old token and mint a new one on re-registration", () => {
+    register("alice", wallet1);
+    simnet.mineEmptyBlocks(REGISTRATION_PERIOD + GRACE_PERIOD + 1);
+
+    const { result, events } = register("alice", wallet2);
+    expect(result).toBeOk(expect.anything());
+
+    const burns = nftEvents(events, "nft_burn_event");
+    expect(burns).toHaveLength(1);
+    expect(burns[0].data.sender).toBe(wallet1);
+    expect(burns[0].data.value).toBeUint(1);
+    expect(nftEvents(events, "nft_mint_event")[0].data.value).toBeUint(2);
+
+    expect(getTokenOwner(1)).toBeOk(Cl.none());
+    expect(getTokenOwner(2)).toBeOk(Cl.some(Cl.principal(wallet2)));
+    // The burned token cannot move the new registration
+    expect(transfer(1, wallet2, wallet3).result).toBeErr(Cl.uint(1009));
+  });
+});
+
+// ════════════════════════════════════════════════════════════════════════════
+// POST-CONDITION TESTS
+// ════════════════════════════════════════════════════════════════════════════
+
+describe("Post-conditions in services/biud.ts", () => {
+  let server: Server;
+  let client: BiudClient;
+
+  const nameAsset = createAssetInfo(deployer, contractName, "biud-name");
+
+  // Run built transaction options in simnet
+  function run(options: { contractName: string; functionName: string; functionArgs: any[] }, sender: string) {
+    return simnet.callPublicFn(options.contractName, options.functionName, options.functionArgs, sender);
+  }
+
+  function tokenConditions(postConditions: PostCondition[]) {
+    return postConditions.filter((condition) => condition.conditionType === PostConditionType.NonFungible);
+  }
+
+  // Conditions a deny-mode transaction needs for the tokens it transferred or burned
+  function requiredConditions(events: any[]) {
+    return [...nftEvents(events, "nft_transfer_event"), ...nftEvents(events, "nft_burn_event")].map((event) =>
+      makeStandardNonFungiblePostCondition(event.data.sender, NonFungibleConditionCode.Sends, nameAsset, event.data.value)
+    );
+  }
+
+  // Local stand-in for the node API that answers read-only calls from simnet
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      const match = req.url?.match(/^\/v2\/contracts\/call-read\/([^/]+)\/([^/]+)\/([^/?]+)/);
+      let body = "";
+      req.on("data", (chunk) => (body += chunk));
+      req.on("end", () => {
+        if (!match) {
+          res.writeHead(404);
+          res.end();
+          return;
+        }
+        const { sender, arguments: args } = JSON.parse(body);
+        const result = simnet.callReadOnlyFn(match[2], match[3], args.map((arg: string) => hexToCV(arg)), sender).result;
+        res.writeHead(200, { "Content-Type": "application/json" });
+        res.end(JSON.stringify({ okay: true, result: cvToHex(result) }));
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    client = new BiudClient({
+      network: createNetwork("devnet", `http://127.0.0.1:${(server.address() as AddressInfo).port}`),
+      contractAddress: deployer,
+      contractName,
+      capabilities: ["multi-year", "commit-reveal", "sip-009", "batch"],
+    });
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it("should cover the token moved by transfer-name", async () => {
+    register("alice", wallet1);
+
+    const options = await client.getTransferNameOptions("alice", wallet2);
+    expect(tokenConditions(options.postConditions)).toEqual([
+      makeStandardNonFungiblePostCondition(wallet1, NonFungibleConditionCode.Sends, nameAsset, Cl.uint(1)),
+    ]);
+
+    const { result, events } = run(options, wallet1);
+    expect(result).toBeOk(Cl.bool(true));
+    expect(tokenConditions(options.postConditions)).toEqual(requiredConditions(events));
+  });
+
+  it("should cover the token burned by register-name on a released name", async () => {
+    register("alice", wallet1);
+    expect(tokenConditions((await client.getRegisterNameOptions("bobby", wallet2)).postConditions)).toEqual([]);
+    simnet.mineEmptyBlocks(REGISTRATION_PERIOD + GRACE_PERIOD + 1);
+
+    const options = await client.getRegisterNameOptions("alice", wallet2);
+    const { result, events } = run(options, wallet2);
+    expect(result).toBeOk(expect.anything());
+    expect(tokenConditions(options.postConditions)).toEqual(requiredConditions(events));
+    expect(requiredConditions(events)).toHaveLength(1);
+  });
+
+  it("should cover every token burned by register-names", async () => {
+    register("alice", wallet1);
+    register("bobby", wallet3);
+    simnet.mineEmptyBlocks(REGISTRATION_PERIOD + GRACE_PERIOD + 1);
+
+    const options = await client.getRegisterNamesOptions(["alice", "carol", "bobby"], wallet2);
+    const { result, events } = run(options, wallet2);
+    expect(result).toBeOk(expect.anything());
+    expect(tokenConditions(options.postConditions)).toEqual(requiredConditions(events));
+    expect(requiredConditions(events)).toHaveLength(2);
+  });
+
+  it("should cover the token burned by reveal-name on a released name", async () => {
+    const salt = new Uint8Array(32).fill(7);
+    register("alice", wallet1);
+    simnet.mineEmptyBlocks(REGISTRATION_PERIOD + GRACE_PERIOD + 1);
+    simnet.callPublicFn(contractName, "commit-name", [Cl.buffer(await makeCommitment("alice", wallet2, salt))], wallet2);
+    simnet.mineEmptyBlocks(MIN_COMMITMENT_AGE);
+
+    const options = await client.getRevealNameOptions("alice", wallet2, salt);
+    const { result, events } = run(options, wallet2);
+    expect(result).toBeOk(expect.anything());
+    expect(tokenConditions(options.postConditions)).toEqual(requiredConditions(events));
+    expect(requiredConditions(events)).toHaveLength(1);
+  });
+});
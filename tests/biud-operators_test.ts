@@ -0,0 +1,252 @@
+/**
+ * ╔══════════════════════════════════════════════════════════════════════════╗
+ * ║  BiUD — Operator Approval Tests                                          ║
+ * ║  Delegates managing resolvers and transfers on behalf of name owners     ║
+ * ╚══════════════════════════════════════════════════════════════════════════╝
+ */
+
+import { describe, it, expect } from "vitest";
+import { Cl } from "@stacks/transactions";
+
+// Test accounts from simnet
+const accounts = simnet.getAccounts();
+const deployer = accounts.get("deployer")!;
+const wallet1 = accounts.get("wallet_1")!; // owner
+const wallet2 = accounts.get("wallet_2")!; // operator
+const wallet3 = accounts.get("wallet_3")!;
+
+const contractName = "biud-username-v4";
+const resolver = `${deployer}.biud-resolver-v2`;
+
+const REGISTRATION_PERIOD = 52560;
+const GRACE_PERIOD = 1008;
+
+function register(label: string, sender: string) {
+  return simnet.callPublicFn(contractName, "register-name", [Cl.stringUtf8(label), Cl.uint(1)], sender);
+}
+
+function setNameOperator(label: string, operator: string, canTransfer: boolean, sender = wallet1) {
+  return simnet.callPublicFn(
+    contractName,
+    "set-name-operator",
+    [Cl.stringUtf8(label), Cl.principal(operator), Cl.bool(canTransfer)],
+    sender
+  );
+}
+
+function setOwnerOperator(operator: string, canTransfer: boolean, sender = wallet1) {
+  return simnet.callPublicFn(
+    contractName,
+    "set-owner-operator",
+    [Cl.principal(operator), Cl.bool(canTransfer)],
+    sender
+  );
+}
+
+function setResolver(label: string, sender: string) {
+  return simnet.callPublicFn(contractName, "set-resolver", [Cl.stringUtf8(label), Cl.principal(resolver)], sender).result;
+}
+
+function transferName(label: string, to: string, sender: string) {
+  return simnet.callPublicFn(contractName, "transfer-name", [Cl.stringUtf8(label), Cl.principal(to)], sender).result;
+}
+
+function readOnly(fn: string, args: any[]) {
+  return simnet.callReadOnlyFn(contractName, fn, args, wallet1).result;
+}
+
+// ════════════════════════════════════════════════════════════════════════════
+// PER-NAME OPERATOR TESTS
+// ════════════════════════════════════════════════════════════════════════════
+
+describe("Name Operators", () => {
+  it("should let an operator manage the resolver but not transfer", () => {
+    register("alice", wallet1);
+    expect(setNameOperator("alice", wallet2, false).result).toBeOk(Cl.bool(true));
+
+    expect(setResolver("alice", wallet2)).toBeOk(Cl.bool(true));
+    expect(readOnly("get-resolver", [Cl.stringUtf8("alice")])).toBeSome(Cl.principal(resolver));
+    expect(
+      simnet.callPublicFn(contractName, "clear-resolver", [Cl.stringUtf8("alice")], wallet2).result
+    ).toBeOk(Cl.bool(true));
+
+    expect(transferName("alice", wallet3, wallet2)).toBeErr(Cl.uint(1003)); // ERR_NOT_OWNER
+    expect(readOnly("can-manage-name", [Cl.stringUtf8("alice"), Cl.principal(wallet2)])).toBeBool(true);
+    expect(readOnly("can-transfer-name", [Cl.stringUtf8("alice"), Cl.principal(wallet2)])).toBeBool(false);
+  });
+
+  it("should let an operator approved to transfer move the name", () => {
+    register("alice", wallet1);
+    setNameOperator("alice", wallet2, true);
+
+    expect(transferName("alice", wallet3, wallet2)).toBeOk(Cl.bool(true));
+    expect(readOnly("get-name-owner", [Cl.stringUtf8("alice")])).toBeSome(Cl.principal(wallet3));
+  });
+
+  it("should accept the SIP-009 transfer from an operator", () => {
+    register("alice", wallet1);
+    setNameOperator("alice", wallet2, true);
+
+    const { result } = simnet.callPublicFn(
+      contractName,
+      "transfer",
+      [Cl.uint(1), Cl.principal(wallet1), Cl.principal(wallet3)],
+      wallet2
+    );
+    expect(result).toBeOk(Cl.bool(true));
+    expect(readOnly("get-owner", [Cl.uint(1)])).toBeOk(Cl.some(Cl.principal(wallet3)));
+  });
+
+  it("should emit an event and list the operator", () => {
+    register("alice", wallet1);
+    const { events } = setNameOperator("alice", wallet2, true);
+    const printEvent = events.find((e: any) => e.event === "print_event");
+
+    expect(printEvent?.data.value).toEqual(expect.objectContaining({
+      data: expect.objectContaining({
+        event: Cl.stringAscii("OperatorApproved"),
+        label: Cl.stringUtf8("alice"),
+        owner: Cl.principal(wallet1),
+        operator: Cl.principal(wallet2),
+        "can-transfer": Cl.bool(true),
+      }),
+    }));
+    expect(readOnly("get-name-operator", [Cl.stringUtf8("alice"), Cl.principal(wallet2)]))
+      .toBeSome(Cl.tuple({ "can-transfer": Cl.bool(true) }));
+    expect(readOnly("get-name-operators", [Cl.stringUtf8("alice")])).toBeList([Cl.principal(wallet2)]);
+  });
+
+  it("should only let the owner approve operators", () => {
+    register("alice", wallet1);
+
+    expect(setNameOperator("alice", wallet2, true, wallet2).result).toBeErr(Cl.uint(1003)); // ERR_NOT_OWNER
+    expect(setNameOperator("nobody", wallet2, true).result).toBeErr(Cl.uint(1009)); // ERR_NAME_NOT_FOUND
+    // Operators cannot approve further operators
+    setNameOperator("alice", wallet2, true);
+    expect(setNameOperator("alice", wallet3, true, wallet2).result).toBeErr(Cl.uint(1003));
+  });
+
+  it("should not approve operators on an expired name", () => {
+    register("alice", wallet1);
+    simnet.mineEmptyBlocks(REGISTRATION_PERIOD + 1);
+
+    expect(setNameOperator("alice", wallet2, false).result).toBeErr(Cl.uint(1002)); // ERR_NAME_EXPIRED
+  });
+
+  it("should stop an operator once revoked", () => {
+    register("alice", wallet1);
+    setNameOperator("alice", wallet2, false);
+
+    const { result } = simnet.callPublicFn(
+      contractName,
+      "revoke-name-operator",
+      [Cl.stringUtf8("alice"), Cl.principal(wallet2)],
+      wallet1
+    );
+    expect(result).toBeOk(Cl.bool(true));
+    expect(setResolver("alice", wallet2)).toBeErr(Cl.uint(1003));
+    expect(readOnly("get-name-operators", [Cl.stringUtf8("alice")])).toBeList([]);
+  });
+
+  it("should drop per-name operators when the name changes hands", () => {
+    register("alice", wallet1);
+    setNameOperator("alice", wallet2, false);
+    transferName("alice", wallet3, wallet1);
+
+    expect(setResolver("alice", wallet2)).toBeErr(Cl.uint(1003));
+    expect(readOnly("get-name-operator", [Cl.stringUtf8("alice"), Cl.principal(wallet2)])).toBeNone();
+    expect(readOnly("get-name-operators", [Cl.stringUtf8("alice")])).toBeList([]);
+  });
+
+  it("should not restore per-name operators when the name comes back", () => {
+    register("alice", wallet1);
+    setNameOperator("alice", wallet2, true);
+    transferName("alice", wallet3, wallet1);
+    transferName("alice", wallet1, wallet3);
+
+    expect(readOnly("get-name-operator", [Cl.stringUtf8("alice"), Cl.principal(wallet2)])).toBeNone();
+    expect(readOnly("get-name-operators", [Cl.stringUtf8("alice")])).toBeList([]);
+    expect(setResolver("alice", wallet2)).toBeErr(Cl.uint(1003));
+    expect(transferName("alice", wallet2, wallet2)).toBeErr(Cl.uint(1003));
+  });
+
+  it("should not restore per-name operators after a cancelled listing", () => {
+    register("alice", wallet1);
+    setNameOperator("alice", wallet2, true);
+    expect(
+      simnet.callPublicFn("biud-marketplace", "list-name", [Cl.stringUtf8("alice"), Cl.uint(1_000_000)], wallet1).result
+    ).toBeOk(expect.anything());
+    expect(
+      simnet.callPublicFn("biud-marketplace", "cancel-listing", [Cl.stringUtf8("alice")], wallet1).result
+    ).toBeOk(expect.anything());
+
+    expect(readOnly("get-name-owner", [Cl.stringUtf8("alice")])).toBeSome(Cl.principal(wallet1));
+    expect(readOnly("get-name-operator", [Cl.stringUtf8("alice"), Cl.principal(wallet2)])).toBeNone();
+    expect(transferName("alice", wallet2, wallet2)).toBeErr(Cl.uint(1003));
+  });
+
+  it("should drop per-name operators when the name is re-registered", () => {
+    register("alice", wallet1);
+    setNameOperator("alice", wallet2, true);
+    simnet.mineEmptyBlocks(REGISTRATION_PERIOD + GRACE_PERIOD + 1);
+    register("alice", wallet1);
+
+    expect(readOnly("get-name-operator", [Cl.stringUtf8("alice"), Cl.principal(wallet2)])).toBeNone();
+    expect(setResolver("alice", wallet2)).toBeErr(Cl.uint(1003));
+  });
+
+  it("should cap the operators of a name", () => {
+    register("alice", wallet1);
+    const operators = Array.from({ length: 10 }, (_, i) => `${deployer}.operator-${i}`);
+    operators.forEach((operator) => expect(setNameOperator("alice", operator, false).result).toBeOk(Cl.bool(true)));
+
+    expect(setNameOperator("alice", wallet2, false).result).toBeErr(Cl.uint(1023)); // ERR_TOO_MANY_OPERATORS
+    // Updating an existing operator does not take another slot
+    expect(setNameOperator("alice", operators[0], true).result).toBeOk(Cl.bool(true));
+  });
+});
+
+// ════════════════════════════════════════════════════════════════════════════
+// OWNER-WIDE OPERATOR TESTS
+// ════════════════════════════════════════════════════════════════════════════
+
+describe("Owner Operators", () => {
+  it("should cover every name of the owner, including later ones", () => {
+    register("alice", wallet1);
+    expect(setOwnerOperator(wallet2, false).result).toBeOk(Cl.bool(true));
+    register("alicia", wallet1);
+
+    expect(setResolver("alice", wallet2)).toBeOk(Cl.bool(true));
+    expect(setResolver("alicia", wallet2)).toBeOk(Cl.bool(true));
+    expect(transferName("alice", wallet3, wallet2)).toBeErr(Cl.uint(1003));
+    expect(readOnly("get-owner-operators", [Cl.principal(wallet1)])).toBeList([Cl.principal(wallet2)]);
+  });
+
+  it("should let an owner operator approved to transfer move names", () => {
+    register("alice", wallet1);
+    setOwnerOperator(wallet2, true);
+
+    expect(transferName("alice", wallet3, wallet2)).toBeOk(Cl.bool(true));
+    // The approval belongs to wallet1, so it does not follow the name
+    expect(setResolver("alice", wallet2)).toBeErr(Cl.uint(1003));
+  });
+
+  it("should stop an owner operator once revoked", () => {
+    register("alice", wallet1);
+    setOwnerOperator(wallet2, true);
+
+    const { result } = simnet.callPublicFn(contractName, "revoke-owner-operator", [Cl.principal(wallet2)], wallet1);
+    expect(result).toBeOk(Cl.bool(true));
+    expect(readOnly("get-owner-operator", [Cl.principal(wallet1), Cl.principal(wallet2)])).toBeNone();
+    expect(readOnly("can-manage-name", [Cl.stringUtf8("alice"), Cl.principal(wallet2)])).toBeBool(false);
+  });
+
+  it("should not let operators act for other owners", () => {
+    register("alice", wallet1);
+    register("bobby", wallet3);
+    setOwnerOperator(wallet2, true);
+
+    expect(setResolver("bobby", wallet2)).toBeErr(Cl.uint(1003));
+    expect(transferName("bobby", wallet2, wallet2)).toBeErr(Cl.uint(1003));
+  });
+});
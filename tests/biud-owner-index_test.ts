@@ -0,0 +1,204 @@
+/**
+ * ╔══════════════════════════════════════════════════════════════════════════╗
+ * ║  BiUD — Owner Index Tests                                                ║
+ * ║  Uncapped ownership index, paged on-chain and through services/biud.ts   ║
+ * ╚══════════════════════════════════════════════════════════════════════════╝
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { createServer, Server } from "node:http";
+import { AddressInfo } from "node:net";
+import { Cl, cvToHex, hexToCV } from "@stacks/transactions";
+import { BiudClient, createNetwork } from "../frontend/src/services/biud";
+
+// Test accounts from simnet
+const accounts = simnet.getAccounts();
+const deployer = accounts.get("deployer")!;
+const wallet1 = accounts.get("wallet_1")!;
+const wallet2 = accounts.get("wallet_2")!;
+
+const contractName = "biud-username-v4";
+
+const REGISTRATION_PERIOD = 52560;
+const GRACE_PERIOD = 1008;
+
+// More names than the old 100-entry owner list could hold
+const NAME_COUNT = 120;
+const LABELS = Array.from({ length: NAME_COUNT }, (_, i) => `name-${String(i).padStart(3, "0")}`);
+
+// Register labels 20 at a time (the register-names batch size)
+function registerAll(labels: string[], sender: string) {
+  for (let i = 0; i < labels.length; i += 20) {
+    const batch = labels.slice(i, i + 20).map((label) => Cl.stringUtf8(label));
+    simnet.callPublicFn(contractName, "register-names", [Cl.list(batch), Cl.uint(1)], sender);
+  }
+}
+
+function transferName(label: string, to: string, sender: string) {
+  return simnet.callPublicFn(contractName, "transfer-name", [Cl.stringUtf8(label), Cl.principal(to)], sender).result;
+}
+
+function readOnly(fn: string, args: any[]) {
+  return simnet.callReadOnlyFn(contractName, fn, args, wallet1).result;
+}
+
+// Labels of every page of get-owner-names
+function ownedLabels(owner: string, limit = 50) {
+  const labels: string[] = [];
+  for (let offset = 0; ; offset += limit) {
+    const page = (readOnly("get-owner-names", [Cl.principal(owner), Cl.uint(offset), Cl.uint(limit)]) as any).data;
+    const items = page.labels.list.map((cv: any) => cv.data);
+    labels.push(...items);
+    if (offset + limit >= Number(page.total.value)) return labels;
+  }
+}
+
+// ════════════════════════════════════════════════════════════════════════════
+// ON-CHAIN INDEX TESTS
+// ════════════════════════════════════════════════════════════════════════════
+
+describe("Owner Index", () => {
+  it("should index more than 100 names for one owner", () => {
+    registerAll(LABELS, wallet1);
+
+    expect(readOnly("get-names-count", [Cl.principal(wallet1)])).toBeUint(NAME_COUNT);
+    expect(ownedLabels(wallet1)).toEqual(LABELS);
+    // The legacy list view returns the first 100
+    const legacy = (readOnly("get-names-by-owner", [Cl.principal(wallet1)]) as any).data["name-ids"].list;
+    expect(legacy).toHaveLength(100);
+    expect(legacy[99]).toBeUint(100);
+  });
+
+  it("should page with an offset and limit", () => {
+    registerAll(LABELS.slice(0, 30), wallet1);
+
+    expect(readOnly("get-owner-names", [Cl.principal(wallet1), Cl.uint(10), Cl.uint(3)])).toBeTuple({
+      labels: Cl.list(LABELS.slice(10, 13).map((label) => Cl.stringUtf8(label))),
+      total: Cl.uint(30),
+    });
+    expect(readOnly("get-owner-names", [Cl.principal(wallet1), Cl.uint(28), Cl.uint(50)])).toBeTuple({
+      labels: Cl.list(LABELS.slice(28, 30).map((label) => Cl.stringUtf8(label))),
+      total: Cl.uint(30),
+    });
+    expect(readOnly("get-owner-names", [Cl.principal(wallet1), Cl.uint(30), Cl.uint(50)])).toBeTuple({
+      labels: Cl.list([]),
+      total: Cl.uint(30),
+    });
+  });
+
+  it("should cap a page at 50 labels", () => {
+    registerAll(LABELS.slice(0, 60), wallet1);
+
+    const page = (readOnly("get-owner-names", [Cl.principal(wallet1), Cl.uint(0), Cl.uint(100)]) as any).data;
+    expect(page.labels.list).toHaveLength(50);
+  });
+
+  it("should index names transferred to a holder of more than 100", () => {
+    registerAll(LABELS, wallet1);
+    simnet.callPublicFn(contractName, "register-name", [Cl.stringUtf8("bobby"), Cl.uint(1)], wallet2);
+
+    expect(transferName("bobby", wallet1, wallet2)).toBeOk(Cl.bool(true));
+    expect(readOnly("get-names-count", [Cl.principal(wallet1)])).toBeUint(NAME_COUNT + 1);
+    expect(ownedLabels(wallet1)).toContain("bobby");
+    expect(readOnly("get-names-count", [Cl.principal(wallet2)])).toBeUint(0);
+  });
+
+  it("should keep every other name when one leaves the middle of the index", () => {
+    registerAll(LABELS.slice(0, 5), wallet1);
+
+    transferName("name-001", wallet2, wallet1);
+    const remaining = ownedLabels(wallet1);
+    expect(remaining).toHaveLength(4);
+    expect([...remaining].sort()).toEqual(["name-000", "name-002", "name-003", "name-004"]);
+    expect(ownedLabels(wallet2)).toEqual(["name-001"]);
+
+    // Removing the last position works too
+    transferName(remaining[3], wallet2, wallet1);
+    expect(ownedLabels(wallet1)).toEqual(remaining.slice(0, 3));
+  });
+
+  it("should drop a released name from its previous owner", () => {
+    registerAll(LABELS.slice(0, 3), wallet1);
+    simnet.mineEmptyBlocks(REGISTRATION_PERIOD + GRACE_PERIOD + 1);
+    simnet.callPublicFn(contractName, "register-name", [Cl.stringUtf8("name-000"), Cl.uint(1)], wallet2);
+
+    expect([...ownedLabels(wallet1)].sort()).toEqual(["name-001", "name-002"]);
+    expect(ownedLabels(wallet2)).toEqual(["name-000"]);
+  });
+});
+
+// ════════════════════════════════════════════════════════════════════════════
+// SERVICE TESTS
+// ════════════════════════════════════════════════════════════════════════════
+
+describe("Owned names in services/biud.ts", () => {
+  let server: Server;
+  let client: BiudClient;
+  let readOnlyCalls = 0;
+
+  // Local stand-in for the node API that answers read-only calls from simnet
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      const match = req.url?.match(/^\/v2\/contracts\/call-read\/([^/]+)\/([^/]+)\/([^/?]+)/);
+      let body = "";
+      req.on("data", (chunk) => (body += chunk));
+      req.on("end", () => {
+        if (!match) {
+          res.writeHead(404);
+          res.end();
+          return;
+        }
+        readOnlyCalls++;
+        const { sender, arguments: args } = JSON.parse(body);
+        const result = simnet.callReadOnlyFn(match[2], match[3], args.map((arg: string) => hexToCV(arg)), sender).result;
+        res.writeHead(200, { "Content-Type": "application/json" });
+        res.end(JSON.stringify({ okay: true, result: cvToHex(result) }));
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    client = new BiudClient({
+      network: createNetwork("devnet", `http://127.0.0.1:${(server.address() as AddressInfo).port}`),
+      contractAddress: deployer,
+      contractName,
+      capabilities: ["sip-009", "owner-index"],
+    });
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it("should iterate more than 100 owned labels page by page", async () => {
+    registerAll(LABELS, wallet1);
+    readOnlyCalls = 0;
+
+    const labels: string[] = [];
+    for await (const label of client.iterateOwnedLabels(wallet1)) {
+      labels.push(label);
+    }
+    expect(labels).toEqual(LABELS);
+    // 120 labels at 50 per page
+    expect(readOnlyCalls).toBe(3);
+  });
+
+  it("should stop early when the caller breaks out", async () => {
+    registerAll(LABELS, wallet1);
+    readOnlyCalls = 0;
+
+    const labels: string[] = [];
+    for await (const label of client.iterateOwnedLabels(wallet1, 10)) {
+      labels.push(label);
+      if (labels.length === 15) break;
+    }
+    expect(labels).toEqual(LABELS.slice(0, 15));
+    expect(readOnlyCalls).toBe(2);
+  });
+
+  it("should load the record of every owned name", async () => {
+    registerAll(LABELS.slice(0, 3), wallet1);
+
+    const records = await client.getOwnedNames(wallet1);
+    expect(records.map((record) => record.label)).toEqual(LABELS.slice(0, 3));
+    expect(records.every((record) => record.owner === wallet1)).toBe(true);
+  });
+});
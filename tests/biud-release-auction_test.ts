@@ -0,0 +1,176 @@
+/**
+ * ╔══════════════════════════════════════════════════════════════════════════╗
+ * ║  BiUD — Release Auction Tests                                            ║
+ * ║  Decaying premium on names released after the grace period               ║
+ * ╚══════════════════════════════════════════════════════════════════════════╝
+ */
+
+import { describe, it, expect, beforeEach } from "vitest";
+import { Cl } from "@stacks/transactions";
+
+// Test accounts from simnet
+const accounts = simnet.getAccounts();
+const deployer = accounts.get("deployer")!;
+const wallet1 = accounts.get("wallet_1")!;
+const wallet2 = accounts.get("wallet_2")!;
+
+const contractName = "biud-username-v4";
+
+const REGISTRATION_PERIOD = 52560;
+const GRACE_PERIOD = 1008;
+const RELEASE_AUCTION_PERIOD = 1008;
+const RELEASE_PREMIUM_MULTIPLIER = 100;
+const BASE_FEE = 10_000_000;
+const START_PREMIUM = BASE_FEE * RELEASE_PREMIUM_MULTIPLIER;
+
+// First block "alice", registered by wallet1 before each test, can be taken again
+let releaseHeight: number;
+
+function registerAlice() {
+  simnet.callPublicFn(contractName, "register-name", [Cl.stringUtf8("alice"), Cl.uint(1)], wallet1);
+  releaseHeight = simnet.blockHeight + REGISTRATION_PERIOD + GRACE_PERIOD + 1;
+}
+
+// Expected premium at a height, mirroring calculate-release-premium
+function premiumAt(height: number, startPremium = START_PREMIUM): number {
+  const endHeight = releaseHeight + RELEASE_AUCTION_PERIOD;
+  if (height < releaseHeight || height >= endHeight) return 0;
+  return Math.floor((startPremium * (endHeight - height)) / RELEASE_AUCTION_PERIOD);
+}
+
+// Read-only calls see the current block height, public calls run in the next block
+function mineUntilReadAt(height: number) {
+  simnet.mineEmptyBlocks(height - simnet.blockHeight);
+}
+
+function mineUntilCallAt(height: number) {
+  simnet.mineEmptyBlocks(height - 1 - simnet.blockHeight);
+}
+
+function getFee(label: string, years = 1) {
+  return simnet.callReadOnlyFn(contractName, "get-registration-fee", [Cl.stringUtf8(label), Cl.uint(years)], wallet2)
+    .result;
+}
+
+function getAuction(label: string) {
+  return simnet.callReadOnlyFn(contractName, "get-release-auction", [Cl.stringUtf8(label)], wallet2).result;
+}
+
+// ════════════════════════════════════════════════════════════════════════════
+// PRICE CURVE TESTS
+// ════════════════════════════════════════════════════════════════════════════
+
+describe("Release Premium Curve", () => {
+  beforeEach(registerAlice);
+
+  it("should charge no premium while the name is registered or in grace", () => {
+    expect(getFee("alice")).toBeUint(BASE_FEE);
+    expect(getAuction("alice")).toBeNone();
+
+    mineUntilReadAt(releaseHeight - 1);
+    expect(getFee("alice")).toBeUint(BASE_FEE);
+    expect(getAuction("alice")).toBeNone();
+  });
+
+  it("should start at the full premium at the release height", () => {
+    mineUntilReadAt(releaseHeight);
+
+    expect(getFee("alice")).toBeUint(BASE_FEE + START_PREMIUM);
+    expect(getAuction("alice")).toBeSome(
+      Cl.tuple({
+        "release-height": Cl.uint(releaseHeight),
+        "end-height": Cl.uint(releaseHeight + RELEASE_AUCTION_PERIOD),
+        "start-premium": Cl.uint(START_PREMIUM),
+        premium: Cl.uint(START_PREMIUM),
+      })
+    );
+  });
+
+  it("should fall block by block to the base fee over the whole auction", () => {
+    mineUntilReadAt(releaseHeight);
+
+    let previous = Infinity;
+    for (let height = releaseHeight; height <= releaseHeight + RELEASE_AUCTION_PERIOD; height++) {
+      const expected = premiumAt(height);
+      expect(getFee("alice")).toBeUint(BASE_FEE + expected);
+      expect(expected).toBeLessThan(previous);
+      previous = expected;
+      simnet.mineEmptyBlock();
+    }
+  });
+
+  it("should end at the base fee with no auction left", () => {
+    mineUntilReadAt(releaseHeight + RELEASE_AUCTION_PERIOD - 1);
+    expect(getFee("alice")).toBeUint(BASE_FEE + Math.floor(START_PREMIUM / RELEASE_AUCTION_PERIOD));
+
+    simnet.mineEmptyBlock();
+    expect(getFee("alice")).toBeUint(BASE_FEE);
+    expect(getAuction("alice")).toBeNone();
+  });
+
+  it("should add the premium once to multi-year quotes", () => {
+    mineUntilReadAt(releaseHeight + 100);
+    expect(getFee("alice", 3)).toBeUint(3 * BASE_FEE + premiumAt(releaseHeight + 100));
+  });
+
+  it("should scale the premium with the base fee", () => {
+    simnet.callPublicFn(contractName, "set-base-fee", [Cl.uint(2 * BASE_FEE)], deployer);
+    mineUntilReadAt(releaseHeight + 504);
+
+    expect(getFee("alice")).toBeUint(2 * BASE_FEE + premiumAt(releaseHeight + 504, 2 * START_PREMIUM));
+  });
+
+  it("should not charge a premium for names never registered", () => {
+    expect(getFee("bobby")).toBeUint(BASE_FEE);
+    expect(getAuction("bobby")).toBeNone();
+  });
+});
+
+// ════════════════════════════════════════════════════════════════════════════
+// RE-REGISTRATION TESTS
+// ════════════════════════════════════════════════════════════════════════════
+
+describe("Registering a Released Name", () => {
+  beforeEach(registerAlice);
+
+  it("should charge the decayed price at the block it is registered", () => {
+    const height = releaseHeight + 300;
+    mineUntilCallAt(height);
+
+    const fee = BASE_FEE + premiumAt(height);
+    const result = simnet.callPublicFn(contractName, "register-name", [Cl.stringUtf8("alice"), Cl.uint(1)], wallet2);
+    expect(result.result).toBeOk(
+      Cl.tuple({
+        "name-id": Cl.uint(2),
+        "full-name": Cl.stringUtf8("alice.sBTC"),
+        "expiry-height": Cl.uint(height + REGISTRATION_PERIOD),
+        "fee-paid": Cl.uint(fee),
+        "is-primary": Cl.bool(true),
+      })
+    );
+
+    const paid = result.events
+      .filter((e: any) => e.event === "stx_transfer_event")
+      .reduce((total: number, e: any) => total + Number(e.data.amount), 0);
+    expect(paid).toBe(fee);
+  });
+
+  it("should charge the previous owner the premium too", () => {
+    mineUntilCallAt(releaseHeight);
+
+    const result = simnet.callPublicFn(contractName, "register-name", [Cl.stringUtf8("alice"), Cl.uint(1)], wallet1);
+    expect(result.result).toBeOk(expect.anything());
+    const paid = result.events
+      .filter((e: any) => e.event === "stx_transfer_event")
+      .reduce((total: number, e: any) => total + Number(e.data.amount), 0);
+    expect(paid).toBe(BASE_FEE + START_PREMIUM);
+  });
+
+  it("should drop the premium once the name is registered again", () => {
+    mineUntilCallAt(releaseHeight + 10);
+    simnet.callPublicFn(contractName, "register-name", [Cl.stringUtf8("alice"), Cl.uint(1)], wallet2);
+
+    expect(getAuction("alice")).toBeNone();
+    expect(getFee("alice")).toBeUint(BASE_FEE);
+  });
+});
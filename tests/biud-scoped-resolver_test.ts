@@ -0,0 +1,280 @@
+/**
+ * ╔══════════════════════════════════════════════════════════════════════════╗
+ * ║  BiUD — Scoped Resolver Test Suite                                       ║
+ * ║  Address records and resolution through the registrar's resolve-name     ║
+ * ╚══════════════════════════════════════════════════════════════════════════╝
+ */
+
+import { describe, it, expect, beforeEach } from "vitest";
+import { Cl } from "@stacks/transactions";
+
+// Test accounts from simnet
+const accounts = simnet.getAccounts();
+const deployer = accounts.get("deployer")!;
+const wallet1 = accounts.get("wallet_1")!;
+const wallet2 = accounts.get("wallet_2")!;
+
+const contractName = "biud-scoped-resolver";
+// The registrar the resolver reads ownership from
+const registrarName = "biud-username-v2";
+const resolverContract = `${deployer}.${contractName}`;
+
+const REGISTRATION_PERIOD = 52560;
+const GRACE_PERIOD = 1008;
+
+const BTC_ADDRESS = Cl.bufferFromHex("0014751e76e8199196d454941c45d1b3a323f1433bd6");
+const CUSTOM_DATA = Cl.bufferFromUtf8("ipfs://bafybeigdyrzt");
+
+function registerAlice() {
+  simnet.callPublicFn(registrarName, "register-name", [Cl.stringUtf8("alice")], wallet1);
+}
+
+// ════════════════════════════════════════════════════════════════════════════
+// RECORD MANAGEMENT TESTS
+// ════════════════════════════════════════════════════════════════════════════
+
+describe("Record Management", () => {
+  beforeEach(registerAlice);
+
+  it("should let the name owner set a BTC address", () => {
+    const result = simnet.callPublicFn(
+      contractName,
+      "set-btc-address",
+      [Cl.stringUtf8("alice"), BTC_ADDRESS],
+      wallet1
+    );
+    expect(result.result).toBeOk(Cl.bool(true));
+    expect(
+      simnet.callReadOnlyFn(contractName, "get-btc-address", [Cl.stringUtf8("alice")], wallet2).result
+    ).toBeSome(BTC_ADDRESS);
+  });
+
+  it("should let the name owner set an STX address and custom data", () => {
+    simnet.callPublicFn(contractName, "set-stx-address", [Cl.stringUtf8("alice"), Cl.principal(wallet2)], wallet1);
+    simnet.callPublicFn(contractName, "set-custom-data", [Cl.stringUtf8("alice"), CUSTOM_DATA], wallet1);
+
+    expect(
+      simnet.callReadOnlyFn(contractName, "get-records", [Cl.stringUtf8("alice")], wallet2).result
+    ).toBeSome(Cl.tuple({
+      "stx-address": Cl.some(Cl.principal(wallet2)),
+      "btc-address": Cl.none(),
+      "custom-data": Cl.some(CUSTOM_DATA),
+    }));
+  });
+
+  it("should keep other fields when updating one record", () => {
+    simnet.callPublicFn(contractName, "set-btc-address", [Cl.stringUtf8("alice"), BTC_ADDRESS], wallet1);
+    simnet.callPublicFn(contractName, "set-stx-address", [Cl.stringUtf8("alice"), Cl.principal(wallet1)], wallet1);
+
+    expect(
+      simnet.callReadOnlyFn(contractName, "get-btc-address", [Cl.stringUtf8("alice")], wallet2).result
+    ).toBeSome(BTC_ADDRESS);
+    expect(
+      simnet.callReadOnlyFn(contractName, "get-stx-address", [Cl.stringUtf8("alice")], wallet2).result
+    ).toBeSome(Cl.principal(wallet1));
+  });
+
+  it("should reject records from anyone but the name owner", () => {
+    expect(
+      simnet.callPublicFn(contractName, "set-btc-address", [Cl.stringUtf8("alice"), BTC_ADDRESS], wallet2).result
+    ).toBeErr(Cl.uint(2001)); // ERR_NOT_OWNER
+    expect(
+      simnet.callPublicFn(contractName, "set-stx-address", [Cl.stringUtf8("alice"), Cl.principal(wallet2)], wallet2).result
+    ).toBeErr(Cl.uint(2001));
+    expect(
+      simnet.callPublicFn(contractName, "set-custom-data", [Cl.stringUtf8("alice"), CUSTOM_DATA], wallet2).result
+    ).toBeErr(Cl.uint(2001));
+    expect(
+      simnet.callPublicFn(contractName, "clear-records", [Cl.stringUtf8("alice")], wallet2).result
+    ).toBeErr(Cl.uint(2001));
+  });
+
+  it("should reject records for unregistered names", () => {
+    const result = simnet.callPublicFn(
+      contractName,
+      "set-btc-address",
+      [Cl.stringUtf8("ghost"), BTC_ADDRESS],
+      wallet1
+    );
+    expect(result.result).toBeErr(Cl.uint(2002)); // ERR_NOT_FOUND
+  });
+
+  it("should hand record control to the new owner after a transfer", () => {
+    simnet.callPublicFn(registrarName, "transfer-name", [Cl.stringUtf8("alice"), Cl.principal(wallet2)], wallet1);
+
+    expect(
+      simnet.callPublicFn(contractName, "set-btc-address", [Cl.stringUtf8("alice"), BTC_ADDRESS], wallet1).result
+    ).toBeErr(Cl.uint(2001));
+    expect(
+      simnet.callPublicFn(contractName, "set-btc-address", [Cl.stringUtf8("alice"), BTC_ADDRESS], wallet2).result
+    ).toBeOk(Cl.bool(true));
+  });
+
+  it("should clear all records", () => {
+    simnet.callPublicFn(contractName, "set-btc-address", [Cl.stringUtf8("alice"), BTC_ADDRESS], wallet1);
+
+    expect(
+      simnet.callPublicFn(contractName, "clear-records", [Cl.stringUtf8("alice")], wallet1).result
+    ).toBeOk(Cl.bool(true));
+    expect(
+      simnet.callReadOnlyFn(contractName, "get-records", [Cl.stringUtf8("alice")], wallet1).result
+    ).toBeNone();
+  });
+});
+
+// ════════════════════════════════════════════════════════════════════════════
+// RESOLUTION TESTS
+// ════════════════════════════════════════════════════════════════════════════
+
+describe("Resolution", () => {
+  beforeEach(registerAlice);
+
+  it("should resolve to the stored BTC address", () => {
+    simnet.callPublicFn(contractName, "set-btc-address", [Cl.stringUtf8("alice"), BTC_ADDRESS], wallet1);
+
+    const result = simnet.callPublicFn(
+      contractName,
+      "resolve",
+      [Cl.stringUtf8("alice"), Cl.principal(wallet1)],
+      wallet2
+    );
+    expect(result.result).toBeOk(Cl.some(BTC_ADDRESS));
+  });
+
+  it("should resolve to none without records", () => {
+    const result = simnet.callPublicFn(
+      contractName,
+      "resolve",
+      [Cl.stringUtf8("alice"), Cl.principal(wallet1)],
+      wallet2
+    );
+    expect(result.result).toBeOk(Cl.none());
+  });
+
+  it("should resolve through the registrar once set as the name's resolver", () => {
+    simnet.callPublicFn(contractName, "set-btc-address", [Cl.stringUtf8("alice"), BTC_ADDRESS], wallet1);
+    simnet.callPublicFn(
+      registrarName,
+      "set-resolver",
+      [Cl.stringUtf8("alice"), Cl.principal(resolverContract)],
+      wallet1
+    );
+
+    const result = simnet.callPublicFn(
+      registrarName,
+      "resolve-name",
+      [Cl.stringUtf8("alice"), Cl.principal(resolverContract)],
+      wallet2
+    );
+    expect(result.result).toBeOk(Cl.some(BTC_ADDRESS));
+  });
+
+  it("should refuse resolve-name before the resolver is set", () => {
+    simnet.callPublicFn(contractName, "set-btc-address", [Cl.stringUtf8("alice"), BTC_ADDRESS], wallet1);
+
+    const result = simnet.callPublicFn(
+      registrarName,
+      "resolve-name",
+      [Cl.stringUtf8("alice"), Cl.principal(resolverContract)],
+      wallet2
+    );
+    expect(result.result).toBeErr(Cl.uint(1008)); // ERR_RESOLVER_INVALID
+  });
+
+  it("should refuse resolve-name with a resolver other than the stored one", () => {
+    simnet.callPublicFn(
+      registrarName,
+      "set-resolver",
+      [Cl.stringUtf8("alice"), Cl.principal(wallet2)],
+      wallet1
+    );
+
+    const result = simnet.callPublicFn(
+      registrarName,
+      "resolve-name",
+      [Cl.stringUtf8("alice"), Cl.principal(resolverContract)],
+      wallet2
+    );
+    expect(result.result).toBeErr(Cl.uint(1008)); // ERR_RESOLVER_INVALID
+  });
+
+  it("should refuse resolve-name after the resolver is cleared", () => {
+    simnet.callPublicFn(registrarName, "set-resolver", [Cl.stringUtf8("alice"), Cl.principal(resolverContract)], wallet1);
+    simnet.callPublicFn(registrarName, "clear-resolver", [Cl.stringUtf8("alice")], wallet1);
+
+    const result = simnet.callPublicFn(
+      registrarName,
+      "resolve-name",
+      [Cl.stringUtf8("alice"), Cl.principal(resolverContract)],
+      wallet2
+    );
+    expect(result.result).toBeErr(Cl.uint(1008)); // ERR_RESOLVER_INVALID
+  });
+});
+
+// ════════════════════════════════════════════════════════════════════════════
+// RECORD SCOPE TESTS
+// ════════════════════════════════════════════════════════════════════════════
+
+describe("Record Scope", () => {
+  beforeEach(() => {
+    registerAlice();
+    simnet.callPublicFn(contractName, "set-btc-address", [Cl.stringUtf8("alice"), BTC_ADDRESS], wallet1);
+    simnet.callPublicFn(contractName, "set-custom-data", [Cl.stringUtf8("alice"), CUSTOM_DATA], wallet1);
+  });
+
+  function resolveAlice() {
+    return simnet.callPublicFn(contractName, "resolve", [Cl.stringUtf8("alice"), Cl.principal(wallet2)], wallet2).result;
+  }
+
+  it("should not hand the previous owner's records to the new owner", () => {
+    simnet.callPublicFn(registrarName, "transfer-name", [Cl.stringUtf8("alice"), Cl.principal(wallet2)], wallet1);
+
+    expect(resolveAlice()).toBeOk(Cl.none());
+    expect(
+      simnet.callReadOnlyFn(contractName, "get-records", [Cl.stringUtf8("alice")], wallet2).result
+    ).toBeNone();
+
+    // The new owner's own records start from empty
+    simnet.callPublicFn(contractName, "set-stx-address", [Cl.stringUtf8("alice"), Cl.principal(wallet2)], wallet2);
+    expect(
+      simnet.callReadOnlyFn(contractName, "get-records", [Cl.stringUtf8("alice")], wallet2).result
+    ).toBeSome(Cl.tuple({
+      "stx-address": Cl.some(Cl.principal(wallet2)),
+      "btc-address": Cl.none(),
+      "custom-data": Cl.none(),
+    }));
+  });
+
+  it("should keep records through the grace period", () => {
+    simnet.mineEmptyBlocks(REGISTRATION_PERIOD + 1);
+
+    expect(resolveAlice()).toBeOk(Cl.some(BTC_ADDRESS));
+  });
+
+  it("should resolve nothing once the name has fully expired", () => {
+    simnet.mineEmptyBlocks(REGISTRATION_PERIOD + GRACE_PERIOD + 1);
+
+    expect(resolveAlice()).toBeOk(Cl.none());
+    expect(
+      simnet.callReadOnlyFn(contractName, "get-btc-address", [Cl.stringUtf8("alice")], wallet2).result
+    ).toBeNone();
+  });
+
+  it("should start clean when the name is re-registered", () => {
+    simnet.mineEmptyBlocks(REGISTRATION_PERIOD + GRACE_PERIOD + 1);
+    simnet.callPublicFn(registrarName, "register-name", [Cl.stringUtf8("alice")], wallet2);
+
+    expect(resolveAlice()).toBeOk(Cl.none());
+    expect(
+      simnet.callReadOnlyFn(contractName, "get-custom-data", [Cl.stringUtf8("alice")], wallet2).result
+    ).toBeNone();
+  });
+
+  it("should start clean when the previous owner registers the name again", () => {
+    simnet.mineEmptyBlocks(REGISTRATION_PERIOD + GRACE_PERIOD + 1);
+    simnet.callPublicFn(registrarName, "register-name", [Cl.stringUtf8("alice")], wallet1);
+
+    expect(resolveAlice()).toBeOk(Cl.none());
+  });
+});
@@ -0,0 +1,302 @@
+/**
+ * ╔══════════════════════════════════════════════════════════════════════════╗
+ * ║  BiUD — Subname Test Suite                                               ║
+ * ║  Issuing, managing and expiring subnames (pay.alice.sBTC) in v4          ║
+ * ╚══════════════════════════════════════════════════════════════════════════╝
+ */
+
+import { describe, it, expect, beforeEach } from "vitest";
+import { Cl } from "@stacks/transactions";
+
+// Test accounts from simnet
+const accounts = simnet.getAccounts();
+const wallet1 = accounts.get("wallet_1")!;
+const wallet2 = accounts.get("wallet_2")!;
+const wallet3 = accounts.get("wallet_3")!;
+
+const contractName = "biud-username-v4";
+
+const REGISTRATION_PERIOD = 52560;
+const GRACE_PERIOD = 1008;
+
+// Expiry height of "alice", registered by wallet1 before each test
+let parentExpiry: number;
+
+function createSubname(label: string, owner: string, expiryHeight: number, sender = wallet1) {
+  return simnet.callPublicFn(
+    contractName,
+    "create-subname",
+    [Cl.stringUtf8("alice"), Cl.stringUtf8(label), Cl.principal(owner), Cl.uint(expiryHeight)],
+    sender
+  ).result;
+}
+
+function subnameCall(fn: string, label: string, args: any[], sender: string) {
+  return simnet.callPublicFn(contractName, fn, [Cl.stringUtf8("alice"), Cl.stringUtf8(label), ...args], sender).result;
+}
+
+function subnameReadOnly(fn: string, label: string) {
+  return simnet.callReadOnlyFn(contractName, fn, [Cl.stringUtf8("alice"), Cl.stringUtf8(label)], wallet1).result;
+}
+
+function registerAlice() {
+  simnet.callPublicFn(contractName, "register-name", [Cl.stringUtf8("alice"), Cl.uint(1)], wallet1);
+  parentExpiry = simnet.blockHeight + REGISTRATION_PERIOD;
+}
+
+// ════════════════════════════════════════════════════════════════════════════
+// ISSUANCE TESTS
+// ════════════════════════════════════════════════════════════════════════════
+
+describe("Subname Issuance", () => {
+  beforeEach(registerAlice);
+
+  it("should let the parent owner create a subname for another principal", () => {
+    expect(createSubname("pay", wallet2, parentExpiry)).toBeOk(Cl.bool(true));
+
+    expect(subnameReadOnly("get-subname", "pay")).toBeSome(Cl.tuple({
+      label: Cl.stringUtf8("pay"),
+      parent: Cl.stringUtf8("alice"),
+      "full-name": Cl.stringUtf8("pay.alice.sBTC"),
+      owner: Cl.principal(wallet2),
+      resolver: Cl.none(),
+      "expiry-height": Cl.uint(parentExpiry),
+      "created-at": Cl.uint(simnet.blockHeight),
+    }));
+    expect(subnameReadOnly("get-subname-owner", "pay")).toBeSome(Cl.principal(wallet2));
+    expect(subnameReadOnly("is-subname-active", "pay")).toBeBool(true);
+  });
+
+  it("should list subnames under the parent", () => {
+    createSubname("pay", wallet1, parentExpiry);
+    createSubname("team", wallet2, parentExpiry);
+
+    expect(
+      simnet.callReadOnlyFn(contractName, "get-subnames", [Cl.stringUtf8("alice")], wallet1).result
+    ).toBeList([Cl.stringUtf8("pay"), Cl.stringUtf8("team")]);
+  });
+
+  it("should emit SubnameCreated", () => {
+    const { events } = simnet.callPublicFn(
+      contractName,
+      "create-subname",
+      [Cl.stringUtf8("alice"), Cl.stringUtf8("pay"), Cl.principal(wallet2), Cl.uint(parentExpiry)],
+      wallet1
+    );
+    const printEvent = events.find((e: any) => e.event === "print_event");
+
+    expect(printEvent?.data.value).toEqual(expect.objectContaining({
+      data: expect.objectContaining({
+        event: Cl.stringAscii("SubnameCreated"),
+        parent: Cl.stringUtf8("alice"),
+        label: Cl.stringUtf8("pay"),
+        owner: Cl.principal(wallet2),
+      }),
+    }));
+  });
+
+  it("should reject subnames from anyone but the parent owner", () => {
+    expect(createSubname("pay", wallet2, parentExpiry, wallet2)).toBeErr(Cl.uint(1003)); // ERR_NOT_OWNER
+    expect(subnameReadOnly("get-subname", "pay")).toBeNone();
+  });
+
+  it("should reject subnames under unregistered names", () => {
+    const result = simnet.callPublicFn(
+      contractName,
+      "create-subname",
+      [Cl.stringUtf8("ghost"), Cl.stringUtf8("pay"), Cl.principal(wallet1), Cl.uint(parentExpiry)],
+      wallet1
+    );
+    expect(result.result).toBeErr(Cl.uint(1009)); // ERR_NAME_NOT_FOUND
+  });
+
+  it("should validate subname labels like names", () => {
+    expect(createSubname("Pay", wallet1, parentExpiry)).toBeErr(Cl.uint(1012)); // ERR_INVALID_CHARACTER
+    expect(createSubname("-pay", wallet1, parentExpiry)).toBeErr(Cl.uint(1005)); // ERR_INVALID_LABEL
+    expect(createSubname("", wallet1, parentExpiry)).toBeErr(Cl.uint(1011)); // ERR_LABEL_EMPTY
+  });
+
+  it("should not let a subname outlive its parent", () => {
+    expect(createSubname("pay", wallet1, parentExpiry + 1)).toBeErr(Cl.uint(1018)); // ERR_INVALID_EXPIRY
+  });
+
+  it("should reject an expiry that has already passed", () => {
+    expect(createSubname("pay", wallet1, simnet.blockHeight)).toBeErr(Cl.uint(1018)); // ERR_INVALID_EXPIRY
+  });
+
+  it("should not reissue a live subname", () => {
+    createSubname("pay", wallet2, parentExpiry);
+    expect(createSubname("pay", wallet3, parentExpiry)).toBeErr(Cl.uint(1001)); // ERR_NAME_TAKEN
+  });
+});
+
+// ════════════════════════════════════════════════════════════════════════════
+// REVOCATION TESTS
+// ════════════════════════════════════════════════════════════════════════════
+
+describe("Subname Revocation", () => {
+  beforeEach(registerAlice);
+
+  it("should let the parent owner revoke a subname", () => {
+    createSubname("pay", wallet2, parentExpiry);
+
+    expect(subnameCall("revoke-subname", "pay", [], wallet1)).toBeOk(Cl.bool(true));
+    expect(subnameReadOnly("get-subname", "pay")).toBeNone();
+    expect(
+      simnet.callReadOnlyFn(contractName, "get-subnames", [Cl.stringUtf8("alice")], wallet1).result
+    ).toBeList([]);
+  });
+
+  it("should not let the subname owner revoke it", () => {
+    createSubname("pay", wallet2, parentExpiry);
+    expect(subnameCall("revoke-subname", "pay", [], wallet2)).toBeErr(Cl.uint(1003)); // ERR_NOT_OWNER
+  });
+
+  it("should fail to revoke a subname that was never issued", () => {
+    expect(subnameCall("revoke-subname", "pay", [], wallet1)).toBeErr(Cl.uint(1009)); // ERR_NAME_NOT_FOUND
+  });
+
+  it("should allow reissuing a revoked subname", () => {
+    createSubname("pay", wallet2, parentExpiry);
+    subnameCall("revoke-subname", "pay", [], wallet1);
+
+    expect(createSubname("pay", wallet3, parentExpiry)).toBeOk(Cl.bool(true));
+    expect(subnameReadOnly("get-subname-owner", "pay")).toBeSome(Cl.principal(wallet3));
+  });
+
+  it("should pass revocation rights along with the parent", () => {
+    createSubname("pay", wallet3, parentExpiry);
+    simnet.callPublicFn(contractName, "transfer-name", [Cl.stringUtf8("alice"), Cl.principal(wallet2)], wallet1);
+
+    expect(subnameCall("revoke-subname", "pay", [], wallet1)).toBeErr(Cl.uint(1003)); // ERR_NOT_OWNER
+    expect(subnameCall("revoke-subname", "pay", [], wallet2)).toBeOk(Cl.bool(true));
+  });
+});
+
+// ════════════════════════════════════════════════════════════════════════════
+// SUBNAME OWNER TESTS
+// ════════════════════════════════════════════════════════════════════════════
+
+describe("Subname Ownership", () => {
+  beforeEach(registerAlice);
+
+  it("should let the subname owner transfer it", () => {
+    createSubname("pay", wallet2, parentExpiry);
+
+    expect(subnameCall("transfer-subname", "pay", [Cl.principal(wallet3)], wallet2)).toBeOk(Cl.bool(true));
+    expect(subnameReadOnly("get-subname-owner", "pay")).toBeSome(Cl.principal(wallet3));
+  });
+
+  it("should not let the parent owner transfer someone else's subname", () => {
+    createSubname("pay", wallet2, parentExpiry);
+    expect(subnameCall("transfer-subname", "pay", [Cl.principal(wallet3)], wallet1)).toBeErr(Cl.uint(1003));
+  });
+
+  it("should reject transferring a subname to its owner", () => {
+    createSubname("pay", wallet2, parentExpiry);
+    expect(subnameCall("transfer-subname", "pay", [Cl.principal(wallet2)], wallet2)).toBeErr(Cl.uint(1013));
+  });
+
+  it("should let the subname owner set and clear its resolver", () => {
+    createSubname("pay", wallet2, parentExpiry);
+
+    expect(
+      subnameCall("set-subname-resolver", "pay", [Cl.some(Cl.principal(wallet3))], wallet2)
+    ).toBeOk(Cl.bool(true));
+    expect((subnameReadOnly("get-subname", "pay") as any).value.data.resolver).toBeSome(Cl.principal(wallet3));
+
+    subnameCall("set-subname-resolver", "pay", [Cl.none()], wallet2);
+    expect((subnameReadOnly("get-subname", "pay") as any).value.data.resolver).toBeNone();
+  });
+
+  it("should not let others set the resolver", () => {
+    createSubname("pay", wallet2, parentExpiry);
+    expect(
+      subnameCall("set-subname-resolver", "pay", [Cl.some(Cl.principal(wallet3))], wallet1)
+    ).toBeErr(Cl.uint(1003));
+  });
+});
+
+// ════════════════════════════════════════════════════════════════════════════
+// SUBNAME EXPIRY TESTS
+// ════════════════════════════════════════════════════════════════════════════
+
+describe("Subname Expiry", () => {
+  beforeEach(registerAlice);
+
+  it("should expire at its own expiry height", () => {
+    const expiry = simnet.blockHeight + 100;
+    createSubname("pay", wallet2, expiry);
+
+    simnet.mineEmptyBlocks(expiry - simnet.blockHeight);
+    expect(subnameReadOnly("is-subname-active", "pay")).toBeBool(true);
+
+    simnet.mineEmptyBlocks(1);
+    expect(subnameReadOnly("is-subname-active", "pay")).toBeBool(false);
+    expect(subnameReadOnly("get-subname-owner", "pay")).toBeNone();
+    expect(subnameCall("transfer-subname", "pay", [Cl.principal(wallet3)], wallet2)).toBeErr(Cl.uint(1002));
+  });
+
+  it("should allow reissuing an expired subname", () => {
+    const expiry = simnet.blockHeight + 100;
+    createSubname("pay", wallet2, expiry);
+    simnet.mineEmptyBlocks(expiry - simnet.blockHeight);
+
+    expect(createSubname("pay", wallet3, parentExpiry)).toBeOk(Cl.bool(true));
+  });
+
+  it("should stay capped at the parent expiry when the parent is renewed", () => {
+    createSubname("pay", wallet2, parentExpiry);
+    simnet.callPublicFn(contractName, "renew-name", [Cl.stringUtf8("alice"), Cl.uint(1)], wallet1);
+
+    expect((subnameReadOnly("get-subname", "pay") as any).value.data["expiry-height"]).toBeUint(parentExpiry);
+
+    // The parent owner can extend it into the renewed period
+    const extended = parentExpiry + REGISTRATION_PERIOD;
+    expect(subnameCall("set-subname-expiry", "pay", [Cl.uint(extended)], wallet1)).toBeOk(Cl.bool(true));
+    expect((subnameReadOnly("get-subname", "pay") as any).value.data["expiry-height"]).toBeUint(extended);
+  });
+
+  it("should only let the parent owner move the expiry within the parent's", () => {
+    createSubname("pay", wallet2, parentExpiry - 10);
+
+    expect(subnameCall("set-subname-expiry", "pay", [Cl.uint(parentExpiry)], wallet2)).toBeErr(Cl.uint(1003));
+    expect(subnameCall("set-subname-expiry", "pay", [Cl.uint(parentExpiry + 1)], wallet1)).toBeErr(Cl.uint(1018));
+  });
+
+  it("should lapse with the parent", () => {
+    createSubname("pay", wallet2, parentExpiry);
+    simnet.mineEmptyBlocks(parentExpiry + 1 - simnet.blockHeight);
+
+    expect(subnameReadOnly("is-subname-active", "pay")).toBeBool(false);
+    expect(createSubname("pay", wallet2, parentExpiry)).toBeErr(Cl.uint(1002)); // ERR_NAME_EXPIRED
+  });
+
+  it("should not survive re-registration of the parent", () => {
+    createSubname("pay", wallet2, parentExpiry);
+    simnet.mineEmptyBlocks(parentExpiry + GRACE_PERIOD + 1 - simnet.blockHeight);
+    simnet.callPublicFn(contractName, "register-name", [Cl.stringUtf8("alice"), Cl.uint(1)], wallet3);
+    const newExpiry = simnet.blockHeight + REGISTRATION_PERIOD;
+
+    expect(subnameReadOnly("get-subname", "pay")).toBeNone();
+    expect(createSubname("pay", wallet3, newExpiry, wallet3)).toBeOk(Cl.bool(true));
+    expect(subnameReadOnly("get-subname-owner", "pay")).toBeSome(Cl.principal(wallet3));
+  });
+
+  it("should give a re-registered parent an empty subname list", () => {
+    const labels = Array.from({ length: 50 }, (_, i) => `sub${i}`);
+    labels.forEach((label) => expect(createSubname(label, wallet2, parentExpiry)).toBeOk(Cl.bool(true)));
+    expect(createSubname("one-more", wallet2, parentExpiry)).toBeErr(Cl.uint(1015)); // ERR_LIST_FULL
+
+    simnet.mineEmptyBlocks(parentExpiry + GRACE_PERIOD + 1 - simnet.blockHeight);
+    simnet.callPublicFn(contractName, "register-name", [Cl.stringUtf8("alice"), Cl.uint(1)], wallet3);
+    const newExpiry = simnet.blockHeight + REGISTRATION_PERIOD;
+    const getSubnames = () =>
+      simnet.callReadOnlyFn(contractName, "get-subnames", [Cl.stringUtf8("alice")], wallet1).result;
+
+    expect(getSubnames()).toBeList([]);
+    // The new owner has the full capacity
+    expect(createSubname("one-more", wallet3, newExpiry, wallet3)).toBeOk(Cl.bool(true));
+    expect(getSubnames()).toBeList([Cl.stringUtf8("one-more")]);
+  });
+});
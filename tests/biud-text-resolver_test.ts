@@ -0,0 +1,301 @@
+/**
+ * ╔══════════════════════════════════════════════════════════════════════════╗
+ * ║  BiUD — Text Records Resolver Tests                                      ║
+ * ║  Key-value profile records (avatar, url, com.twitter, ...) for v4 names  ║
+ * ╚══════════════════════════════════════════════════════════════════════════╝
+ */
+
+import { describe, it, expect, beforeEach } from "vitest";
+import { Cl } from "@stacks/transactions";
+
+// Test accounts from simnet
+const accounts = simnet.getAccounts();
+const deployer = accounts.get("deployer")!;
+const wallet1 = accounts.get("wallet_1")!; // owner
+const wallet2 = accounts.get("wallet_2")!;
+const wallet3 = accounts.get("wallet_3")!;
+
+const contractName = "biud-text-resolver";
+// The registrar the resolver reads ownership from
+const registrarName = "biud-username-v4";
+const resolverContract = `${deployer}.${contractName}`;
+
+const REGISTRATION_PERIOD = 52560;
+const GRACE_PERIOD = 1008;
+
+function registerAlice() {
+  simnet.callPublicFn(registrarName, "register-name", [Cl.stringUtf8("alice"), Cl.uint(1)], wallet1);
+}
+
+function setText(key: string, value: string, sender = wallet1, label = "alice") {
+  return simnet.callPublicFn(
+    contractName,
+    "set-text",
+    [Cl.stringUtf8(label), Cl.stringAscii(key), Cl.stringUtf8(value)],
+    sender
+  );
+}
+
+function setTexts(records: [string, string][], sender = wallet1) {
+  const list = records.map(([key, value]) => Cl.tuple({ key: Cl.stringAscii(key), value: Cl.stringUtf8(value) }));
+  return simnet.callPublicFn(contractName, "set-texts", [Cl.stringUtf8("alice"), Cl.list(list)], sender);
+}
+
+function getText(key: string) {
+  return simnet.callReadOnlyFn(contractName, "get-text", [Cl.stringUtf8("alice"), Cl.stringAscii(key)], wallet2).result;
+}
+
+function getTextRecords() {
+  return simnet.callReadOnlyFn(contractName, "get-text-records", [Cl.stringUtf8("alice")], wallet2).result;
+}
+
+function record(key: string, value: string) {
+  return Cl.tuple({ key: Cl.stringAscii(key), value: Cl.stringUtf8(value) });
+}
+
+// ════════════════════════════════════════════════════════════════════════════
+// TEXT RECORD TESTS
+// ════════════════════════════════════════════════════════════════════════════
+
+describe("Text Records", () => {
+  beforeEach(registerAlice);
+
+  it("should let the owner set arbitrary keys", () => {
+    expect(setText("avatar", "ipfs://bafybeigdyrzt/alice.png").result).toBeOk(Cl.bool(true));
+    expect(setText("com.twitter", "alice").result).toBeOk(Cl.bool(true));
+
+    expect(getText("avatar")).toBeSome(Cl.stringUtf8("ipfs://bafybeigdyrzt/alice.png"));
+    expect(getText("com.twitter")).toBeSome(Cl.stringUtf8("alice"));
+    expect(getText("url")).toBeNone();
+  });
+
+  it("should emit an event for every change", () => {
+    const { events } = setText("description", "Builder on Bitcoin ₿");
+    const printEvent = events.find((e: any) => e.event === "print_event");
+
+    expect(printEvent?.data.value).toEqual(expect.objectContaining({
+      data: expect.objectContaining({
+        event: Cl.stringAscii("TextChanged"),
+        label: Cl.stringUtf8("alice"),
+        key: Cl.stringAscii("description"),
+        value: Cl.stringUtf8("Builder on Bitcoin ₿"),
+      }),
+    }));
+  });
+
+  it("should list every record in the order keys were first set", () => {
+    setText("url", "https://alice.example");
+    setText("email", "alice@example.com");
+    setText("url", "https://alice.dev");
+
+    expect(getTextRecords()).toBeList([
+      record("url", "https://alice.dev"),
+      record("email", "alice@example.com"),
+    ]);
+    expect(
+      simnet.callReadOnlyFn(contractName, "get-text-keys", [Cl.stringUtf8("alice")], wallet2).result
+    ).toBeList([Cl.stringAscii("url"), Cl.stringAscii("email")]);
+  });
+
+  it("should clear one key, or every key", () => {
+    setText("url", "https://alice.example");
+    setText("email", "alice@example.com");
+
+    expect(
+      simnet.callPublicFn(contractName, "clear-text", [Cl.stringUtf8("alice"), Cl.stringAscii("url")], wallet1).result
+    ).toBeOk(Cl.bool(true));
+    expect(getText("url")).toBeNone();
+    expect(getTextRecords()).toBeList([record("email", "alice@example.com")]);
+
+    expect(
+      simnet.callPublicFn(contractName, "clear-records", [Cl.stringUtf8("alice")], wallet1).result
+    ).toBeOk(Cl.bool(true));
+    expect(getText("email")).toBeNone();
+    expect(getTextRecords()).toBeList([]);
+  });
+
+  it("should treat an empty value as clearing the key", () => {
+    setText("url", "https://alice.example");
+
+    expect(setText("url", "").result).toBeOk(Cl.bool(true));
+    expect(getText("url")).toBeNone();
+    expect(getTextRecords()).toBeList([]);
+  });
+
+  it("should reject an empty key", () => {
+    expect(setText("", "value").result).toBeErr(Cl.uint(2003)); // ERR_INVALID_KEY
+  });
+
+  it("should cap a name at 20 keys", () => {
+    for (let i = 0; i < 20; i++) {
+      expect(setText(`key-${i}`, "value").result).toBeOk(Cl.bool(true));
+    }
+    expect(setText("key-20", "value").result).toBeErr(Cl.uint(2004)); // ERR_TOO_MANY_KEYS
+    // Existing keys can still change, and clearing one frees a slot
+    expect(setText("key-0", "changed").result).toBeOk(Cl.bool(true));
+    setText("key-1", "");
+    expect(setText("key-20", "value").result).toBeOk(Cl.bool(true));
+  });
+});
+
+// ════════════════════════════════════════════════════════════════════════════
+// BATCH TESTS
+// ════════════════════════════════════════════════════════════════════════════
+
+describe("Batch Set", () => {
+  beforeEach(registerAlice);
+
+  it("should set and clear several records in one call", () => {
+    setText("email", "alice@example.com");
+
+    const { result } = setTexts([
+      ["avatar", "https://alice.example/a.png"],
+      ["com.github", "alice"],
+      ["email", ""],
+    ]);
+    expect(result).toBeOk(Cl.bool(true));
+    expect(getTextRecords()).toBeList([
+      record("avatar", "https://alice.example/a.png"),
+      record("com.github", "alice"),
+    ]);
+  });
+
+  it("should apply nothing if one record is invalid", () => {
+    const { result } = setTexts([
+      ["avatar", "https://alice.example/a.png"],
+      ["", "no key"],
+    ]);
+    expect(result).toBeErr(Cl.uint(2003)); // ERR_INVALID_KEY
+    expect(getTextRecords()).toBeList([]);
+  });
+});
+
+// ════════════════════════════════════════════════════════════════════════════
+// AUTHORIZATION TESTS
+// ════════════════════════════════════════════════════════════════════════════
+
+describe("Authorization", () => {
+  beforeEach(registerAlice);
+
+  it("should reject records from anyone but the owner or an operator", () => {
+    expect(setText("url", "https://evil.example", wallet2).result).toBeErr(Cl.uint(2001)); // ERR_NOT_OWNER
+    expect(setTexts([["url", "https://evil.example"]], wallet2).result).toBeErr(Cl.uint(2001));
+    expect(
+      simnet.callPublicFn(contractName, "clear-records", [Cl.stringUtf8("alice")], wallet2).result
+    ).toBeErr(Cl.uint(2001));
+  });
+
+  it("should let an operator approved for the name edit records", () => {
+    simnet.callPublicFn(
+      registrarName,
+      "set-name-operator",
+      [Cl.stringUtf8("alice"), Cl.principal(wallet2), Cl.bool(false)],
+      wallet1
+    );
+
+    expect(setText("url", "https://alice.example", wallet2).result).toBeOk(Cl.bool(true));
+    expect(setText("url", "https://alice.example", wallet3).result).toBeErr(Cl.uint(2001));
+  });
+
+  it("should hand record control to the new owner after a transfer", () => {
+    simnet.callPublicFn(registrarName, "transfer-name", [Cl.stringUtf8("alice"), Cl.principal(wallet2)], wallet1);
+
+    expect(setText("url", "https://alice.example", wallet1).result).toBeErr(Cl.uint(2001));
+    expect(setText("url", "https://alice.example", wallet2).result).toBeOk(Cl.bool(true));
+  });
+
+  it("should reject records for unregistered or released names", () => {
+    expect(setText("url", "https://ghost.example", wallet1, "ghost").result).toBeErr(Cl.uint(2002)); // ERR_NOT_FOUND
+
+    simnet.mineEmptyBlocks(REGISTRATION_PERIOD + GRACE_PERIOD + 1);
+    expect(setText("url", "https://alice.example").result).toBeErr(Cl.uint(2002));
+  });
+});
+
+// ════════════════════════════════════════════════════════════════════════════
+// RECORD SCOPE TESTS
+// ════════════════════════════════════════════════════════════════════════════
+
+describe("Record Scope", () => {
+  beforeEach(() => {
+    registerAlice();
+    setTexts([["url", "https://alice.example"], ["com.twitter", "alice"]]);
+  });
+
+  it("should start with no records after a transfer", () => {
+    simnet.callPublicFn(registrarName, "transfer-name", [Cl.stringUtf8("alice"), Cl.principal(wallet2)], wallet1);
+
+    expect(getText("url")).toBeNone();
+    expect(getTextRecords()).toBeList([]);
+
+    // The new owner's records do not pick up the old keys
+    setText("url", "https://bob.example", wallet2);
+    expect(getTextRecords()).toBeList([record("url", "https://bob.example")]);
+  });
+
+  it("should not let a previous operator write into the new owner's records", () => {
+    simnet.callPublicFn(registrarName, "set-owner-operator", [Cl.principal(wallet3), Cl.bool(false)], wallet1);
+    simnet.callPublicFn(registrarName, "transfer-name", [Cl.stringUtf8("alice"), Cl.principal(wallet2)], wallet1);
+
+    expect(setText("url", "https://evil.example", wallet3).result).toBeErr(Cl.uint(2001)); // ERR_NOT_OWNER
+  });
+
+  it("should hide records once the name has fully expired", () => {
+    simnet.mineEmptyBlocks(REGISTRATION_PERIOD + 1);
+    expect(getText("url")).toBeSome(Cl.stringUtf8("https://alice.example"));
+
+    simnet.mineEmptyBlocks(GRACE_PERIOD);
+    expect(getText("url")).toBeNone();
+    expect(getTextRecords()).toBeList([]);
+  });
+
+  it("should keep the seller's records while the marketplace holds the name", () => {
+    simnet.callPublicFn("biud-marketplace", "list-name", [Cl.stringUtf8("alice"), Cl.uint(1_000_000)], wallet1);
+
+    expect(getText("url")).toBeSome(Cl.stringUtf8("https://alice.example"));
+    // The seller cannot edit them until the listing ends
+    expect(setText("url", "https://other.example").result).toBeErr(Cl.uint(2001));
+
+    simnet.callPublicFn("biud-marketplace", "cancel-listing", [Cl.stringUtf8("alice")], wallet1);
+    expect(getText("url")).toBeSome(Cl.stringUtf8("https://alice.example"));
+  });
+
+  it("should start with no records when a listed name is sold", () => {
+    simnet.callPublicFn("biud-marketplace", "list-name", [Cl.stringUtf8("alice"), Cl.uint(1_000_000)], wallet1);
+    simnet.callPublicFn("biud-marketplace", "buy-name", [Cl.stringUtf8("alice")], wallet2);
+
+    expect(getTextRecords()).toBeList([]);
+  });
+
+  it("should start with no records when the name is re-registered", () => {
+    simnet.mineEmptyBlocks(REGISTRATION_PERIOD + GRACE_PERIOD + 1);
+    simnet.callPublicFn(registrarName, "register-name", [Cl.stringUtf8("alice"), Cl.uint(1)], wallet1);
+
+    expect(getTextRecords()).toBeList([]);
+    expect(
+      simnet.callReadOnlyFn(contractName, "get-text-keys", [Cl.stringUtf8("alice")], wallet2).result
+    ).toBeList([]);
+  });
+});
+
+// ════════════════════════════════════════════════════════════════════════════
+// RESOLUTION TESTS
+// ════════════════════════════════════════════════════════════════════════════
+
+describe("Resolution", () => {
+  beforeEach(registerAlice);
+
+  it("should be accepted as a resolver by the registrar", () => {
+    setText("url", "https://alice.example");
+    simnet.callPublicFn(registrarName, "set-resolver", [Cl.stringUtf8("alice"), Cl.principal(resolverContract)], wallet1);
+
+    const { result } = simnet.callPublicFn(
+      registrarName,
+      "resolve-name",
+      [Cl.stringUtf8("alice"), Cl.principal(resolverContract)],
+      wallet2
+    );
+    // Text records are read with get-text; the trait result stays empty
+    expect(result).toBeOk(Cl.none());
+  });
+});
@@ -0,0 +1,442 @@
+/**
+ * ╔══════════════════════════════════════════════════════════════════════════╗
+ * ║  BiUD — Registrar v4 Test Suite                                          ║
+ * ║  Primary names, reverse resolution and resolver checks in v4             ║
+ * ╚══════════════════════════════════════════════════════════════════════════╝
+ */
+
+import { describe, it, expect } from "vitest";
+import { Cl } from "@stacks/transactions";
+import labelVectors from "./fixtures/label-vectors.json";
+
+// Test accounts from simnet
+const accounts = simnet.getAccounts();
+const deployer = accounts.get("deployer")!;
+const wallet1 = accounts.get("wallet_1")!;
+const wallet2 = accounts.get("wallet_2")!;
+const wallet3 = accounts.get("wallet_3")!;
+
+const contractName = "biud-username-v4";
+const resolverContract = `${deployer}.biud-resolver-v2`;
+
+const REGISTRATION_PERIOD = 52560;
+const MAX_REGISTRATION_YEARS = 10;
+const BASE_FEE = 10_000_000;
+const RENEW_FEE = 5_000_000;
+
+function register(label: string, sender: string, years = 1) {
+  return simnet.callPublicFn(contractName, "register-name", [Cl.stringUtf8(label), Cl.uint(years)], sender);
+}
+
+function renew(label: string, sender: string, years: number) {
+  return simnet.callPublicFn(contractName, "renew-name", [Cl.stringUtf8(label), Cl.uint(years)], sender);
+}
+
+function getExpiry(label: string) {
+  return simnet.callReadOnlyFn(contractName, "get-expiry", [Cl.stringUtf8(label)], wallet1).result;
+}
+
+function getPrimaryName(address: string) {
+  return simnet.callReadOnlyFn(contractName, "get-primary-name", [Cl.principal(address)], address).result;
+}
+
+function primaryNameTuple(label: string, expiryHeight: number) {
+  return Cl.tuple({
+    label: Cl.stringUtf8(label),
+    "full-name": Cl.stringUtf8(`${label}.sBTC`),
+    "expiry-height": Cl.uint(expiryHeight),
+  });
+}
+
+// ════════════════════════════════════════════════════════════════════════════
+// LABEL VALIDATION TESTS
+// ════════════════════════════════════════════════════════════════════════════
+
+describe("Label Validation", () => {
+  it.each(labelVectors.valid)("should accept %j", (label) => {
+    expect(register(label, wallet1).result).toBeOk(expect.anything());
+  });
+
+  it.each(labelVectors.invalid)("should reject $label with u$error", ({ label, error }) => {
+    // Labels longer than the (string-utf8 32) argument never reach the contract
+    if ([...label].length > 32) {
+      expect(() => register(label, wallet1)).toThrow();
+      return;
+    }
+    expect(register(label, wallet1).result).toBeErr(Cl.uint(error));
+    expect(
+      simnet.callReadOnlyFn(contractName, "get-name", [Cl.stringUtf8(label)], wallet1).result
+    ).toBeNone();
+  });
+});
+
+// ════════════════════════════════════════════════════════════════════════════
+// AUTO-SET ON REGISTRATION TESTS
+// ════════════════════════════════════════════════════════════════════════════
+
+describe("Primary Name on Registration", () => {
+  it("should set the first registered name as primary", () => {
+    const result = register("alice", wallet1);
+    const expiry = simnet.blockHeight + 52560;
+
+    expect(result.result).toBeOk(Cl.tuple({
+      "name-id": Cl.uint(1),
+      "full-name": Cl.stringUtf8("alice.sBTC"),
+      "expiry-height": Cl.uint(expiry),
+      "fee-paid": Cl.uint(10000000),
+      "is-primary": Cl.bool(true),
+    }));
+    expect(getPrimaryName(wallet1)).toBeSome(primaryNameTuple("alice", expiry));
+  });
+
+  it("should keep the existing primary name on later registrations", () => {
+    register("alice", wallet1);
+    const result = register("alice2", wallet1);
+
+    expect(result.result).toBeOk(Cl.tuple({
+      "name-id": Cl.uint(2),
+      "full-name": Cl.stringUtf8("alice2.sBTC"),
+      "expiry-height": Cl.uint(simnet.blockHeight + 52560),
+      "fee-paid": Cl.uint(10000000),
+      "is-primary": Cl.bool(false),
+    }));
+    expect(
+      simnet.callReadOnlyFn(contractName, "get-primary-label", [Cl.principal(wallet1)], wallet1).result
+    ).toBeSome(Cl.stringUtf8("alice"));
+  });
+
+  it("should report primary status in the registration event", () => {
+    const { events } = register("alice", wallet1);
+    const printEvent = events.find((e: any) => e.event === "print_event");
+
+    expect(printEvent?.data.value).toEqual(expect.objectContaining({
+      data: expect.objectContaining({
+        event: Cl.stringAscii("NameRegistered"),
+        "is-primary": Cl.bool(true),
+      }),
+    }));
+  });
+
+  it("should return none for addresses without a primary name", () => {
+    expect(getPrimaryName(wallet2)).toBeNone();
+    expect(
+      simnet.callReadOnlyFn(contractName, "get-primary-label", [Cl.principal(wallet2)], wallet2).result
+    ).toBeNone();
+    expect(
+      simnet.callReadOnlyFn(contractName, "get-primary-full-name", [Cl.principal(wallet2)], wallet2).result
+    ).toBeNone();
+  });
+});
+
+// ════════════════════════════════════════════════════════════════════════════
+// SET / CLEAR PRIMARY NAME TESTS
+// ════════════════════════════════════════════════════════════════════════════
+
+describe("Set and Clear Primary Name", () => {
+  it("should let the owner switch their primary name", () => {
+    register("alice", wallet1);
+    register("alice2", wallet1);
+
+    const result = simnet.callPublicFn(contractName, "set-primary-name", [Cl.stringUtf8("alice2")], wallet1);
+    expect(result.result).toBeOk(Cl.bool(true));
+    expect(
+      simnet.callReadOnlyFn(contractName, "get-primary-full-name", [Cl.principal(wallet1)], wallet1).result
+    ).toBeSome(Cl.stringUtf8("alice2.sBTC"));
+  });
+
+  it("should emit PrimaryNameSet", () => {
+    register("alice", wallet1);
+    const { events } = simnet.callPublicFn(contractName, "set-primary-name", [Cl.stringUtf8("alice")], wallet1);
+    const printEvent = events.find((e: any) => e.event === "print_event");
+
+    expect(printEvent?.data.value).toEqual(expect.objectContaining({
+      data: expect.objectContaining({
+        event: Cl.stringAscii("PrimaryNameSet"),
+        owner: Cl.principal(wallet1),
+        label: Cl.stringUtf8("alice"),
+      }),
+    }));
+  });
+
+  it("should fail to set a name the sender does not own", () => {
+    register("alice", wallet1);
+
+    const result = simnet.callPublicFn(contractName, "set-primary-name", [Cl.stringUtf8("alice")], wallet2);
+    expect(result.result).toBeErr(Cl.uint(1017)); // ERR_NOT_NAME_OWNER
+    expect(getPrimaryName(wallet2)).toBeNone();
+  });
+
+  it("should fail to set an unregistered name", () => {
+    const result = simnet.callPublicFn(contractName, "set-primary-name", [Cl.stringUtf8("ghost")], wallet1);
+    expect(result.result).toBeErr(Cl.uint(1009)); // ERR_NAME_NOT_FOUND
+  });
+
+  it("should clear the primary name", () => {
+    register("alice", wallet1);
+
+    const result = simnet.callPublicFn(contractName, "clear-primary-name", [], wallet1);
+    expect(result.result).toBeOk(Cl.bool(true));
+    expect(getPrimaryName(wallet1)).toBeNone();
+  });
+
+  it("should succeed clearing when no primary name is set", () => {
+    const result = simnet.callPublicFn(contractName, "clear-primary-name", [], wallet2);
+    expect(result.result).toBeOk(Cl.bool(true));
+  });
+
+  it("should not auto-set a primary name again after clearing", () => {
+    register("alice", wallet1);
+    simnet.callPublicFn(contractName, "clear-primary-name", [], wallet1);
+
+    // A cleared primary is "no primary", so the next registration takes over
+    const result = register("alice2", wallet1);
+    expect((result.result as any).value.data["is-primary"]).toBeBool(true);
+    expect(
+      simnet.callReadOnlyFn(contractName, "get-primary-label", [Cl.principal(wallet1)], wallet1).result
+    ).toBeSome(Cl.stringUtf8("alice2"));
+  });
+});
+
+// ════════════════════════════════════════════════════════════════════════════
+// PRIMARY NAME ON TRANSFER TESTS
+// ════════════════════════════════════════════════════════════════════════════
+
+describe("Primary Name on Transfer", () => {
+  it("should move a primary name to a receiver without one", () => {
+    register("alice", wallet1);
+
+    const result = simnet.callPublicFn(
+      contractName,
+      "transfer-name",
+      [Cl.stringUtf8("alice"), Cl.principal(wallet2)],
+      wallet1
+    );
+    expect(result.result).toBeOk(Cl.bool(true));
+    expect(getPrimaryName(wallet1)).toBeNone();
+    expect(
+      simnet.callReadOnlyFn(contractName, "get-primary-label", [Cl.principal(wallet2)], wallet2).result
+    ).toBeSome(Cl.stringUtf8("alice"));
+  });
+
+  it("should keep the receiver's existing primary name", () => {
+    register("alice", wallet1);
+    register("bob", wallet2);
+
+    simnet.callPublicFn(contractName, "transfer-name", [Cl.stringUtf8("alice"), Cl.principal(wallet2)], wallet1);
+    expect(
+      simnet.callReadOnlyFn(contractName, "get-primary-label", [Cl.principal(wallet2)], wallet2).result
+    ).toBeSome(Cl.stringUtf8("bob"));
+  });
+
+  it("should keep the sender's primary name when transferring another name", () => {
+    register("alice", wallet1);
+    register("alice2", wallet1);
+
+    simnet.callPublicFn(contractName, "transfer-name", [Cl.stringUtf8("alice2"), Cl.principal(wallet2)], wallet1);
+    expect(
+      simnet.callReadOnlyFn(contractName, "get-primary-label", [Cl.principal(wallet1)], wallet1).result
+    ).toBeSome(Cl.stringUtf8("alice"));
+  });
+
+  it("should not let the previous owner set a transferred name as primary", () => {
+    register("alice", wallet1);
+    simnet.callPublicFn(contractName, "transfer-name", [Cl.stringUtf8("alice"), Cl.principal(wallet2)], wallet1);
+
+    const result = simnet.callPublicFn(contractName, "set-primary-name", [Cl.stringUtf8("alice")], wallet1);
+    expect(result.result).toBeErr(Cl.uint(1017)); // ERR_NOT_NAME_OWNER
+  });
+});
+
+// ════════════════════════════════════════════════════════════════════════════
+// REVERSE RESOLUTION TESTS
+// ════════════════════════════════════════════════════════════════════════════
+
+describe("Reverse Resolution", () => {
+  it("should resolve an address to its primary full name", () => {
+    register("alice", wallet1);
+
+    expect(
+      simnet.callReadOnlyFn(contractName, "resolve-address", [Cl.principal(wallet1)], wallet3).result
+    ).toBeUtf8("alice.sBTC");
+  });
+
+  it("should resolve an address without a primary name to an empty string", () => {
+    expect(
+      simnet.callReadOnlyFn(contractName, "resolve-address", [Cl.principal(wallet3)], wallet3).result
+    ).toBeUtf8("");
+  });
+
+  it("should follow primary name changes", () => {
+    register("alice", wallet1);
+    register("alice2", wallet1);
+    simnet.callPublicFn(contractName, "set-primary-name", [Cl.stringUtf8("alice2")], wallet1);
+
+    expect(
+      simnet.callReadOnlyFn(contractName, "resolve-address", [Cl.principal(wallet1)], wallet3).result
+    ).toBeUtf8("alice2.sBTC");
+
+    simnet.callPublicFn(contractName, "clear-primary-name", [], wallet1);
+    expect(
+      simnet.callReadOnlyFn(contractName, "resolve-address", [Cl.principal(wallet1)], wallet3).result
+    ).toBeUtf8("");
+  });
+
+  it("should stop resolving a name that was transferred away", () => {
+    register("alice", wallet1);
+    simnet.callPublicFn(contractName, "transfer-name", [Cl.stringUtf8("alice"), Cl.principal(wallet2)], wallet1);
+
+    expect(
+      simnet.callReadOnlyFn(contractName, "resolve-address", [Cl.principal(wallet1)], wallet3).result
+    ).toBeUtf8("");
+  });
+
+  it("should stop resolving a name once it expires", () => {
+    register("alice", wallet1);
+    simnet.mineEmptyBlocks(REGISTRATION_PERIOD + 1);
+
+    expect(
+      simnet.callReadOnlyFn(contractName, "resolve-address", [Cl.principal(wallet1)], wallet3).result
+    ).toBeUtf8("");
+  });
+});
+
+// ════════════════════════════════════════════════════════════════════════════
+// RESOLVE-NAME TESTS
+// ════════════════════════════════════════════════════════════════════════════
+
+describe("Resolve Name", () => {
+  it("should fail for unregistered names", () => {
+    const result = simnet.callPublicFn(
+      contractName,
+      "resolve-name",
+      [Cl.stringUtf8("ghost"), Cl.principal(resolverContract)],
+      wallet1
+    );
+    expect(result.result).toBeErr(Cl.uint(1009)); // ERR_NAME_NOT_FOUND
+  });
+
+  it("should fail when no resolver is set", () => {
+    register("alice", wallet1);
+
+    const result = simnet.callPublicFn(
+      contractName,
+      "resolve-name",
+      [Cl.stringUtf8("alice"), Cl.principal(resolverContract)],
+      wallet1
+    );
+    expect(result.result).toBeErr(Cl.uint(1008)); // ERR_RESOLVER_INVALID
+  });
+
+  it("should fail when a different resolver is passed", () => {
+    register("alice", wallet1);
+    simnet.callPublicFn(
+      contractName,
+      "set-resolver",
+      [Cl.stringUtf8("alice"), Cl.principal(`${deployer}.biud-username-v2`)],
+      wallet1
+    );
+
+    const result = simnet.callPublicFn(
+      contractName,
+      "resolve-name",
+      [Cl.stringUtf8("alice"), Cl.principal(resolverContract)],
+      wallet1
+    );
+    expect(result.result).toBeErr(Cl.uint(1008)); // ERR_RESOLVER_INVALID
+  });
+
+  it("should call the configured resolver", () => {
+    register("alice", wallet1);
+    simnet.callPublicFn(
+      contractName,
+      "set-resolver",
+      [Cl.stringUtf8("alice"), Cl.principal(resolverContract)],
+      wallet1
+    );
+
+    // No records stored for "alice" in the resolver yet
+    const result = simnet.callPublicFn(
+      contractName,
+      "resolve-name",
+      [Cl.stringUtf8("alice"), Cl.principal(resolverContract)],
+      wallet3
+    );
+    expect(result.result).toBeOk(Cl.none());
+  });
+});
+
+// ════════════════════════════════════════════════════════════════════════════
+// MULTI-YEAR REGISTRATION TESTS
+// ════════════════════════════════════════════════════════════════════════════
+
+describe("Multi-Year Registration", () => {
+  it("should scale the registration quote by years", () => {
+    const quote = (label: string, years: number) =>
+      simnet.callReadOnlyFn(contractName, "get-registration-fee", [Cl.stringUtf8(label), Cl.uint(years)], wallet1).result;
+
+    expect(quote("alice", 1)).toBeUint(BASE_FEE);
+    expect(quote("alice", 3)).toBeUint(3 * BASE_FEE);
+    // Premium names pay the multiplied fee every year
+    expect(quote("bob", 2)).toBeUint(2 * 5 * BASE_FEE);
+  });
+
+  it("should scale the renewal quote by years", () => {
+    const result = simnet.callReadOnlyFn(contractName, "get-renewal-fee", [Cl.uint(4)], wallet1).result;
+    expect(result).toBeUint(4 * RENEW_FEE);
+  });
+
+  it("should register for several years and charge each year", () => {
+    const result = register("alice", wallet1, 3);
+    const expiry = simnet.blockHeight + 3 * REGISTRATION_PERIOD;
+
+    expect(result.result).toBeOk(
+      Cl.tuple({
+        "name-id": Cl.uint(1),
+        "full-name": Cl.stringUtf8("alice.sBTC"),
+        "expiry-height": Cl.uint(expiry),
+        "fee-paid": Cl.uint(3 * BASE_FEE),
+        "is-primary": Cl.bool(true),
+      })
+    );
+    expect(getExpiry("alice")).toBeSome(Cl.uint(expiry));
+
+    const paid = result.events
+      .filter((e: any) => e.event === "stx_transfer_event")
+      .reduce((total: number, e: any) => total + Number(e.data.amount), 0);
+    expect(paid).toBe(3 * BASE_FEE);
+  });
+
+  it("should renew for several years from the current expiry", () => {
+    register("alice", wallet1);
+    const expiry = simnet.blockHeight + REGISTRATION_PERIOD;
+
+    const result = renew("alice", wallet1, 2);
+    expect(result.result).toBeOk(
+      Cl.tuple({
+        "new-expiry-height": Cl.uint(expiry + 2 * REGISTRATION_PERIOD),
+        "fee-paid": Cl.uint(2 * RENEW_FEE),
+      })
+    );
+    expect(getExpiry("alice")).toBeSome(Cl.uint(expiry + 2 * REGISTRATION_PERIOD));
+  });
+
+  it("should reject zero years", () => {
+    expect(register("alice", wallet1, 0).result).toBeErr(Cl.uint(1019)); // ERR_INVALID_YEARS
+    register("alice", wallet1);
+    expect(renew("alice", wallet1, 0).result).toBeErr(Cl.uint(1019));
+  });
+
+  it("should reject more than the maximum years", () => {
+    expect(register("alice", wallet1, MAX_REGISTRATION_YEARS + 1).result).toBeErr(Cl.uint(1019));
+    expect(register("alice", wallet1, MAX_REGISTRATION_YEARS).result).toBeOk(expect.anything());
+  });
+
+  it("should not renew past the maximum years ahead", () => {
+    register("alice", wallet1, MAX_REGISTRATION_YEARS - 1);
+
+    // Nine years left: one more year fits, two do not
+    expect(renew("alice", wallet1, 2).result).toBeErr(Cl.uint(1019));
+    expect(renew("alice", wallet1, 1).result).toBeOk(expect.anything());
+    expect(renew("alice", wallet1, 1).result).toBeErr(Cl.uint(1019));
+  });
+});
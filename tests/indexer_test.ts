@@ -0,0 +1,661 @@
+/**
+ * ╔══════════════════════════════════════════════════════════════════════════╗
+ * ║  BiUD — Event Indexer Tests                                              ║
+ * ║  Print events decoded from simnet sessions and node API responses        ║
+ * ╚══════════════════════════════════════════════════════════════════════════╝
+ */
+
+import { describe, it, expect, beforeAll, afterAll, afterEach } from "vitest";
+import { createServer, Server } from "node:http";
+import { AddressInfo } from "node:net";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import Database from "better-sqlite3";
+import { Cl, ClarityType, cvToHex, cvToString } from "@stacks/transactions";
+import { decodeEvent, toEventValue, IndexerError, ContractEvent } from "../indexer/src/events";
+import { SimnetRecorder, RecordingSource } from "../indexer/src/recording";
+import { NodeApiSource, EventSource } from "../indexer/src/sources";
+import { IndexerDatabase } from "../indexer/src/db";
+import { Indexer } from "../indexer/src/indexer";
+import { createIndexerServer } from "../indexer/src/server";
+
+// Test accounts from simnet
+const accounts = simnet.getAccounts();
+const deployer = accounts.get("deployer")!;
+const wallet1 = accounts.get("wallet_1")!;
+const wallet2 = accounts.get("wallet_2")!;
+
+const contractName = "biud-username-v4";
+const registrar = `${deployer}.${contractName}`;
+const resolverContract = `${deployer}.biud-resolver-v2`;
+const marketplace = `${deployer}.biud-marketplace`;
+
+const REGISTRATION_PERIOD = 52560;
+const GRACE_PERIOD = 1008;
+
+// Call the registrar and record the block the call was mined in
+function call(recorder: SimnetRecorder, fn: string, args: any[], sender = wallet1) {
+  const result = simnet.callPublicFn(contractName, fn, args, sender);
+  return recorder.record(simnet.blockHeight, [result]);
+}
+
+function decodeAll(events: { txId: string; eventIndex: number; contractId: string; value: string }[]) {
+  return events.map(decodeEvent).filter((event): event is ContractEvent => event !== null);
+}
+
+function openDatabase(path = ":memory:") {
+  return new IndexerDatabase({ path, registrars: [registrar] });
+}
+
+function indexerFor(source: EventSource, database: IndexerDatabase, startHeight = 1) {
+  return new Indexer({ source, database, startHeight });
+}
+
+// A name's record as the registrar's get-name returns it, in the indexer's row layout
+function contractRecord(label: string) {
+  const { value } = simnet.callReadOnlyFn(contractName, "get-name", [Cl.stringUtf8(label)], wallet1).result as any;
+  const data = value.data;
+  return {
+    contractId: registrar,
+    label,
+    fullName: data["full-name"].data,
+    owner: cvToString(data.owner),
+    resolver: data.resolver.type === ClarityType.OptionalSome ? cvToString(data.resolver.value) : null,
+    expiryHeight: Number(data["expiry-height"].value),
+    isPremium: data["is-premium"].type === ClarityType.BoolTrue,
+    nameId: Number(data["name-id"].value),
+    createdAt: Number(data["created-at"].value),
+    lastRenewed: Number(data["last-renewed"].value),
+  };
+}
+
+// ════════════════════════════════════════════════════════════════════════════
+// EVENT DECODING TESTS
+// ════════════════════════════════════════════════════════════════════════════
+
+describe("Event Decoding", () => {
+  it("should decode a registration with every printed field", () => {
+    const recorder = new SimnetRecorder();
+    const block = call(recorder, "register-name", [Cl.stringUtf8("alice"), Cl.uint(1)]);
+
+    const [event] = decodeAll(block.events);
+    expect(event).toMatchObject({
+      contractId: registrar,
+      name: "NameRegistered",
+      label: "alice",
+      data: {
+        event: "NameRegistered",
+        "full-name": "alice.sBTC",
+        owner: wallet1,
+        "name-id": "1",
+        "is-premium": false,
+        "is-primary": true,
+        // Recorded at the height the contract saw
+        "block-height": String(block.contractHeight),
+      },
+    });
+  });
+
+  it("should decode the lifecycle of a name in order", () => {
+    const recorder = new SimnetRecorder();
+    call(recorder, "register-name", [Cl.stringUtf8("alice"), Cl.uint(1)]);
+    call(recorder, "set-resolver", [Cl.stringUtf8("alice"), Cl.principal(resolverContract)]);
+    call(recorder, "clear-resolver", [Cl.stringUtf8("alice")]);
+    call(recorder, "transfer-name", [Cl.stringUtf8("alice"), Cl.principal(wallet2)]);
+
+    const events = decodeAll(recorder.toRecording().blocks.flatMap((block) => block.events));
+    expect(events.map((event) => event.name)).toEqual([
+      "NameRegistered",
+      "ResolverSet",
+      "ResolverCleared",
+      "NameTransferred",
+    ]);
+    expect(events[3].data).toMatchObject({ from: wallet1, to: wallet2 });
+  });
+
+  it("should file subname events under the parent name", () => {
+    const recorder = new SimnetRecorder();
+    const { events } = call(recorder, "register-name", [Cl.stringUtf8("alice"), Cl.uint(1)]);
+    const expiry = Number((decodeEvent(events[0])!.data["expiry-height"] as string));
+    const block = call(recorder, "create-subname", [
+      Cl.stringUtf8("alice"),
+      Cl.stringUtf8("pay"),
+      Cl.principal(wallet2),
+      Cl.uint(expiry),
+    ]);
+
+    const [event] = decodeAll(block.events);
+    expect(event.name).toBe("SubnameCreated");
+    expect(event.label).toBe("alice");
+    expect(event.data.label).toBe("pay");
+  });
+
+  it("should skip prints that do not follow the event layout", () => {
+    const raw = { txId: "0x01", eventIndex: 0, contractId: registrar };
+    expect(decodeEvent({ ...raw, value: cvToHex(Cl.uint(1)) })).toBeNull();
+    expect(decodeEvent({ ...raw, value: cvToHex(Cl.tuple({ label: Cl.stringUtf8("alice") })) })).toBeNull();
+    expect(() => decodeEvent({ ...raw, value: "0xzz" })).toThrow(IndexerError);
+  });
+
+  it("should convert every Clarity type to JSON", () => {
+    expect(toEventValue(Cl.int(-5))).toBe("-5");
+    expect(toEventValue(Cl.uint(2n ** 100n))).toBe((2n ** 100n).toString());
+    expect(toEventValue(Cl.buffer(new Uint8Array([0, 171])))).toBe("0x00ab");
+    expect(toEventValue(Cl.none())).toBeNull();
+    expect(toEventValue(Cl.some(Cl.stringAscii("x")))).toBe("x");
+    expect(toEventValue(Cl.ok(Cl.bool(true)))).toEqual({ ok: true });
+    expect(toEventValue(Cl.error(Cl.uint(1009)))).toEqual({ err: "1009" });
+    expect(toEventValue(Cl.list([Cl.principal(registrar)]))).toEqual([registrar]);
+  });
+});
+
+// ════════════════════════════════════════════════════════════════════════════
+// RECORDING TESTS
+// ════════════════════════════════════════════════════════════════════════════
+
+describe("Simnet Recordings", () => {
+  it("should chain every height from 1 with empty blocks in between", () => {
+    const recorder = new SimnetRecorder();
+    simnet.mineEmptyBlocks(3);
+    const block = call(recorder, "register-name", [Cl.stringUtf8("alice"), Cl.uint(1)]);
+
+    const { blocks } = recorder.toRecording();
+    expect(blocks.map((recorded) => recorded.height)).toEqual(Array.from({ length: block.height }, (_, i) => i + 1));
+    blocks.slice(1).forEach((recorded, i) => expect(recorded.parentHash).toBe(blocks[i].hash));
+    expect(blocks.slice(0, -1).every((recorded) => recorded.events.length === 0)).toBe(true);
+  });
+
+  it("should record a rewound height again under a new hash", () => {
+    const recorder = new SimnetRecorder();
+    const first = call(recorder, "register-name", [Cl.stringUtf8("alice"), Cl.uint(1)]);
+    expect(() => recorder.record(first.height, [])).toThrow(IndexerError);
+
+    recorder.rewind(first.height);
+    const second = recorder.record(first.height, []);
+    expect(second.parentHash).toBe(first.parentHash);
+    expect(second.hash).not.toBe(first.hash);
+  });
+
+  it("should serve a saved recording", async () => {
+    const recorder = new SimnetRecorder();
+    const block = call(recorder, "register-name", [Cl.stringUtf8("alice"), Cl.uint(1)]);
+    const dir = mkdtempSync(join(tmpdir(), "biud-recording-"));
+    try {
+      recorder.save(join(dir, "session.json"));
+      const source = RecordingSource.fromFile(join(dir, "session.json"));
+
+      expect(await source.getTipHeight()).toBe(block.height);
+      expect(await source.getBlock(block.height)).toEqual(block);
+      expect(await source.getBlockHeader(block.height)).toEqual({
+        height: block.height,
+        hash: block.hash,
+        parentHash: block.parentHash,
+        contractHeight: block.contractHeight,
+      });
+      expect(await source.getBlock(block.height + 1)).toBeNull();
+    } finally {
+      rmSync(dir, { recursive: true });
+    }
+  });
+});
+
+// ════════════════════════════════════════════════════════════════════════════
+// NODE API SOURCE TESTS
+// ════════════════════════════════════════════════════════════════════════════
+
+describe("Node API source", () => {
+  let server: Server;
+  let source: NodeApiSource;
+
+  const otherContract = `${deployer}.some-token`;
+  const print = (n: number) => cvToHex(Cl.tuple({ event: Cl.stringAscii("Test"), n: Cl.uint(n) }));
+
+  const watchedPrint = (n: number) => ({
+    event_index: 0,
+    event_type: "smart_contract_log",
+    contract_log: { contract_id: registrar, topic: "print", value: { hex: print(n) } },
+  });
+  // The first transaction prints 55 events of the registrar, and one of another contract.
+  // 0x1e calls another contract that calls the registrar; 0x07 failed and 0x14 is a transfer.
+  const events: Record<string, object[]> = {
+    "0x05": [
+      ...Array.from({ length: 55 }, (_, i) => ({
+        event_index: i,
+        event_type: "smart_contract_log",
+        contract_log: { contract_id: registrar, topic: "print", value: { hex: print(i) } },
+      })),
+      {
+        event_index: 55,
+        event_type: "smart_contract_log",
+        contract_log: { contract_id: otherContract, topic: "print", value: { hex: print(99) } },
+      },
+    ],
+    "0x07": [watchedPrint(98)],
+    "0x14": [watchedPrint(97)],
+    "0x1e": [watchedPrint(200)],
+    "0x37": [watchedPrint(100)],
+  };
+  // One block of 60 transactions
+  const transactions = Array.from({ length: 60 }, (_, i) => {
+    const txId = `0x${i.toString(16).padStart(2, "0")}`;
+    return {
+      tx_id: txId,
+      tx_index: i,
+      tx_status: i === 7 ? "abort_by_response" : "success",
+      tx_type: i === 20 ? "token_transfer" : "contract_call",
+      event_count: events[txId]?.length ?? 0,
+    };
+  });
+  const eventRequests: string[] = [];
+
+  // Local stand-in for the node API endpoints the source reads
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      const url = new URL(req.url ?? "/", "http://localhost");
+      const offset = Number(url.searchParams.get("offset") ?? 0);
+      const limit = Number(url.searchParams.get("limit") ?? 50);
+      let body: unknown = null;
+      if (url.pathname === "/v2/info") {
+        body = { stacks_tip_height: 120 };
+      } else if (url.pathname === "/extended/v2/blocks/120") {
+        body = { height: 120, hash: "0xb120", parent_block_hash: "0xb119", tenure_height: 80 };
+      } else if (url.pathname === "/extended/v2/blocks/0xb120/transactions") {
+        body = { total: transactions.length, results: transactions.slice(offset, offset + limit) };
+      } else if (url.pathname === "/extended/v1/tx/events") {
+        eventRequests.push(url.searchParams.get("tx_id")!);
+        const all = events[url.searchParams.get("tx_id")!] ?? [];
+        body = { events: all.slice(offset, offset + limit) };
+      } else if (url.pathname === `/extended/v1/contract/${registrar}`) {
+        body = { contract_id: registrar, block_height: 42 };
+      }
+      res.writeHead(body ? 200 : 404, { "Content-Type": "application/json" });
+      res.end(JSON.stringify(body ?? { error: "Not found" }));
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    source = new NodeApiSource({
+      apiUrl: `http://127.0.0.1:${(server.address() as AddressInfo).port}/`,
+      contracts: [registrar],
+    });
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it("should read the tip and block headers", async () => {
+    expect(await source.getTipHeight()).toBe(120);
+    expect(await source.getBlockHeader(120)).toEqual({
+      height: 120,
+      hash: "0xb120",
+      parentHash: "0xb119",
+      contractHeight: 80,
+    });
+    expect(await source.getBlockHeader(121)).toBeNull();
+  });
+
+  it("should collect every print of watched contracts from successful transactions", async () => {
+    const block = await source.getBlock(120);
+
+    expect(block!.events).toHaveLength(57);
+    expect(block!.events.slice(0, 55).every((event) => event.txId === "0x05")).toBe(true);
+    expect(block!.events.map((event) => decodeEvent(event)!.data.n)).toEqual([
+      ...Array.from({ length: 55 }, (_, i) => String(i)),
+      // Printed by the registrar in a call to another contract
+      "200",
+      "100",
+    ]);
+    expect(await source.getBlock(121)).toBeNull();
+  });
+
+  it("should only fetch the events of successful calls that have events", async () => {
+    eventRequests.length = 0;
+    await source.getBlock(120);
+
+    expect([...new Set(eventRequests)]).toEqual(["0x05", "0x1e", "0x37"]);
+  });
+
+  it("should read the height a contract was deployed at", async () => {
+    expect(await source.getDeploymentHeight(registrar)).toBe(42);
+    expect(await source.getDeploymentHeight(otherContract)).toBeNull();
+  });
+});
+
+// ════════════════════════════════════════════════════════════════════════════
+// DATABASE TESTS
+// ════════════════════════════════════════════════════════════════════════════
+
+describe("Index Database", () => {
+  it("should create the schema and keep it across reopens", () => {
+    const dir = mkdtempSync(join(tmpdir(), "biud-index-"));
+    const path = join(dir, "index.db");
+    try {
+      const recorder = new SimnetRecorder();
+      const block = call(recorder, "register-name", [Cl.stringUtf8("alice"), Cl.uint(1)]);
+      const database = openDatabase(path);
+      expect(database.getLatestBlock()).toBeNull();
+      database.applyBlock(block, decodeAll(block.events));
+      database.close();
+
+      const reopened = openDatabase(path);
+      expect(reopened.getLatestBlock()).toEqual({
+        height: block.height,
+        hash: block.hash,
+        parentHash: block.parentHash,
+        contractHeight: block.contractHeight,
+      });
+      expect(reopened.getNames("alice")).toHaveLength(1);
+      reopened.close();
+
+      const raw = new Database(path);
+      expect(raw.pragma("user_version", { simple: true })).toBe(1);
+      expect(
+        raw.prepare("SELECT name FROM sqlite_master WHERE type = 'table' AND name NOT LIKE 'sqlite_%' ORDER BY name").all()
+      ).toEqual([{ name: "blocks" }, { name: "events" }, { name: "names" }]);
+      // A database from another schema version is rebuilt empty
+      raw.pragma("user_version = 0");
+      raw.close();
+      const rebuilt = openDatabase(path);
+      expect(rebuilt.getLatestBlock()).toBeNull();
+      expect(rebuilt.getNames("alice")).toEqual([]);
+      rebuilt.close();
+    } finally {
+      rmSync(dir, { recursive: true });
+    }
+  });
+
+  it("should project the record get-name returns through a name's lifecycle", () => {
+    const recorder = new SimnetRecorder();
+    const database = openDatabase();
+    const apply = (block: ReturnType<typeof call>) => database.applyBlock(block, decodeAll(block.events));
+
+    apply(call(recorder, "register-name", [Cl.stringUtf8("alice"), Cl.uint(1)]));
+    expect(database.getNames("alice")).toEqual([contractRecord("alice")]);
+
+    apply(call(recorder, "set-resolver", [Cl.stringUtf8("alice"), Cl.principal(resolverContract)]));
+    apply(call(recorder, "renew-name", [Cl.stringUtf8("alice"), Cl.uint(2)]));
+    apply(call(recorder, "transfer-name", [Cl.stringUtf8("alice"), Cl.principal(wallet2)]));
+    expect(database.getNames("alice")).toEqual([contractRecord("alice")]);
+    expect(database.getNames("alice")[0]).toMatchObject({ owner: wallet2, resolver: resolverContract });
+
+    apply(call(recorder, "clear-resolver", [Cl.stringUtf8("alice")], wallet2));
+    expect(database.getNames("alice")).toEqual([contractRecord("alice")]);
+    expect(database.getNames("bobby")).toEqual([]);
+  });
+
+  it("should replace the record of a released name registered again", () => {
+    const recorder = new SimnetRecorder();
+    const database = openDatabase();
+    const first = call(recorder, "register-name", [Cl.stringUtf8("alice"), Cl.uint(1)]);
+    database.applyBlock(first, decodeAll(first.events));
+    simnet.mineEmptyBlocks(REGISTRATION_PERIOD + GRACE_PERIOD + 1);
+    const second = call(recorder, "register-name", [Cl.stringUtf8("alice"), Cl.uint(1)], wallet2);
+    database.applyBlock(second, decodeAll(second.events));
+
+    expect(database.getNames("alice")).toEqual([contractRecord("alice")]);
+    expect(database.getNames("alice")[0]).toMatchObject({ owner: wallet2, nameId: 2 });
+    expect(database.getOwnedNames(wallet1, 0, 50)).toEqual({ total: 0, items: [] });
+  });
+
+  it("should keep events of other contracts as history only", () => {
+    const recorder = new SimnetRecorder();
+    const database = openDatabase();
+    call(recorder, "register-name", [Cl.stringUtf8("alice"), Cl.uint(1)]);
+    const listed = simnet.callPublicFn("biud-marketplace", "list-name", [Cl.stringUtf8("alice"), Cl.uint(1_000_000)], wallet1);
+    recorder.record(simnet.blockHeight, [listed]);
+    for (const block of recorder.toRecording().blocks) {
+      database.applyBlock(block, decodeAll(block.events));
+    }
+
+    // The registrar's transfer moved the name into escrow; the listing itself is history
+    expect(database.getNames("alice")[0].owner).toBe(marketplace);
+    const history = database.getHistory("alice", 0, 50);
+    expect(history.total).toBe(3);
+    expect(history.items.map((event) => [event.contractId, event.name])).toEqual([
+      [marketplace, "NameListed"],
+      [registrar, "NameTransferred"],
+      [registrar, "NameRegistered"],
+    ]);
+    expect(history.items[0].blockHeight).toBe(simnet.blockHeight);
+    expect(database.getHistory("alice", 1, 1).items.map((event) => event.name)).toEqual(["NameTransferred"]);
+  });
+
+  it("should apply a block all or nothing", () => {
+    const recorder = new SimnetRecorder();
+    const database = openDatabase();
+    const block = call(recorder, "register-name", [Cl.stringUtf8("alice"), Cl.uint(1)]);
+    database.applyBlock(block, decodeAll(block.events));
+
+    const duplicate = { ...block, hash: "0x01" };
+    const other = decodeAll(call(recorder, "register-name", [Cl.stringUtf8("bobby"), Cl.uint(1)]).events);
+    expect(() => database.applyBlock(duplicate, other)).toThrow();
+    expect(database.getBlockHash(block.height)).toBe(block.hash);
+    expect(database.getNames("bobby")).toEqual([]);
+    expect(database.getHistory("bobby", 0, 50).total).toBe(0);
+  });
+
+  it("should page owned and expiring names", () => {
+    const recorder = new SimnetRecorder();
+    const database = openDatabase();
+    for (const label of ["alice", "bobby", "carol"]) {
+      call(recorder, "register-name", [Cl.stringUtf8(label), Cl.uint(1)]);
+    }
+    call(recorder, "register-name", [Cl.stringUtf8("dave"), Cl.uint(2)], wallet2);
+    for (const block of recorder.toRecording().blocks) {
+      database.applyBlock(block, decodeAll(block.events));
+    }
+
+    const owned = database.getOwnedNames(wallet1, 1, 1);
+    expect(owned.total).toBe(3);
+    expect(owned.items.map((name) => name.label)).toEqual(["bobby"]);
+
+    const alice = contractRecord("alice");
+    const carol = contractRecord("carol");
+    // Heights from..to-1: the one-year names, soonest first
+    const expiring = database.getExpiringNames(alice.expiryHeight, carol.expiryHeight + 1, 0, 50);
+    expect(expiring.total).toBe(3);
+    expect(expiring.items.map((name) => name.label)).toEqual(["alice", "bobby", "carol"]);
+    expect(database.getExpiringNames(alice.expiryHeight, carol.expiryHeight, 0, 50).total).toBe(2);
+    expect(database.getExpiringNames(alice.expiryHeight, carol.expiryHeight + 1, 2, 50).items.map((name) => name.label))
+      .toEqual(["carol"]);
+  });
+});
+
+// ════════════════════════════════════════════════════════════════════════════
+// SYNC TESTS
+// ════════════════════════════════════════════════════════════════════════════
+
+describe("Indexer sync", () => {
+  it("should index every block up to the tip", async () => {
+    const recorder = new SimnetRecorder();
+    const database = openDatabase();
+    const indexer = indexerFor(new RecordingSource(recorder.toRecording()), database);
+    const registered = call(recorder, "register-name", [Cl.stringUtf8("alice"), Cl.uint(1)]);
+
+    expect(await indexer.sync()).toBe(registered.height);
+    expect(database.getLatestBlock()!.hash).toBe(registered.hash);
+    expect(database.getNames("alice")).toEqual([contractRecord("alice")]);
+    expect(await indexer.sync()).toBe(0);
+
+    simnet.mineEmptyBlocks(2);
+    const transferred = call(recorder, "transfer-name", [Cl.stringUtf8("alice"), Cl.principal(wallet2)]);
+    expect(await indexer.sync()).toBe(transferred.height - registered.height);
+    expect(database.getNames("alice")).toEqual([contractRecord("alice")]);
+  });
+
+  it("should start an empty database at the start height", async () => {
+    const recorder = new SimnetRecorder();
+    const database = openDatabase();
+    simnet.mineEmptyBlocks(4);
+    const block = call(recorder, "register-name", [Cl.stringUtf8("alice"), Cl.uint(1)]);
+
+    expect(await indexerFor(new RecordingSource(recorder.toRecording()), database, block.height).sync()).toBe(1);
+    expect(database.getBlockHash(block.height - 1)).toBeNull();
+    expect(database.getNames("alice")).toHaveLength(1);
+    expect(() => indexerFor(new RecordingSource(recorder.toRecording()), database, 0)).toThrow(IndexerError);
+  });
+
+  it("should resume after the newest stored block", async () => {
+    const dir = mkdtempSync(join(tmpdir(), "biud-index-"));
+    const path = join(dir, "index.db");
+    try {
+      const recorder = new SimnetRecorder();
+      const source = new RecordingSource(recorder.toRecording());
+      const first = call(recorder, "register-name", [Cl.stringUtf8("alice"), Cl.uint(1)]);
+      const database = openDatabase(path);
+      await indexerFor(source, database).sync();
+      database.close();
+
+      const second = call(recorder, "register-name", [Cl.stringUtf8("bobby"), Cl.uint(1)]);
+      const requested: number[] = [];
+      const watched: EventSource = {
+        getTipHeight: () => source.getTipHeight(),
+        getBlockHeader: (height) => source.getBlockHeader(height),
+        getBlock: (height) => {
+          requested.push(height);
+          return source.getBlock(height);
+        },
+      };
+      const reopened = openDatabase(path);
+      expect(await indexerFor(watched, reopened).sync()).toBe(second.height - first.height);
+      expect(requested).toEqual([second.height]);
+      expect(reopened.getNames("alice")).toHaveLength(1);
+      expect(reopened.getNames("bobby")).toHaveLength(1);
+      reopened.close();
+    } finally {
+      rmSync(dir, { recursive: true });
+    }
+  });
+
+  it("should roll back a reorganized chain and replay the surviving events", async () => {
+    const recorder = new SimnetRecorder();
+    const database = openDatabase();
+    const indexer = indexerFor(new RecordingSource(recorder.toRecording()), database);
+    const kept = call(recorder, "register-name", [Cl.stringUtf8("alice"), Cl.uint(1)]);
+    const orphaned = call(recorder, "transfer-name", [Cl.stringUtf8("alice"), Cl.principal(wallet2)]);
+    call(recorder, "register-name", [Cl.stringUtf8("bobby"), Cl.uint(1)]);
+    await indexer.sync();
+    expect(database.getNames("alice")[0].owner).toBe(wallet2);
+
+    // The node switches to a longer fork without the transfer or bobby
+    recorder.rewind(orphaned.height);
+    simnet.mineEmptyBlocks(2);
+    const carol = call(recorder, "register-name", [Cl.stringUtf8("carol"), Cl.uint(1)]);
+
+    expect(await indexer.sync()).toBe(carol.height - kept.height);
+    expect(database.getBlockHash(kept.height)).toBe(kept.hash);
+    expect(database.getBlockHash(orphaned.height)).not.toBe(orphaned.hash);
+    expect(database.getLatestBlock()!.hash).toBe(carol.hash);
+    expect(database.getNames("alice")[0].owner).toBe(wallet1);
+    expect(database.getNames("bobby")).toEqual([]);
+    expect(database.getNames("carol")).toHaveLength(1);
+    expect(database.getHistory("alice", 0, 50).items.map((event) => event.name)).toEqual(["NameRegistered"]);
+    expect(database.getHistory("bobby", 0, 50).total).toBe(0);
+  });
+
+  it("should re-index from the start height when no block is shared", async () => {
+    const recorder = new SimnetRecorder();
+    const database = openDatabase();
+    const indexer = indexerFor(new RecordingSource(recorder.toRecording()), database);
+    call(recorder, "register-name", [Cl.stringUtf8("alice"), Cl.uint(1)]);
+    await indexer.sync();
+
+    recorder.rewind(1);
+    const bobby = call(recorder, "register-name", [Cl.stringUtf8("bobby"), Cl.uint(1)]);
+
+    expect(await indexer.sync()).toBe(bobby.height);
+    expect(database.getBlockHash(1)).toBe(recorder.toRecording().blocks[0].hash);
+    expect(database.getNames("alice")).toEqual([]);
+    expect(database.getNames("bobby")).toHaveLength(1);
+  });
+});
+
+// ════════════════════════════════════════════════════════════════════════════
+// HTTP API TESTS
+// ════════════════════════════════════════════════════════════════════════════
+
+describe("Indexer HTTP API", () => {
+  let server: Server | null = null;
+
+  // Serve a database on a free port and return the base URL
+  async function serve(database: IndexerDatabase): Promise<string> {
+    server = createIndexerServer(database);
+    await new Promise<void>((resolve) => server!.listen(0, "127.0.0.1", resolve));
+    return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  }
+
+  async function getJson(url: string) {
+    const response = await fetch(url);
+    return { status: response.status, cors: response.headers.get("access-control-allow-origin"), body: await response.json() };
+  }
+
+  // Index a small session: alice and bobby for wallet1, carol for wallet2, alice renewed
+  async function indexSession() {
+    const recorder = new SimnetRecorder();
+    const database = openDatabase();
+    call(recorder, "register-name", [Cl.stringUtf8("alice"), Cl.uint(1)]);
+    call(recorder, "register-name", [Cl.stringUtf8("bobby"), Cl.uint(1)]);
+    call(recorder, "register-name", [Cl.stringUtf8("carol"), Cl.uint(1)], wallet2);
+    call(recorder, "renew-name", [Cl.stringUtf8("alice"), Cl.uint(1)]);
+    await indexerFor(new RecordingSource(recorder.toRecording()), database).sync();
+    return database;
+  }
+
+  afterEach(async () => {
+    if (server) {
+      await new Promise((resolve) => server!.close(resolve));
+      server = null;
+    }
+  });
+
+  it("should serve the status and name records", async () => {
+    const database = await indexSession();
+    const url = await serve(database);
+
+    const status = await getJson(`${url}/status`);
+    expect(status).toEqual({ status: 200, cors: "*", body: { block: database.getLatestBlock() } });
+    expect((await getJson(`${url}/names/alice`)).body).toEqual({ names: [contractRecord("alice")] });
+    expect((await getJson(`${url}/names/nobody`)).body).toEqual({ names: [] });
+  });
+
+  it("should serve a name's history newest first", async () => {
+    const url = await serve(await indexSession());
+
+    const { body } = await getJson(`${url}/names/alice/history`);
+    expect(body.total).toBe(2);
+    expect(body.items.map((event: any) => event.name)).toEqual(["NameRenewed", "NameRegistered"]);
+    expect((await getJson(`${url}/names/alice/history?offset=1&limit=1`)).body.items[0].data.owner).toBe(wallet1);
+  });
+
+  it("should serve the names held by an owner", async () => {
+    const url = await serve(await indexSession());
+
+    const { body } = await getJson(`${url}/owners/${wallet1}/names`);
+    expect(body).toEqual({ total: 2, items: [contractRecord("alice"), contractRecord("bobby")] });
+    expect((await getJson(`${url}/owners/${wallet1}/names?limit=1&offset=1`)).body.items.map((name: any) => name.label))
+      .toEqual(["bobby"]);
+    expect((await getJson(`${url}/owners/${deployer}/names`)).body).toEqual({ total: 0, items: [] });
+  });
+
+  it("should serve names expiring in a window", async () => {
+    const database = await indexSession();
+    const url = await serve(database);
+    const bobby = contractRecord("bobby");
+    const carol = contractRecord("carol");
+
+    // Alice was renewed past the window
+    const { body } = await getJson(`${url}/expiring?from=${bobby.expiryHeight}&to=${carol.expiryHeight + 1}`);
+    expect(body).toEqual({ total: 2, items: [bobby, carol] });
+    // Without a window: the indexed tip and ~30 days after it
+    expect((await getJson(`${url}/expiring`)).body).toEqual({ total: 0, items: [] });
+  });
+
+  it("should reject bad requests", async () => {
+    const url = await serve(await indexSession());
+
+    expect((await getJson(`${url}/owners/${wallet1}/names?limit=101`)).status).toBe(400);
+    expect((await getJson(`${url}/owners/${wallet1}/names?offset=-1`)).status).toBe(400);
+    expect((await getJson(`${url}/nothing`)).status).toBe(404);
+    expect((await fetch(`${url}/status`, { method: "POST" })).status).toBe(405);
+  });
+});
@@ -0,0 +1,207 @@
+/**
+ * ╔══════════════════════════════════════════════════════════════════════════╗
+ * ║  BiUD — Transaction Tracker Tests                                        ║
+ * ║  Polls a local stand-in for the Stacks node API                          ║
+ * ╚══════════════════════════════════════════════════════════════════════════╝
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from "vitest";
+import { createServer, Server } from "node:http";
+import { AddressInfo } from "node:net";
+import { Cl, ClarityValue, cvToHex } from "@stacks/transactions";
+import {
+  TransactionTracker,
+  getTxResult,
+  getTxError,
+} from "../frontend/src/services/transactions";
+import { BiudContractError, BiudTransactionError } from "../frontend/src/services/biud";
+
+const TX_ID = "0x" + "ab".repeat(32);
+
+// In-memory replacement for window.localStorage
+class MemoryStorage implements Storage {
+  private items = new Map<string, string>();
+  get length() {
+    return this.items.size;
+  }
+  clear() {
+    this.items.clear();
+  }
+  getItem(key: string) {
+    return this.items.get(key) ?? null;
+  }
+  key(index: number) {
+    return Array.from(this.items.keys())[index] ?? null;
+  }
+  removeItem(key: string) {
+    this.items.delete(key);
+  }
+  setItem(key: string, value: string) {
+    this.items.set(key, value);
+  }
+}
+
+// Responses served by the fake node, keyed by tx id (missing = 404)
+const txResponses = new Map<string, object>();
+let server: Server;
+let apiUrl: string;
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    const match = req.url?.match(/^\/extended\/v1\/tx\/(0x[0-9a-f]+)$/);
+    const body = match ? txResponses.get(match[1]) : undefined;
+    if (!body) {
+      res.writeHead(404, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ error: "could not find transaction by ID" }));
+      return;
+    }
+    res.writeHead(200, { "Content-Type": "application/json" });
+    res.end(JSON.stringify(body));
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  apiUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+beforeEach(() => {
+  txResponses.clear();
+});
+
+function mined(status: string, result: ClarityValue) {
+  const hex = cvToHex(result);
+  return { tx_status: status, tx_result: { hex, repr: "" }, block_height: 150000 };
+}
+
+// ════════════════════════════════════════════════════════════════════════════
+// LIFECYCLE TESTS
+// ════════════════════════════════════════════════════════════════════════════
+
+describe("Transaction Lifecycle", () => {
+  it("should keep unknown transactions pending", async () => {
+    const tracker = new TransactionTracker({ apiUrl, storage: new MemoryStorage() });
+    tracker.track(TX_ID, { action: "Register", label: "alice" });
+
+    const tx = await tracker.refresh(TX_ID);
+    expect(tx?.state).toBe("pending");
+    expect(tx?.status).toBeNull();
+  });
+
+  it("should drop transactions the node has not seen by the drop timeout", async () => {
+    const storage = new MemoryStorage();
+    const tracker = new TransactionTracker({ apiUrl, storage, dropTimeout: 50 });
+    tracker.track(TX_ID, { action: "Register", label: "alice" });
+    expect((await tracker.refresh(TX_ID))?.state).toBe("pending");
+
+    await new Promise((resolve) => setTimeout(resolve, 60));
+    await tracker.pollPending();
+
+    const tx = tracker.get(TX_ID)!;
+    expect(tx.state).toBe("dropped");
+    expect(tx.status).toBeNull();
+    expect(getTxError(tx)?.message).toBe("Transaction was dropped before the node accepted it");
+    // The timeout runs from submission, so it survives a reload
+    expect(new TransactionTracker({ apiUrl, storage, dropTimeout: 50 }).get(TX_ID)?.state).toBe("dropped");
+  });
+
+  it("should not drop a transaction once the node has it", async () => {
+    const tracker = new TransactionTracker({ apiUrl, storage: new MemoryStorage(), dropTimeout: 50 });
+    tracker.track(TX_ID, { action: "Register", label: "alice" });
+    txResponses.set(TX_ID, { tx_status: "pending" });
+
+    await new Promise((resolve) => setTimeout(resolve, 60));
+    expect((await tracker.refresh(TX_ID))?.state).toBe("pending");
+  });
+
+  it("should confirm a successful transaction with its decoded result", async () => {
+    const tracker = new TransactionTracker({ apiUrl, storage: new MemoryStorage() });
+    tracker.track(TX_ID, { action: "Register", label: "alice" });
+
+    txResponses.set(TX_ID, { tx_status: "pending" });
+    expect((await tracker.refresh(TX_ID))?.state).toBe("pending");
+
+    const result = Cl.ok(Cl.tuple({ "name-id": Cl.uint(1) }));
+    txResponses.set(TX_ID, mined("success", result));
+    const tx = await tracker.refresh(TX_ID);
+
+    expect(tx?.state).toBe("confirmed");
+    expect(tx?.blockHeight).toBe(150000);
+    expect(getTxResult(tx!)).toEqual(result);
+    expect(getTxError(tx!)).toBeNull();
+  });
+
+  it("should decode contract errors from aborted transactions", async () => {
+    const tracker = new TransactionTracker({ apiUrl, storage: new MemoryStorage() });
+    tracker.track(TX_ID, { action: "Register", label: "alice" });
+
+    txResponses.set(TX_ID, mined("abort_by_response", Cl.error(Cl.uint(1001))));
+    const tx = await tracker.refresh(TX_ID);
+
+    expect(tx?.state).toBe("aborted");
+    const error = getTxError(tx!);
+    expect(error).toBeInstanceOf(BiudContractError);
+    expect((error as BiudContractError).errorName).toBe("ERR_NAME_TAKEN");
+  });
+
+  it("should report post-condition aborts and dropped transactions", async () => {
+    const tracker = new TransactionTracker({ apiUrl, storage: new MemoryStorage() });
+    const otherTx = "0x" + "cd".repeat(32);
+    tracker.track(TX_ID, { action: "Renew", label: "alice" });
+    tracker.track(otherTx, { action: "Transfer", label: "bob" });
+
+    txResponses.set(TX_ID, mined("abort_by_post_condition", Cl.ok(Cl.bool(true))));
+    txResponses.set(otherTx, { tx_status: "dropped_replace_by_fee" });
+    await tracker.pollPending();
+
+    expect(tracker.get(TX_ID)?.state).toBe("aborted");
+    expect(getTxError(tracker.get(TX_ID)!)).toBeInstanceOf(BiudTransactionError);
+    expect(tracker.get(otherTx)?.state).toBe("dropped");
+  });
+
+  it("should notify subscribers when a transaction changes", async () => {
+    const tracker = new TransactionTracker({ apiUrl, storage: new MemoryStorage() });
+    const seen: string[] = [];
+    tracker.subscribe((txs) => seen.push(txs[0]?.state));
+
+    tracker.track(TX_ID, { action: "Register", label: "alice" });
+    txResponses.set(TX_ID, mined("success", Cl.ok(Cl.bool(true))));
+    await tracker.refresh(TX_ID);
+    await tracker.refresh(TX_ID);
+
+    expect(seen).toEqual(["pending", "confirmed"]);
+  });
+});
+
+// ════════════════════════════════════════════════════════════════════════════
+// PERSISTENCE TESTS
+// ════════════════════════════════════════════════════════════════════════════
+
+describe("Transaction Persistence", () => {
+  it("should restore in-flight transactions after a reload", async () => {
+    const storage = new MemoryStorage();
+    new TransactionTracker({ apiUrl, storage }).track(TX_ID, { action: "Register", label: "alice" });
+
+    const reloaded = new TransactionTracker({ apiUrl, storage });
+    expect(reloaded.get(TX_ID)).toMatchObject({ state: "pending", label: "alice" });
+
+    txResponses.set(TX_ID, mined("success", Cl.ok(Cl.bool(true))));
+    await reloaded.pollPending();
+    expect(reloaded.get(TX_ID)?.state).toBe("confirmed");
+  });
+
+  it("should clear finished transactions only", async () => {
+    const storage = new MemoryStorage();
+    const tracker = new TransactionTracker({ apiUrl, storage });
+    const otherTx = "0x" + "cd".repeat(32);
+    tracker.track(TX_ID, { action: "Register", label: "alice" });
+    tracker.track(otherTx, { action: "Register", label: "bob" });
+
+    txResponses.set(TX_ID, mined("success", Cl.ok(Cl.bool(true))));
+    await tracker.pollPending();
+    tracker.clearFinished();
+
+    expect(new TransactionTracker({ apiUrl, storage }).list().map((tx) => tx.txId)).toEqual([otherTx]);
+  });
+});
@@ -0,0 +1,26 @@
+/**
+ * ╔══════════════════════════════════════════════════════════════════════════╗
+ * ║  BiUD — Frontend Label Validation Tests                                  ║
+ * ║  validateLabel must agree with the registrar on every shared vector      ║
+ * ╚══════════════════════════════════════════════════════════════════════════╝
+ */
+
+import { describe, it, expect } from "vitest";
+import { validateLabel } from "../frontend/src/services/biud";
+import labelVectors from "./fixtures/label-vectors.json";
+
+// ════════════════════════════════════════════════════════════════════════════
+// SHARED VECTOR TESTS
+// ════════════════════════════════════════════════════════════════════════════
+
+describe("validateLabel", () => {
+  it.each(labelVectors.valid)("should accept %j", (label) => {
+    expect(validateLabel(label)).toEqual({ valid: true });
+  });
+
+  it.each(labelVectors.invalid)("should reject $label", ({ label }) => {
+    const result = validateLabel(label);
+    expect(result.valid).toBe(false);
+    expect(result.error).toBeTruthy();
+  });
+});